@@ -0,0 +1,243 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../index';
+import { User } from '../models/User';
+import { Cart } from '../models/Cart';
+import { Product } from '../models/Product';
+import { Order } from '../models/Order';
+
+describe('Auth API', () => {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+  const credentials = {
+    email: 'admin@example.com',
+    password: 'admin12345'
+  };
+
+  beforeAll(async () => {
+    // Connect to test database
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/headless-ecommerce-test';
+    await mongoose.connect(mongoURI);
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.close();
+  });
+
+  beforeEach(async () => {
+    // Clear test data
+    await User.deleteMany({});
+    await User.create({
+      ...credentials,
+      firstName: 'Store',
+      lastName: 'Admin',
+      role: 'admin'
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('should return tokens for valid credentials', async () => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send(credentials)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.tokens.accessToken).toBeDefined();
+      expect(response.body.data.tokens.refreshToken).toBeDefined();
+      expect(response.body.data.user.password).toBeUndefined();
+    });
+
+    it('should reject an invalid password', async () => {
+      await request(app)
+        .post('/api/auth/login')
+        .send({ ...credentials, password: 'wrong-password' })
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should issue a new token pair', async () => {
+      const login = await request(app).post('/api/auth/login').send(credentials);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: login.body.data.tokens.refreshToken })
+        .expect(200);
+
+      expect(response.body.data.tokens.accessToken).toBeDefined();
+    });
+
+    it('should reject refresh tokens revoked by logout', async () => {
+      const login = await request(app).post('/api/auth/login').send(credentials);
+      const { accessToken, refreshToken } = login.body.data.tokens;
+
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+
+    it('should not accept a refresh token as an access token', async () => {
+      const login = await request(app).post('/api/auth/login').send(credentials);
+
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${login.body.data.tokens.refreshToken}`)
+        .expect(401);
+    });
+  });
+
+  describe('Role-based authorization', () => {
+    it('should require a token for admin routes', async () => {
+      await request(app)
+        .get('/api/orders/analytics/overview')
+        .expect(401);
+    });
+
+    it('should forbid customers from admin routes', async () => {
+      await User.create({
+        email: 'customer@example.com',
+        password: 'customer12345',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        role: 'customer'
+      });
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'customer@example.com', password: 'customer12345' });
+
+      await request(app)
+        .delete(`/api/promos/${new mongoose.Types.ObjectId()}`)
+        .set('Authorization', `Bearer ${login.body.data.tokens.accessToken}`)
+        .expect(403);
+    });
+
+    it('should allow admins on admin routes', async () => {
+      const login = await request(app).post('/api/auth/login').send(credentials);
+
+      await request(app)
+        .get('/api/promos')
+        .set('Authorization', `Bearer ${login.body.data.tokens.accessToken}`)
+        .expect(200);
+    });
+  });
+
+  describe('Cart merge on sign-in', () => {
+    it('should merge the guest cart into the saved cart, capped by stock', async () => {
+      const product = await Product.create({
+        name: 'Test Product',
+        description: 'Test Description',
+        category: 'Electronics',
+        brand: 'TestBrand',
+        variants: [{
+          name: 'Variant 1',
+          sku: 'MERGE-001',
+          price: 100,
+          stock: 5
+        }]
+      });
+      const variantId = (product.variants[0] as any)._id.toString();
+      const item = {
+        productId: product._id,
+        variantId,
+        price: 100,
+        productName: product.name,
+        variantName: 'Variant 1',
+        sku: 'MERGE-001'
+      };
+
+      const user = await User.findOne({ email: credentials.email });
+      await Cart.create({
+        token: Cart.generateToken(),
+        userId: user?._id,
+        items: [{ ...item, quantity: 3 }],
+        expiresAt: new Date(Date.now() + 60000)
+      });
+      const guestCart = await Cart.create({
+        token: Cart.generateToken(),
+        items: [{ ...item, quantity: 4 }],
+        expiresAt: new Date(Date.now() + 60000)
+      });
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ ...credentials, cartToken: guestCart.token })
+        .expect(200);
+
+      expect(response.body.data.cart.token).toBe(guestCart.token);
+      expect(response.body.data.cart.items).toHaveLength(1);
+      expect(response.body.data.cart.items[0].quantity).toBe(5);
+      expect(await Cart.countDocuments({ userId: user?._id })).toBe(1);
+
+      await Product.deleteMany({});
+      await Cart.deleteMany({});
+    });
+  });
+
+  describe('GET /api/orders/customer/:email', () => {
+    it('should only list the orders of the authenticated customer', async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'jane@example.com', password: 'secret123', firstName: 'Jane', lastName: 'Doe' })
+        .expect(201);
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'jane@example.com', password: 'secret123' });
+      const { accessToken } = login.body.data.tokens;
+
+      // Anyone can check out as a guest with Jane's email; only her account's order is hers
+      const user = await User.findOne({ email: 'jane@example.com' });
+      const placeOrder = (userId?: mongoose.Types.ObjectId) => Order.create({
+        cartId: new mongoose.Types.ObjectId(),
+        ...(userId && { userId }),
+        customerInfo: { email: 'jane@example.com', firstName: 'Jane', lastName: 'Doe' },
+        shippingAddress: { street: '123 Main St', city: 'New York', state: 'NY', zipCode: '10001', country: 'USA' },
+        items: [{
+          productId: new mongoose.Types.ObjectId(),
+          variantId: 'variant-1',
+          quantity: 1,
+          price: 100,
+          productName: 'Test Product',
+          variantName: 'Variant 1',
+          sku: 'AUTH-001'
+        }],
+        subtotal: 100,
+        total: 100,
+        paymentMethod: 'credit_card'
+      });
+      const ownOrder = await placeOrder(user?._id as mongoose.Types.ObjectId);
+      await placeOrder();
+
+      const response = await request(app)
+        .get('/api/orders/customer/jane%40example.com')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.orders).toHaveLength(1);
+      expect(response.body.data.orders[0]._id).toBe(String(ownOrder._id));
+
+      const adminLogin = await request(app).post('/api/auth/login').send(credentials);
+      const staffResponse = await request(app)
+        .get('/api/orders/customer/jane%40example.com')
+        .set('Authorization', `Bearer ${adminLogin.body.data.tokens.accessToken}`)
+        .expect(200);
+
+      expect(staffResponse.body.data.orders).toHaveLength(2);
+
+      await request(app)
+        .get('/api/orders/customer/john%40example.com')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+
+      await Order.deleteMany({});
+    });
+  });
+});
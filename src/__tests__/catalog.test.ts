@@ -1,9 +1,16 @@
 import request from 'supertest';
 import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
 import app from '../index';
 import { Product } from '../models/Product';
 
 describe('Catalog API', () => {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+  const adminToken = jwt.sign(
+    { sub: new mongoose.Types.ObjectId().toString(), email: 'admin@example.com', role: 'admin' },
+    process.env.JWT_SECRET
+  );
+
   beforeAll(async () => {
     // Connect to test database
     const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/headless-ecommerce-test';
@@ -327,4 +334,89 @@ describe('Catalog API', () => {
       expect(response.body.data).toContain('Brand2');
     });
   });
-});
\ No newline at end of file
+
+  describe('Admin product management', () => {
+    const productPayload = {
+      name: 'Admin Product',
+      description: 'Created through the API',
+      category: 'Electronics',
+      brand: 'TestBrand',
+      variants: [{
+        name: 'Variant 1',
+        sku: 'ADMIN-001',
+        price: 100,
+        stock: 10
+      }]
+    };
+
+    it('should reject unauthenticated requests', async () => {
+      await request(app)
+        .post('/api/catalog/products')
+        .send(productPayload)
+        .expect(401);
+    });
+
+    it('should create a product', async () => {
+      const response = await request(app)
+        .post('/api/catalog/products')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(productPayload)
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.variants[0].sku).toBe('ADMIN-001');
+    });
+
+    it('should return 409 when the SKU already exists', async () => {
+      await Product.create(productPayload);
+
+      const response = await request(app)
+        .post('/api/catalog/products')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ ...productPayload, name: 'Duplicate SKU Product' })
+        .expect(409);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should keep variant IDs when replacing variants with the same SKU', async () => {
+      const product = await Product.create(productPayload);
+      const variantId = (product.variants[0] as any)._id.toString();
+
+      const response = await request(app)
+        .patch(`/api/catalog/products/${product._id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ variants: [{ ...productPayload.variants[0], price: 80 }] })
+        .expect(200);
+
+      expect(response.body.data.variants[0]._id).toBe(variantId);
+      expect(response.body.data.variants[0].price).toBe(80);
+    });
+
+    it('should soft-delete a product', async () => {
+      const product = await Product.create(productPayload);
+
+      await request(app)
+        .delete(`/api/catalog/products/${product._id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const stored = await Product.findById(product._id);
+      expect(stored?.isActive).toBe(false);
+
+      await request(app)
+        .get(`/api/catalog/products/${product._id}`)
+        .expect(404);
+    });
+
+    it('should not remove the last variant of a product', async () => {
+      const product = await Product.create(productPayload);
+      const variantId = (product.variants[0] as any)._id.toString();
+
+      await request(app)
+        .delete(`/api/catalog/products/${product._id}/variants/${variantId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+  });
+});
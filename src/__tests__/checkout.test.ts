@@ -0,0 +1,862 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import app from '../index';
+import { Product, IProduct } from '../models/Product';
+import { Cart, ICart } from '../models/Cart';
+import { Order } from '../models/Order';
+import { StockReservation } from '../models/StockReservation';
+import { IdempotencyKey } from '../models/IdempotencyKey';
+import { TaxRate } from '../models/TaxRate';
+import { ShippingZone } from '../models/ShippingZone';
+import { ExchangeRate } from '../models/ExchangeRate';
+import { PromoCode } from '../models/PromoCode';
+import { GiftCard } from '../models/GiftCard';
+import { PromoRedemption } from '../models/PromoRedemption';
+import { Promotion } from '../models/Promotion';
+
+describe('Checkout API', () => {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+  const adminToken = jwt.sign(
+    { sub: new mongoose.Types.ObjectId().toString(), email: 'admin@example.com', role: 'admin' },
+    process.env.JWT_SECRET
+  );
+
+  let product: IProduct;
+  let cart: ICart;
+
+  const checkoutPayload = () => ({
+    cartId: String(cart._id),
+    customerInfo: {
+      email: 'customer@example.com',
+      firstName: 'John',
+      lastName: 'Doe'
+    },
+    shippingAddress: {
+      street: '123 Main St',
+      city: 'New York',
+      state: 'NY',
+      zipCode: '10001',
+      country: 'USA'
+    },
+    paymentMethod: 'credit_card'
+  });
+
+  beforeAll(async () => {
+    // Connect to test database
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/headless-ecommerce-test';
+    await mongoose.connect(mongoURI);
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.close();
+  });
+
+  beforeEach(async () => {
+    // Clear test data
+    await Product.deleteMany({});
+    await Cart.deleteMany({});
+    await Order.deleteMany({});
+    await StockReservation.deleteMany({});
+    await IdempotencyKey.deleteMany({});
+    await TaxRate.deleteMany({});
+    await ShippingZone.deleteMany({});
+    await Promotion.deleteMany({});
+    await PromoRedemption.deleteMany({});
+    await GiftCard.deleteMany({});
+
+    product = await Product.create({
+      name: 'Test Product',
+      description: 'Test Description',
+      category: 'Electronics',
+      brand: 'TestBrand',
+      variants: [{
+        name: 'Variant 1',
+        sku: 'CHECKOUT-001',
+        price: 100,
+        stock: 10
+      }],
+      isActive: true
+    });
+
+    cart = await Cart.createOrGetCart();
+    await cart.addItem({
+      productId: String(product._id),
+      variantId: (product.variants[0] as any)._id.toString(),
+      quantity: 1,
+      price: 100,
+      productName: product.name,
+      variantName: 'Variant 1',
+      sku: 'CHECKOUT-001'
+    });
+  });
+
+  describe('Idempotency-Key', () => {
+    it('should replay the original order for a retried checkout', async () => {
+      const first = await request(app)
+        .post('/api/checkout')
+        .set('Idempotency-Key', 'checkout-retry-1')
+        .send(checkoutPayload())
+        .expect(201);
+
+      const retry = await request(app)
+        .post('/api/checkout')
+        .set('Idempotency-Key', 'checkout-retry-1')
+        .send(checkoutPayload())
+        .expect(201);
+
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body.data.orderNumber).toBe(first.body.data.orderNumber);
+      expect(await Order.countDocuments()).toBe(1);
+    });
+
+    it('should replay money amounts exactly as originally sent', async () => {
+      const first = await request(app)
+        .post('/api/checkout')
+        .set('Idempotency-Key', 'checkout-retry-3')
+        .send(checkoutPayload())
+        .expect(201);
+
+      const retry = await request(app)
+        .post('/api/checkout')
+        .set('Idempotency-Key', 'checkout-retry-3')
+        .send(checkoutPayload())
+        .expect(201);
+
+      expect(typeof first.body.data.total).toBe('number');
+      expect(retry.body).toEqual(first.body);
+    });
+
+    it('should reject a reused key with a different payload', async () => {
+      await request(app)
+        .post('/api/checkout')
+        .set('Idempotency-Key', 'checkout-retry-2')
+        .send(checkoutPayload())
+        .expect(201);
+
+      await request(app)
+        .post('/api/checkout')
+        .set('Idempotency-Key', 'checkout-retry-2')
+        .send({ ...checkoutPayload(), paymentMethod: 'paypal' })
+        .expect(422);
+    });
+  });
+
+  describe('Payments', () => {
+    it('should authorize at checkout and capture through the provider', async () => {
+      const checkout = await request(app)
+        .post('/api/checkout')
+        .send({ ...checkoutPayload(), paymentToken: 'tok_visa' })
+        .expect(201);
+
+      expect(checkout.body.data.paymentProvider).toBe('mock');
+      expect(checkout.body.data.paymentIntentId).toBeDefined();
+      expect(checkout.body.data.paymentStatus).toBe('authorized');
+
+      const capture = await request(app)
+        .put(`/api/orders/${checkout.body.data._id}/payment`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ action: 'capture' })
+        .expect(200);
+
+      expect(capture.body.data.paymentStatus).toBe('paid');
+      const reservation = await StockReservation.findById(checkout.body.data.reservationId);
+      expect(reservation?.status).toBe('committed');
+    });
+
+    it('should mark the payment failed when the provider declines', async () => {
+      const checkout = await request(app)
+        .post('/api/checkout')
+        .send({ ...checkoutPayload(), paymentToken: 'tok_declined' })
+        .expect(201);
+
+      expect(checkout.body.data.paymentStatus).toBe('failed');
+
+      await request(app)
+        .put(`/api/orders/${checkout.body.data._id}/payment`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ action: 'capture' })
+        .expect(409);
+    });
+  });
+
+  describe('Money', () => {
+    it('should keep exact totals for fractional prices and percentage discounts', async () => {
+      await PromoCode.deleteMany({});
+      await PromoCode.create({
+        code: 'FIFTEEN',
+        type: 'percentage',
+        value: 15,
+        validFrom: new Date(Date.now() - 60 * 1000),
+        validTo: new Date(Date.now() + 60 * 60 * 1000)
+      });
+      cart.items[0]!.price = 179.99;
+      cart.items[0]!.quantity = 3;
+      await cart.save();
+
+      const response = await request(app)
+        .post('/api/checkout')
+        .send({ ...checkoutPayload(), promoCode: 'FIFTEEN' })
+        .expect(201);
+
+      // 3 x 179.99 = 539.97; 15% of it is 80.9955, rounded half up to 81.00
+      expect(response.body.data.subtotal).toBe(539.97);
+      expect(response.body.data.discount).toBe(81);
+      expect(response.body.data.total).toBe(458.97);
+
+      const stored = await Order.collection.findOne({ _id: new mongoose.Types.ObjectId(response.body.data._id) });
+      expect(stored?.total).toBeInstanceOf(mongoose.Types.Decimal128);
+      expect(stored?.total.toString()).toBe('458.97');
+    });
+  });
+
+  describe('Promotions', () => {
+    const variantId = () => (product.variants[0] as any)._id.toString();
+
+    it('should apply automatic promotions and keep the line discounts on the order', async () => {
+      await Promotion.create({
+        name: 'Buy 2 get 1 free',
+        actions: [{ type: 'buy_x_get_y', buyQuantity: 2, getQuantity: 1, items: { skus: ['CHECKOUT-001'] } }]
+      });
+
+      const updated = await request(app)
+        .put(`/api/cart/${cart.token}/items/${product._id}/${variantId()}`)
+        .send({ quantity: 3 })
+        .expect(200);
+      expect(updated.body.data.discount).toBe(100);
+      expect(updated.body.data.items[0].discounts[0]).toMatchObject({ name: 'Buy 2 get 1 free', amount: 100 });
+
+      const response = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload())
+        .expect(201);
+
+      expect(response.body.data.items[0].discount).toBe(100);
+      expect(response.body.data.promotions).toHaveLength(1);
+      expect(response.body.data.total).toBe(200);
+    });
+
+    it('should not combine an exclusive promotion with a promo code', async () => {
+      await Promotion.create({
+        name: 'Members week',
+        actions: [{ type: 'percentage', value: 10 }],
+        exclusive: true
+      });
+      await PromoCode.deleteMany({});
+      await PromoCode.create({
+        code: 'FIVEOFF',
+        type: 'fixed',
+        value: 5,
+        validFrom: new Date(Date.now() - 60 * 1000),
+        validTo: new Date(Date.now() + 60 * 60 * 1000)
+      });
+
+      await request(app).post(`/api/cart/${cart.token}/promo`).send({ code: 'FIVEOFF' }).expect(400);
+
+      const response = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload())
+        .expect(201);
+
+      expect(response.body.data.discount).toBe(10);
+      expect(response.body.data.promoCode).toBeUndefined();
+      expect(response.body.data.total).toBe(90);
+    });
+
+    it('should only discount the items a scoped promo code applies to', async () => {
+      const book = await Product.create({
+        name: 'Test Book',
+        description: 'Test Description',
+        category: 'Books',
+        brand: 'TestPress',
+        variants: [{ name: 'Paperback', sku: 'BOOK-001', price: 50, stock: 10 }],
+        isActive: true
+      });
+      await cart.addItem({
+        productId: String(book._id),
+        variantId: (book.variants[0] as any)._id.toString(),
+        quantity: 1,
+        price: 50,
+        productName: book.name,
+        variantName: 'Paperback',
+        sku: 'BOOK-001'
+      });
+      await PromoCode.deleteMany({});
+      const validity = { validFrom: new Date(Date.now() - 60 * 1000), validTo: new Date(Date.now() + 60 * 60 * 1000) };
+      await PromoCode.create([
+        { code: 'BOOKS20', type: 'percentage', value: 20, appliesTo: { categories: ['Books'] }, ...validity },
+        { code: 'TOYS20', type: 'percentage', value: 20, appliesTo: { categories: ['Toys'] }, ...validity }
+      ]);
+
+      const rejected = await request(app).post(`/api/cart/${cart.token}/promo`).send({ code: 'TOYS20' }).expect(400);
+      expect(rejected.body.details.every((line: any) => !line.eligible)).toBe(true);
+
+      const response = await request(app).post(`/api/cart/${cart.token}/promo`).send({ code: 'BOOKS20' }).expect(200);
+
+      expect(response.body.data.discount).toBe(10);
+      expect(response.body.data.items[0].discount).toBe(0);
+      expect(response.body.data.items[1].discount).toBe(10);
+      expect(response.body.eligibility.map((line: any) => line.eligible)).toEqual([false, true]);
+      expect(response.body.eligibility[1].reason).toBe('Qualifies: category Books');
+    });
+
+    it('should limit promo code uses per customer through the redemption ledger', async () => {
+      await PromoCode.deleteMany({});
+      await PromoCode.create({
+        code: 'WELCOME10',
+        type: 'percentage',
+        value: 10,
+        maxUsesPerCustomer: 1,
+        validFrom: new Date(Date.now() - 60 * 1000),
+        validTo: new Date(Date.now() + 60 * 60 * 1000)
+      });
+
+      const first = await request(app)
+        .post('/api/checkout')
+        .send({ ...checkoutPayload(), promoCode: 'WELCOME10' })
+        .expect(201);
+      expect(first.body.data.discount).toBe(10);
+
+      const redemption = await PromoRedemption.findOne({ promoCode: 'WELCOME10' });
+      expect(redemption?.orderNumber).toBe(first.body.data.orderNumber);
+      expect(redemption?.email).toBe('customer@example.com');
+
+      cart = await Cart.createOrGetCart();
+      await cart.addItem({
+        productId: String(product._id),
+        variantId: variantId(),
+        quantity: 1,
+        price: 100,
+        productName: product.name,
+        variantName: 'Variant 1',
+        sku: 'CHECKOUT-001'
+      });
+      const payload = checkoutPayload();
+      const second = await request(app)
+        .post('/api/checkout')
+        .send({ ...payload, customerInfo: { ...payload.customerInfo, email: 'Customer@Example.com' }, promoCode: 'WELCOME10' })
+        .expect(400);
+      expect(second.body.error).toBe('Promo code WELCOME10 can only be used 1 time(s) per customer');
+    });
+  });
+
+  describe('Campaigns', () => {
+    it('should generate unique campaign codes, export them and deactivate them together', async () => {
+      await PromoCode.deleteMany({});
+      const created = await request(app)
+        .post('/api/campaigns')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          name: 'Spring newsletter',
+          count: 50,
+          template: { prefix: 'spring-', length: 6 },
+          rules: {
+            type: 'percentage',
+            value: 15,
+            validFrom: new Date(Date.now() - 60 * 1000).toISOString(),
+            validTo: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+          }
+        })
+        .expect(201);
+      expect(created.body.data.codeCount).toBe(50);
+
+      const codes = await PromoCode.find({ campaignId: created.body.data._id });
+      expect(new Set(codes.map(code => code.code)).size).toBe(50);
+      expect(codes.every(code => /^SPRING-[A-Z2-9]{6}$/.test(code.code) && code.maxUses === 1)).toBe(true);
+
+      const exported = await request(app)
+        .get(`/api/campaigns/${created.body.data._id}/codes/export`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(exported.headers['content-type']).toContain('text/csv');
+      expect(exported.text.trim().split('\n')).toHaveLength(51);
+
+      await request(app)
+        .post(`/api/campaigns/${created.body.data._id}/deactivate`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(await PromoCode.countDocuments({ campaignId: created.body.data._id, isActive: true })).toBe(0);
+
+      const details = await request(app)
+        .get(`/api/campaigns/${created.body.data._id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(details.body.data.stats).toMatchObject({ totalCodes: 50, activeCodes: 0, usedCodes: 0 });
+    });
+  });
+
+  describe('Cart versions', () => {
+    it('should reject changes based on a stale ETag and keep concurrent quantity updates', async () => {
+      const addItem = (ifMatch?: string) => {
+        const call = request(app)
+          .post(`/api/cart/${cart.token}/items`)
+          .send({ productId: String(product._id), variantId: (product.variants[0] as any)._id.toString(), quantity: 1 });
+        return ifMatch ? call.set('If-Match', ifMatch) : call;
+      };
+
+      const viewed = await request(app)
+        .get(`/api/cart/${cart.token}`)
+        .expect(200);
+      const etag = viewed.headers.etag;
+
+      const added = await addItem(etag).expect(200);
+      expect(added.headers.etag).not.toBe(etag);
+      await addItem(etag).expect(412);
+
+      await Promise.all([addItem(), addItem(), addItem()]);
+      const updated = await Cart.findById(cart._id);
+      expect(updated?.items[0]?.quantity).toBe(5);
+      expect(updated?.total).toBe(500);
+    });
+
+    it('should apply every concurrent quantity update exactly once', async () => {
+      const responses = await Promise.all(Array.from({ length: 8 }, () =>
+        request(app)
+          .post(`/api/cart/${cart.token}/items`)
+          .send({ productId: String(product._id), variantId: (product.variants[0] as any)._id.toString(), quantity: 1 })
+      ));
+
+      expect(responses.map(response => response.status)).toEqual(Array(8).fill(200));
+      const updated = await Cart.findById(cart._id);
+      expect(updated?.items[0]?.quantity).toBe(9);
+      expect(updated?.subtotal).toBe(900);
+      expect(updated?.total).toBe(900);
+    });
+  });
+
+  describe('Cart revalidation', () => {
+    it('should report price and stock changes when the cart is read', async () => {
+      const variantId = (product.variants[0] as any)._id.toString();
+      await cart.updateItemQuantity(String(product._id), variantId, 3);
+      await Product.updateOne(
+        { _id: product._id, 'variants._id': variantId },
+        { $set: { 'variants.$.price': 120, 'variants.$.stock': 2 } }
+      );
+
+      const response = await request(app)
+        .get(`/api/cart/${cart.token}`)
+        .expect(200);
+
+      expect(response.body.changes).toEqual([
+        expect.objectContaining({ type: 'quantity_reduced', previousQuantity: 3, quantity: 2 }),
+        expect.objectContaining({ type: 'price_changed', previousPrice: 100, price: 120 }),
+      ]);
+      expect(response.body.data.total).toBe(240);
+      // Following the catalog isn't a change of the customer's: an If-Match sent before stays valid
+      expect(response.headers.etag).toBe(cart.getETag());
+
+      const again = await request(app)
+        .get(`/api/cart/${cart.token}`)
+        .expect(200);
+      expect(again.body.changes).toEqual([]);
+    });
+
+    it('should reject checkout at a stale price until the cart was reviewed', async () => {
+      await Product.updateOne({ _id: product._id }, { $set: { 'variants.0.price': 90 } });
+
+      const rejected = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload())
+        .expect(409);
+      expect(rejected.body.details).toEqual([
+        expect.objectContaining({ type: 'price_changed', previousPrice: 100, price: 90 }),
+      ]);
+
+      const checkout = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload())
+        .expect(201);
+      expect(checkout.body.data.total).toBe(90);
+    });
+
+    it('should flag lines of deactivated products and leave them out of the totals', async () => {
+      await Product.updateOne({ _id: product._id }, { $set: { isActive: false } });
+
+      const response = await request(app)
+        .get(`/api/cart/${cart.token}`)
+        .expect(200);
+
+      expect(response.body.changes).toEqual([
+        expect.objectContaining({ type: 'unavailable', reason: 'product_inactive' }),
+      ]);
+      expect(response.body.data.items[0].unavailable).toBe('product_inactive');
+      expect(response.body.data.total).toBe(0);
+    });
+
+    it('should leave unavailable lines out of checkout quotes', async () => {
+      const other = await Product.create({
+        name: 'Other Product',
+        description: 'Test Description',
+        category: 'Electronics',
+        brand: 'TestBrand',
+        variants: [{ name: 'Variant 1', sku: 'CHECKOUT-002', price: 50, stock: 10 }],
+        isActive: true
+      });
+      await cart.addItem({
+        productId: String(other._id),
+        variantId: (other.variants[0] as any)._id.toString(),
+        quantity: 1,
+        price: 50,
+        productName: other.name,
+        variantName: 'Variant 1',
+        sku: 'CHECKOUT-002'
+      });
+      await Product.updateOne({ _id: other._id }, { $set: { isActive: false } });
+      await request(app).get(`/api/cart/${cart.token}`).expect(200);
+
+      const response = await request(app)
+        .post('/api/checkout/calculate')
+        .send({ cartId: String(cart._id) })
+        .expect(200);
+
+      expect(response.body.data.subtotal).toBe(100);
+      expect(response.body.data.total).toBe(100);
+    });
+  });
+
+  describe('Batch cart operations', () => {
+    it('should apply all operations with one stock check or none of them', async () => {
+      const productId = String(product._id);
+      const variantId = (product.variants[0] as any)._id.toString();
+      const lineId = String(cart.items[0]!._id);
+
+      const rejected = await request(app)
+        .patch(`/api/cart/${cart.token}`)
+        .send({
+          operations: [
+            { op: 'add', productId, variantId, quantity: 4 },
+            { op: 'add', productId: new mongoose.Types.ObjectId().toString(), variantId, quantity: 1 },
+            { op: 'set', lineId, quantity: 11 },
+          ]
+        })
+        .expect(400);
+      expect(rejected.body.results).toEqual([
+        // Both lines of the variant over its stock fail
+        expect.objectContaining({ index: 0, success: false, error: 'Insufficient stock' }),
+        expect.objectContaining({ index: 1, success: false, error: 'Product not found' }),
+        expect.objectContaining({ index: 2, success: false, error: 'Insufficient stock' }),
+      ]);
+      expect((await Cart.findById(cart._id))?.items[0]?.quantity).toBe(1);
+
+      const response = await request(app)
+        .patch(`/api/cart/${cart.token}`)
+        .send({
+          operations: [
+            { op: 'add', productId, variantId, quantity: 4 },
+            { op: 'set', lineId, quantity: 7 },
+          ]
+        })
+        .expect(200);
+      expect(response.body.results).toEqual([
+        { index: 0, op: 'add', success: true, lineId, quantity: 5 },
+        { index: 1, op: 'set', success: true, lineId, quantity: 7 },
+      ]);
+      expect(response.body.data.total).toBe(700);
+    });
+
+    it('should count a line set again once its variant is back in stock', async () => {
+      const variantId = (product.variants[0] as any)._id.toString();
+      const lineId = String(cart.items[0]!._id);
+      await Product.updateOne({ _id: product._id, 'variants._id': variantId }, { $set: { 'variants.$.stock': 0 } });
+      await request(app).get(`/api/cart/${cart.token}`).expect(200);
+      await Product.updateOne({ _id: product._id, 'variants._id': variantId }, { $set: { 'variants.$.stock': 5 } });
+
+      const response = await request(app)
+        .patch(`/api/cart/${cart.token}`)
+        .send({ operations: [{ op: 'set', lineId, quantity: 2 }] })
+        .expect(200);
+
+      expect(response.body.data.items[0].unavailable).toBeUndefined();
+      expect(response.body.data.total).toBe(200);
+    });
+  });
+
+  describe('Customizations', () => {
+    it('should keep differently customized lines apart and carry them onto the order', async () => {
+      await Product.updateOne({ _id: product._id }, {
+        $set: {
+          customizations: [
+            { key: 'engraving', name: 'Engraving', type: 'text', maxLength: 10, surcharge: 15 },
+            { key: 'gift_wrap', name: 'Gift wrap', type: 'boolean', surcharge: 5 },
+          ]
+        }
+      });
+      const variantId = (product.variants[0] as any)._id.toString();
+      const addItem = (customizations: Record<string, string | boolean>) => request(app)
+        .post(`/api/cart/${cart.token}/items`)
+        .send({ productId: String(product._id), variantId, quantity: 1, customizations });
+
+      await addItem({ engraving: 'For Sam', gift_wrap: true }).expect(200);
+      await addItem({ engraving: 'For Alex' }).expect(200);
+      const response = await addItem({ gift_wrap: true, engraving: 'For Sam' }).expect(200);
+
+      expect(response.body.data.items.map((item: any) => [item.quantity, item.price])).toEqual([[1, 100], [2, 120], [1, 115]]);
+      await addItem({ engraving: 'Far too long' }).expect(400);
+      await addItem({ monogram: 'AB' }).expect(400);
+
+      const checkout = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload())
+        .expect(201);
+      expect(checkout.body.data.subtotal).toBe(455);
+      expect(checkout.body.data.items[1].customizations).toEqual([
+        { key: 'engraving', name: 'Engraving', value: 'For Sam', surcharge: 15 },
+        { key: 'gift_wrap', name: 'Gift wrap', value: 'true', surcharge: 5 },
+      ]);
+    });
+  });
+
+  describe('Gift Cards', () => {
+    it('should split the order between a gift card and the payment method and restore the card on cancel', async () => {
+      const giftCard = await GiftCard.issue({ code: 'GIFT-30', amount: 30 });
+      await request(app)
+        .post(`/api/cart/${cart.token}/gift-cards`)
+        .send({ code: 'gift-30' })
+        .expect(200);
+
+      const checkout = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload())
+        .expect(201);
+
+      expect(checkout.body.data.total).toBe(100);
+      expect(checkout.body.data.tenders).toEqual([
+        expect.objectContaining({ type: 'gift_card', giftCardCode: 'GIFT-30', amount: 30 }),
+        expect.objectContaining({ type: 'payment', paymentMethod: 'credit_card', amount: 70 }),
+      ]);
+      expect((await GiftCard.findById(giftCard._id))?.balance).toBe(0);
+
+      const cancel = await request(app)
+        .post(`/api/orders/${checkout.body.data._id}/cancel`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({})
+        .expect(200);
+
+      expect(cancel.body.data.refundedTotal).toBe(30);
+      expect((await GiftCard.findById(giftCard._id))?.balance).toBe(30);
+    });
+
+    it('should pay an order covered by a gift card without a payment method', async () => {
+      await GiftCard.issue({ code: 'GIFT-150', amount: 150 });
+      await cart.applyGiftCard('GIFT-150');
+
+      const payload: Partial<ReturnType<typeof checkoutPayload>> = checkoutPayload();
+      delete payload.paymentMethod;
+      const checkout = await request(app)
+        .post('/api/checkout')
+        .send(payload)
+        .expect(201);
+
+      expect(checkout.body.data.paymentMethod).toBe('gift_card');
+      expect(checkout.body.data.paymentStatus).toBe('paid');
+      expect(checkout.body.data.status).toBe('confirmed');
+      expect((await GiftCard.findOne({ code: 'GIFT-150' }))?.balance).toBe(50);
+    });
+  });
+
+  describe('Tax', () => {
+    it('should add the most specific rate for the shipping address to the total', async () => {
+      await TaxRate.create([
+        { name: 'New York State', country: 'USA', state: 'NY', rate: 4 },
+        { name: 'New York City', country: 'USA', state: 'NY', zipCode: '100', rate: 8.875 }
+      ]);
+
+      const response = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload())
+        .expect(201);
+
+      expect(response.body.data.items[0].tax).toEqual({ taxClass: 'standard', rate: 8.875, amount: 8.88 });
+      expect(response.body.data.taxTotal).toBe(8.88);
+      expect(response.body.data.pricesIncludeTax).toBe(false);
+      expect(response.body.data.total).toBe(108.88);
+    });
+  });
+
+  describe('Shipping', () => {
+    beforeEach(async () => {
+      await ShippingZone.create({
+        name: 'United States',
+        regions: [{ country: 'USA' }],
+        methods: [
+          { code: 'standard', name: 'Standard', type: 'standard', rateType: 'weight', tiers: [{ min: 0, price: 5 }, { min: 2, price: 9 }], freeShippingThreshold: 150 },
+          { code: 'express', name: 'Express', type: 'express', rateType: 'flat', flatRate: 20 }
+        ]
+      });
+    });
+
+    it('should price the methods by weight and charge the selected one', async () => {
+      await Product.updateOne({ _id: product._id }, { $set: { 'variants.0.weight': 2.5 } });
+
+      const options = await request(app)
+        .post('/api/checkout/shipping-options')
+        .send({ cartId: String(cart._id), shippingAddress: checkoutPayload().shippingAddress })
+        .expect(200);
+
+      expect(options.body.data.map((option: any) => [option.code, option.cost])).toEqual([['standard', 9], ['express', 20]]);
+
+      const response = await request(app)
+        .post('/api/checkout')
+        .send({ ...checkoutPayload(), shippingMethod: 'express' })
+        .expect(201);
+
+      expect(response.body.data.shippingMethod.code).toBe('express');
+      expect(response.body.data.shippingTotal).toBe(20);
+      expect(response.body.data.total).toBe(120);
+    });
+
+    it('should reject a method the zone does not offer', async () => {
+      await request(app)
+        .post('/api/checkout')
+        .send({ ...checkoutPayload(), shippingMethod: 'drone' })
+        .expect(400);
+
+      expect(await Order.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('Currencies', () => {
+    const variantId = () => (product.variants[0] as any)._id.toString();
+
+    beforeEach(async () => {
+      process.env.SUPPORTED_CURRENCIES = 'EUR,GBP,JPY';
+      await ExchangeRate.deleteMany({});
+      await PromoCode.deleteMany({});
+      await ExchangeRate.replaceRates({ EUR: 0.9, JPY: 151.237 });
+    });
+
+    afterAll(() => {
+      delete process.env.SUPPORTED_CURRENCIES;
+    });
+
+    it('should price a cart by exchange rate or listed price and keep its currency on the order', async () => {
+      await Product.updateOne({ _id: product._id }, { $set: { 'variants.0.prices': [{ currency: 'GBP', amount: 79.99 }] } });
+
+      const yen = await request(app).post('/api/cart').send({ currency: 'JPY' }).expect(200);
+      const yenCart = await request(app)
+        .post(`/api/cart/${yen.body.data.token}/items`)
+        .send({ productId: String(product._id), variantId: variantId(), quantity: 1 })
+        .expect(200);
+      expect(yenCart.body.data.items[0].price).toBe(15124);
+
+      const pounds = await request(app).post('/api/cart').send({ token: cart.token, currency: 'GBP' }).expect(200);
+      expect(pounds.body.data.currency).toBe('GBP');
+      expect(pounds.body.data.items[0].price).toBe(79.99);
+
+      const response = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload())
+        .expect(201);
+
+      expect(response.body.data.currency).toBe('GBP');
+      expect(response.body.data.total).toBe(79.99);
+    });
+
+    it('should only apply fixed promo codes to carts in their currency', async () => {
+      await PromoCode.create({
+        code: 'TENOFF',
+        type: 'fixed',
+        value: 10,
+        validFrom: new Date(Date.now() - 60 * 1000),
+        validTo: new Date(Date.now() + 60 * 60 * 1000)
+      });
+
+      await request(app).post('/api/cart').send({ token: cart.token, currency: 'EUR' }).expect(200);
+      await request(app).post(`/api/cart/${cart.token}/promo`).send({ code: 'TENOFF' }).expect(400);
+
+      await request(app).post('/api/cart').send({ token: cart.token, currency: 'USD' }).expect(200);
+      const applied = await request(app).post(`/api/cart/${cart.token}/promo`).send({ code: 'TENOFF' }).expect(200);
+      expect(applied.body.data.discount).toBe(10);
+    });
+
+    it('should reject an unsupported currency', async () => {
+      await request(app).post('/api/cart').send({ currency: 'CHF' }).expect(400);
+    });
+  });
+
+  describe('Refunds', () => {
+    it('should refund items one at a time and restock them', async () => {
+      const variantId = (product.variants[0] as any)._id.toString();
+      await cart.updateItemQuantity(String(product._id), variantId, 2);
+
+      const checkout = await request(app)
+        .post('/api/checkout')
+        .send({ ...checkoutPayload(), paymentToken: 'tok_visa' })
+        .expect(201);
+      const orderId = checkout.body.data._id;
+      const itemId = checkout.body.data.items[0]._id;
+
+      await request(app)
+        .put(`/api/orders/${orderId}/payment`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ action: 'capture' })
+        .expect(200);
+
+      const partial = await request(app)
+        .post(`/api/orders/${orderId}/refunds`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ items: [{ itemId, quantity: 1 }], restock: true, reason: 'Damaged' })
+        .expect(201);
+
+      expect(partial.body.data.paymentStatus).toBe('partially_refunded');
+      expect(partial.body.data.refundedTotal).toBe(100);
+      expect(partial.body.data.refunds).toHaveLength(1);
+      const stored = await Product.findById(product._id);
+      expect((stored?.variants as any).id(variantId).stock).toBe(9);
+
+      const full = await request(app)
+        .post(`/api/orders/${orderId}/refunds`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ items: [{ itemId, quantity: 1 }] })
+        .expect(201);
+
+      expect(full.body.data.paymentStatus).toBe('refunded');
+      expect(full.body.data.refundedTotal).toBe(200);
+
+      await request(app)
+        .post(`/api/orders/${orderId}/refunds`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ amount: 1 })
+        .expect(409);
+    });
+
+    it('should not restock the items of a cancelled order again', async () => {
+      const variantId = (product.variants[0] as any)._id.toString();
+      const checkout = await request(app)
+        .post('/api/checkout')
+        .send({ ...checkoutPayload(), paymentToken: 'tok_visa' })
+        .expect(201);
+      const orderId = checkout.body.data._id;
+      const itemId = checkout.body.data.items[0]._id;
+
+      await request(app)
+        .put(`/api/orders/${orderId}/payment`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ action: 'capture' })
+        .expect(200);
+      const cancel = await request(app)
+        .post(`/api/orders/${orderId}/cancel`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(cancel.body.data.paymentStatus).toBe('refund_pending');
+      const restocked = (await Product.findById(product._id))?.variants as any;
+      const stock = restocked.id(variantId).stock;
+
+      await request(app)
+        .post(`/api/orders/${orderId}/refunds`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ items: [{ itemId, quantity: 1 }], restock: true })
+        .expect(409);
+
+      const refund = await request(app)
+        .post(`/api/orders/${orderId}/refunds`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ items: [{ itemId, quantity: 1 }] })
+        .expect(201);
+
+      expect(refund.body.data.paymentStatus).toBe('refunded');
+      const stored = await Product.findById(product._id);
+      expect((stored?.variants as any).id(variantId).stock).toBe(stock);
+    });
+  });
+});
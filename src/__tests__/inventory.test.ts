@@ -0,0 +1,239 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../index';
+import { Product, IProduct } from '../models/Product';
+import { Cart } from '../models/Cart';
+import { Order } from '../models/Order';
+import { StockReservation } from '../models/StockReservation';
+import { PromoCode } from '../models/PromoCode';
+import { GiftCard } from '../models/GiftCard';
+
+describe('Inventory reservations', () => {
+  let product: IProduct;
+  let variantId: string;
+
+  const getStock = async (): Promise<number> => {
+    const stored = await Product.findById(product._id);
+    return (stored?.variants as any).id(variantId).stock;
+  };
+
+  const reservationItem = (quantity: number) => ({
+    productId: product._id as mongoose.Types.ObjectId,
+    variantId,
+    quantity
+  });
+
+  beforeAll(async () => {
+    // Connect to test database
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/headless-ecommerce-test';
+    await mongoose.connect(mongoURI);
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.close();
+  });
+
+  beforeEach(async () => {
+    // Clear test data
+    await Product.deleteMany({});
+    await Cart.deleteMany({});
+    await Order.deleteMany({});
+    await StockReservation.deleteMany({});
+    await PromoCode.deleteMany({});
+    await GiftCard.deleteMany({});
+
+    product = await Product.create({
+      name: 'Limited Edition Sneakers',
+      description: 'Only a few pairs available',
+      category: 'Clothing',
+      brand: 'TestBrand',
+      variants: [{
+        name: 'Size 42',
+        sku: 'LIMITED-42',
+        price: 150,
+        stock: 3
+      }],
+      isActive: true
+    });
+    variantId = (product.variants[0] as any)._id.toString();
+  });
+
+  describe('StockReservation.reserve', () => {
+    it('should never reserve more than the available stock under concurrency', async () => {
+      const attempts = await Promise.allSettled(
+        Array.from({ length: 10 }, () => StockReservation.reserve([reservationItem(1)]))
+      );
+
+      const succeeded = attempts.filter(result => result.status === 'fulfilled');
+      expect(succeeded).toHaveLength(3);
+      expect(await getStock()).toBe(0);
+    });
+
+    it('should put back stock already taken when a later item is short', async () => {
+      const other = await Product.create({
+        name: 'Sold Out Socks',
+        description: 'Nothing left',
+        category: 'Clothing',
+        brand: 'TestBrand',
+        variants: [{
+          name: 'One Size',
+          sku: 'SOLDOUT-1',
+          price: 5,
+          stock: 0
+        }],
+        isActive: true
+      });
+
+      await expect(StockReservation.reserve([
+        reservationItem(2),
+        {
+          productId: other._id as mongoose.Types.ObjectId,
+          variantId: (other.variants[0] as any)._id.toString(),
+          quantity: 1
+        }
+      ])).rejects.toThrow('Insufficient stock');
+
+      expect(await getStock()).toBe(3);
+    });
+
+    it('should restock only once when released twice', async () => {
+      const reservation = await StockReservation.reserve([reservationItem(2)]);
+      expect(await getStock()).toBe(1);
+
+      const results = await Promise.all([
+        reservation.release('test'),
+        reservation.release('test')
+      ]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(await getStock()).toBe(3);
+    });
+
+    it('should release expired reservations', async () => {
+      await StockReservation.reserve([reservationItem(2)], { ttlMinutes: -1 });
+      expect(await getStock()).toBe(1);
+
+      expect(await StockReservation.releaseExpired()).toBe(1);
+      expect(await getStock()).toBe(3);
+    });
+  });
+
+  describe('POST /api/checkout', () => {
+    const checkoutPayload = (cartId: string) => ({
+      cartId,
+      customerInfo: {
+        email: 'customer@example.com',
+        firstName: 'John',
+        lastName: 'Doe'
+      },
+      shippingAddress: {
+        street: '123 Main St',
+        city: 'New York',
+        state: 'NY',
+        zipCode: '10001',
+        country: 'USA'
+      },
+      paymentMethod: 'credit_card'
+    });
+
+    it('should only create as many orders as there is stock for parallel checkouts', async () => {
+      const carts = await Promise.all(Array.from({ length: 6 }, async () => {
+        const cart = await Cart.createOrGetCart();
+        await cart.addItem({
+          productId: String(product._id),
+          variantId,
+          quantity: 1,
+          price: 150,
+          productName: product.name,
+          variantName: 'Size 42',
+          sku: 'LIMITED-42'
+        });
+        return cart;
+      }));
+
+      const responses = await Promise.all(carts.map(cart =>
+        request(app).post('/api/checkout').send(checkoutPayload(String(cart._id)))
+      ));
+
+      expect(responses.filter(response => response.status === 201)).toHaveLength(3);
+      expect(responses.filter(response => response.status === 400)).toHaveLength(3);
+      expect(await Order.countDocuments()).toBe(3);
+      expect(await getStock()).toBe(0);
+    });
+
+    it('should reject a saved promo code that ran out of uses', async () => {
+      await PromoCode.create({
+        code: 'ONCE',
+        type: 'fixed',
+        value: 10,
+        validFrom: new Date(Date.now() - 60000),
+        validTo: new Date(Date.now() + 60000),
+        maxUses: 1,
+        usedCount: 1
+      });
+
+      const cart = await Cart.createOrGetCart();
+      await cart.addItem({
+        productId: String(product._id),
+        variantId,
+        quantity: 2,
+        price: 150,
+        productName: product.name,
+        variantName: 'Size 42',
+        sku: 'LIMITED-42'
+      });
+      // Applied while the code still had uses left
+      await Cart.updateOne({ _id: cart._id }, { promoCode: 'ONCE', discount: 10 });
+
+      const response = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload(String(cart._id)))
+        .expect(400);
+
+      expect(response.body.error).toBe('Promo code usage limit reached');
+      expect(await Order.countDocuments()).toBe(0);
+      expect(await getStock()).toBe(3);
+    });
+
+    it('should undo every checkout step when a later step fails', async () => {
+      await PromoCode.create({
+        code: 'TENOFF',
+        type: 'fixed',
+        value: 10,
+        validFrom: new Date(Date.now() - 60000),
+        validTo: new Date(Date.now() + 60000),
+        maxUses: 5
+      });
+      await GiftCard.issue({ code: 'GIFT-100', amount: 100 });
+
+      const cart = await Cart.createOrGetCart();
+      await cart.addItem({
+        productId: String(product._id),
+        variantId,
+        quantity: 2,
+        price: 150,
+        productName: product.name,
+        variantName: 'Size 42',
+        sku: 'LIMITED-42'
+      });
+      await cart.applyPromoCode('TENOFF');
+      // The same card twice: both tenders are planned, but the order can only redeem it once,
+      // so checkout fails after stock, order and the first redemption were written
+      await Cart.updateOne({ _id: cart._id }, { giftCards: ['GIFT-100', 'GIFT-100'] });
+
+      const response = await request(app)
+        .post('/api/checkout')
+        .send(checkoutPayload(String(cart._id)))
+        .expect(409);
+
+      expect(response.body.error).toBe('Gift card GIFT-100 no longer has enough balance');
+      expect(await Order.countDocuments()).toBe(0);
+      expect(await getStock()).toBe(3);
+      const stored = await Cart.findById(cart._id);
+      expect(stored?.items).toHaveLength(1);
+      expect(stored?.promoCode).toBe('TENOFF');
+      expect((await PromoCode.findOne({ code: 'TENOFF' }))?.usedCount).toBe(0);
+      expect((await GiftCard.findOne({ code: 'GIFT-100' }))?.balance).toBe(100);
+    });
+  });
+});
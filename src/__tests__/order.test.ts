@@ -0,0 +1,202 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import app from '../index';
+import { Order, IOrder } from '../models/Order';
+import { Product } from '../models/Product';
+import { PromoCode } from '../models/PromoCode';
+import { StockReservation } from '../models/StockReservation';
+
+describe('Order API', () => {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+  const adminToken = jwt.sign(
+    { sub: new mongoose.Types.ObjectId().toString(), email: 'admin@example.com', role: 'admin' },
+    process.env.JWT_SECRET
+  );
+
+  let order: IOrder;
+
+  beforeAll(async () => {
+    // Connect to test database
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/headless-ecommerce-test';
+    await mongoose.connect(mongoURI);
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.close();
+  });
+
+  beforeEach(async () => {
+    // Clear test data
+    await Order.deleteMany({});
+    await Product.deleteMany({});
+    await PromoCode.deleteMany({});
+    await StockReservation.deleteMany({});
+
+    order = await Order.create({
+      cartId: new mongoose.Types.ObjectId(),
+      customerInfo: {
+        email: 'customer@example.com',
+        firstName: 'John',
+        lastName: 'Doe'
+      },
+      shippingAddress: {
+        street: '123 Main St',
+        city: 'New York',
+        state: 'NY',
+        zipCode: '10001',
+        country: 'USA'
+      },
+      items: [{
+        productId: new mongoose.Types.ObjectId(),
+        variantId: 'variant-1',
+        quantity: 1,
+        price: 100,
+        productName: 'Test Product',
+        variantName: 'Variant 1',
+        sku: 'ORDER-001'
+      }],
+      subtotal: 100,
+      total: 100,
+      paymentMethod: 'credit_card'
+    });
+  });
+
+  const updateStatus = (status: string, notes?: string) =>
+    request(app)
+      .put(`/api/orders/${order._id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status, notes });
+
+  describe('PUT /api/orders/:id', () => {
+    it('should record each status change in the history', async () => {
+      await updateStatus('confirmed', 'Payment verified').expect(200);
+      await updateStatus('shipped').expect(200);
+
+      const response = await request(app)
+        .get(`/api/orders/${order._id}`)
+        .expect(200);
+
+      const history = response.body.data.statusHistory;
+      expect(history.map((entry: any) => entry.to)).toEqual(['pending', 'confirmed', 'shipped']);
+      expect(history[1].from).toBe('pending');
+      expect(history[1].note).toBe('Payment verified');
+      expect(history[1].changedBy.email).toBe('admin@example.com');
+    });
+
+    it('should reject transitions outside the status graph', async () => {
+      await updateStatus('shipped').expect(409);
+
+      await updateStatus('confirmed').expect(200);
+      await updateStatus('shipped').expect(200);
+      await updateStatus('delivered').expect(200);
+      await updateStatus('pending').expect(409);
+
+      const stored = await Order.findById(order._id);
+      expect(stored?.status).toBe('delivered');
+      expect(stored?.statusHistory).toHaveLength(4);
+    });
+  });
+
+  describe('POST /api/orders/:id/cancel', () => {
+    it('should restock, restore promo usage and flag the refund only once', async () => {
+      const product = await Product.create({
+        name: 'Test Product',
+        description: 'Test Description',
+        category: 'Electronics',
+        brand: 'TestBrand',
+        variants: [{
+          name: 'Variant 1',
+          sku: 'CANCEL-001',
+          price: 100,
+          stock: 5
+        }],
+        isActive: true
+      });
+      const variantId = (product.variants[0] as any)._id.toString();
+      const reservation = await StockReservation.reserve([{
+        productId: product._id as mongoose.Types.ObjectId,
+        variantId,
+        quantity: 2
+      }]);
+      await PromoCode.create({
+        code: 'SAVE10',
+        type: 'fixed',
+        value: 10,
+        validFrom: new Date(Date.now() - 60000),
+        validTo: new Date(Date.now() + 60000),
+        usedCount: 1
+      });
+      await Order.updateOne({ _id: order._id }, {
+        reservationId: reservation._id,
+        promoCode: 'SAVE10',
+        paymentStatus: 'paid'
+      });
+
+      const responses = await Promise.all([1, 2].map(() =>
+        request(app)
+          .post(`/api/orders/${order._id}/cancel`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ reason: 'Customer request' })
+      ));
+
+      expect(responses.map(response => response.status)).toEqual([200, 200]);
+      const stored = await Product.findById(product._id);
+      expect((stored?.variants as any).id(variantId).stock).toBe(5);
+      expect((await PromoCode.findOne({ code: 'SAVE10' }))?.usedCount).toBe(0);
+
+      const cancelled = await Order.findById(order._id);
+      expect(cancelled?.status).toBe('cancelled');
+      expect(cancelled?.paymentStatus).toBe('refund_pending');
+      expect(cancelled?.statusHistory.filter(entry => entry.to === 'cancelled')).toHaveLength(1);
+    });
+
+    it('should not let customers cancel a shipped order', async () => {
+      const customerToken = jwt.sign(
+        { sub: new mongoose.Types.ObjectId().toString(), email: 'customer@example.com', role: 'customer' },
+        process.env.JWT_SECRET as string
+      );
+      await updateStatus('confirmed').expect(200);
+      await updateStatus('shipped').expect(200);
+
+      await request(app)
+        .post(`/api/orders/${order._id}/cancel`)
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(409);
+    });
+  });
+
+  describe('GET /api/orders/analytics/revenue', () => {
+    it('should report paid and partially refunded orders as numbers', async () => {
+      await Order.updateOne({ _id: order._id }, { paymentStatus: 'paid' });
+      await Order.create({
+        cartId: new mongoose.Types.ObjectId(),
+        customerInfo: order.customerInfo,
+        shippingAddress: order.shippingAddress,
+        items: [{
+          productId: new mongoose.Types.ObjectId(),
+          variantId: 'variant-1',
+          quantity: 1,
+          price: 50.5,
+          productName: 'Test Product',
+          variantName: 'Variant 1',
+          sku: 'ORDER-001'
+        }],
+        subtotal: 50.5,
+        total: 50.5,
+        paymentMethod: 'credit_card',
+        paymentStatus: 'partially_refunded'
+      });
+
+      const response = await request(app)
+        .get('/api/orders/analytics/revenue')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.totalRevenue).toBe(150.5);
+      expect(response.body.data.orderCount).toBe(2);
+      expect(response.body.data.averageOrderValue).toBe(75.25);
+      expect(response.body.data.dailyRevenue[0].revenue).toBe(150.5);
+    });
+  });
+});
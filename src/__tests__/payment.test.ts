@@ -0,0 +1,116 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../index';
+import { Order, IOrder } from '../models/Order';
+import { WebhookEvent } from '../models/WebhookEvent';
+import { signWebhookPayload } from '../services/payments';
+
+describe('Payment webhooks', () => {
+  process.env.PAYMENT_WEBHOOK_SECRET = process.env.PAYMENT_WEBHOOK_SECRET || 'webhook-test-secret';
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+
+  let order: IOrder;
+
+  const sendWebhook = (payload: object, options: { timestamp?: number; secret?: string } = {}) => {
+    const body = JSON.stringify(payload);
+    const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+
+    return request(app)
+      .post('/api/payments/webhooks/mock')
+      .set('Content-Type', 'application/json')
+      .set('X-Webhook-Timestamp', String(timestamp))
+      .set('X-Webhook-Signature', signWebhookPayload(body, options.secret ?? secret, timestamp))
+      .send(body);
+  };
+
+  const capturedEvent = (id: string) => ({
+    id,
+    type: 'payment.captured',
+    intentId: 'mock_pi_webhook',
+    amount: 100
+  });
+
+  beforeAll(async () => {
+    // Connect to test database
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/headless-ecommerce-test';
+    await mongoose.connect(mongoURI);
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.close();
+  });
+
+  beforeEach(async () => {
+    // Clear test data
+    await Order.deleteMany({});
+    await WebhookEvent.deleteMany({});
+
+    order = await Order.create({
+      cartId: new mongoose.Types.ObjectId(),
+      customerInfo: {
+        email: 'customer@example.com',
+        firstName: 'John',
+        lastName: 'Doe'
+      },
+      shippingAddress: {
+        street: '123 Main St',
+        city: 'New York',
+        state: 'NY',
+        zipCode: '10001',
+        country: 'USA'
+      },
+      items: [{
+        productId: new mongoose.Types.ObjectId(),
+        variantId: 'variant-1',
+        quantity: 1,
+        price: 100,
+        productName: 'Test Product',
+        variantName: 'Variant 1',
+        sku: 'WEBHOOK-001'
+      }],
+      subtotal: 100,
+      total: 100,
+      paymentMethod: 'credit_card',
+      paymentProvider: 'mock',
+      paymentIntentId: 'mock_pi_webhook'
+    });
+  });
+
+  it('should mark the order paid and confirm it', async () => {
+    const response = await sendWebhook(capturedEvent('evt_1')).expect(200);
+
+    expect(response.body.data.duplicate).toBe(false);
+    const stored = await Order.findById(order._id);
+    expect(stored?.paymentStatus).toBe('paid');
+    expect(stored?.status).toBe('confirmed');
+  });
+
+  it('should apply a redelivered event only once', async () => {
+    await sendWebhook(capturedEvent('evt_2')).expect(200);
+    const redelivery = await sendWebhook(capturedEvent('evt_2')).expect(200);
+
+    expect(redelivery.body.data.duplicate).toBe(true);
+    const stored = await Order.findById(order._id);
+    expect(stored?.statusHistory.filter(entry => entry.to === 'confirmed')).toHaveLength(1);
+  });
+
+  it('should ask for a retry of a redelivery while the event is still being processed', async () => {
+    await WebhookEvent.record({ provider: 'mock', id: 'evt_5', type: 'payment.captured', intentId: 'mock_pi_webhook' });
+
+    await sendWebhook(capturedEvent('evt_5')).expect(409);
+    expect((await Order.findById(order._id))?.paymentStatus).toBe('pending');
+  });
+
+  it('should reject an invalid signature', async () => {
+    await sendWebhook(capturedEvent('evt_3'), { secret: 'wrong-secret' }).expect(401);
+
+    expect((await Order.findById(order._id))?.paymentStatus).toBe('pending');
+  });
+
+  it('should reject a stale timestamp', async () => {
+    const anHourAgo = Math.floor(Date.now() / 1000) - 3600;
+    await sendWebhook(capturedEvent('evt_4'), { timestamp: anHourAgo }).expect(400);
+
+    expect(await WebhookEvent.countDocuments()).toBe(0);
+  });
+});
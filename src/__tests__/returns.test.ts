@@ -0,0 +1,176 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import app from '../index';
+import { Product, IProduct } from '../models/Product';
+import { Order, IOrder } from '../models/Order';
+import { ReturnRequest } from '../models/ReturnRequest';
+import { StoreCredit } from '../models/StoreCredit';
+
+describe('Returns API', () => {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+  const customerToken = jwt.sign(
+    { sub: new mongoose.Types.ObjectId().toString(), email: 'customer@example.com', role: 'customer' },
+    process.env.JWT_SECRET
+  );
+  const supportToken = jwt.sign(
+    { sub: new mongoose.Types.ObjectId().toString(), email: 'support@example.com', role: 'support' },
+    process.env.JWT_SECRET
+  );
+
+  let product: IProduct;
+  let order: IOrder;
+
+  const createDeliveredOrder = (deliveredAt: Date) => Order.create({
+    cartId: new mongoose.Types.ObjectId(),
+    customerInfo: {
+      email: 'customer@example.com',
+      firstName: 'John',
+      lastName: 'Doe'
+    },
+    shippingAddress: {
+      street: '123 Main St',
+      city: 'New York',
+      state: 'NY',
+      zipCode: '10001',
+      country: 'USA'
+    },
+    items: [{
+      productId: product._id,
+      variantId: (product.variants[0] as any)._id.toString(),
+      quantity: 2,
+      price: 50,
+      productName: product.name,
+      variantName: 'Variant 1',
+      sku: 'RETURN-001'
+    }],
+    subtotal: 100,
+    total: 100,
+    status: 'delivered',
+    paymentStatus: 'paid',
+    paymentMethod: 'credit_card',
+    statusHistory: [{ to: 'delivered', changedAt: deliveredAt }]
+  });
+
+  beforeAll(async () => {
+    // Connect to test database
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/headless-ecommerce-test';
+    await mongoose.connect(mongoURI);
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.close();
+  });
+
+  beforeEach(async () => {
+    // Clear test data
+    await Product.deleteMany({});
+    await Order.deleteMany({});
+    await ReturnRequest.deleteMany({});
+    await StoreCredit.deleteMany({});
+
+    product = await Product.create({
+      name: 'Test Product',
+      description: 'Test Description',
+      category: 'Electronics',
+      brand: 'TestBrand',
+      variants: [{
+        name: 'Variant 1',
+        sku: 'RETURN-001',
+        price: 50,
+        stock: 5
+      }],
+      isActive: true
+    });
+    order = await createDeliveredOrder(new Date());
+  });
+
+  it('should take a return from request to store credit and restock', async () => {
+    const itemId = String(order.items[0]?._id);
+    const base = `/api/orders/${order._id}/returns`;
+
+    const created = await request(app)
+      .post(base)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ items: [{ itemId, quantity: 1, reason: 'damaged' }], resolution: 'store_credit' })
+      .expect(201);
+    const returnId = created.body.data._id;
+
+    // The other unit is still returnable, but not two more
+    await request(app)
+      .post(base)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ items: [{ itemId, quantity: 2, reason: 'other' }] })
+      .expect(400);
+
+    // Customers can't process their own returns
+    await request(app)
+      .post(`${base}/${returnId}/approve`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .expect(403);
+
+    for (const action of ['approve', 'receive']) {
+      await request(app)
+        .post(`${base}/${returnId}/${action}`)
+        .set('Authorization', `Bearer ${supportToken}`)
+        .expect(200);
+    }
+
+    const inspected = await request(app)
+      .post(`${base}/${returnId}/inspect`)
+      .set('Authorization', `Bearer ${supportToken}`)
+      .send({ accepted: true })
+      .expect(200);
+
+    expect(inspected.body.data.status).toBe('accepted');
+    expect(inspected.body.data.refundAmount).toBe(50);
+
+    const credit = await StoreCredit.findOne({ email: 'customer@example.com' });
+    expect(credit?.balance).toBe(50);
+
+    const refundedOrder = await Order.findById(order._id);
+    expect(refundedOrder?.refundedTotal).toBe(50);
+    expect(refundedOrder?.paymentStatus).toBe('partially_refunded');
+    expect((await Product.findById(product._id))?.variants[0]?.stock).toBe(6);
+
+    // A settled return can't be inspected again
+    await request(app)
+      .post(`${base}/${returnId}/inspect`)
+      .set('Authorization', `Bearer ${supportToken}`)
+      .send({ accepted: true })
+      .expect(409);
+  });
+
+  it('should let only one of two concurrent returns claim the same units', async () => {
+    const base = `/api/orders/${order._id}/returns`;
+    const requestReturn = () => request(app)
+      .post(base)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ items: [{ itemId: String(order.items[0]?._id), quantity: 2, reason: 'no_longer_needed' }] });
+
+    const responses = await Promise.all([requestReturn(), requestReturn()]);
+    expect(responses.map(response => response.status).sort()).toEqual([201, 400]);
+    expect(await ReturnRequest.countDocuments()).toBe(1);
+
+    // Rejecting the return frees its units
+    const created = responses.find(response => response.status === 201);
+    await request(app)
+      .post(`${base}/${created?.body.data._id}/reject`)
+      .set('Authorization', `Bearer ${supportToken}`)
+      .expect(200);
+    await requestReturn().expect(201);
+  });
+
+  it('should reject returns after the return window', async () => {
+    const longAgo = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
+    const oldOrder = await createDeliveredOrder(longAgo);
+
+    await request(app)
+      .post(`/api/orders/${oldOrder._id}/returns`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ items: [{ itemId: String(oldOrder.items[0]?._id), quantity: 1, reason: 'no_longer_needed' }] })
+      .expect(400);
+
+    expect(await ReturnRequest.countDocuments()).toBe(0);
+  });
+});
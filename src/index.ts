@@ -10,13 +10,23 @@ import swaggerUi from 'swagger-ui-express';
 import { connectDB } from './config/database';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
+import { StockReservation } from './models/StockReservation';
 
 // Routes
+import authRoutes from './routes/auth';
 import catalogRoutes from './routes/catalog';
 import cartRoutes from './routes/cart';
 import promoRoutes from './routes/promo';
+import promotionRoutes from './routes/promotions';
+import campaignRoutes from './routes/campaigns';
+import giftCardRoutes from './routes/giftCards';
 import checkoutRoutes from './routes/checkout';
 import orderRoutes from './routes/order';
+import returnRoutes from './routes/returns';
+import paymentRoutes from './routes/payment';
+import taxRoutes from './routes/tax';
+import shippingRoutes from './routes/shipping';
+import currencyRoutes from './routes/currency';
 
 // Load environment variables
 dotenv.config();
@@ -54,7 +64,10 @@ const limiter = rateLimit({
 
 // Middleware
 app.use(helmet());
-app.use(cors());
+// Browsers only let storefronts read the cart's ETag when it is exposed
+app.use(cors({ exposedHeaders: ['ETag'] }));
+// Webhook signatures are computed over the exact bytes sent, so keep those bodies raw
+app.use('/api/payments/webhooks', express.raw({ type: '*/*', limit: '1mb' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 app.use(morgan('combined'));
@@ -75,11 +88,20 @@ app.get('/health', (req, res) => {
 });
 
 // API Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/catalog', catalogRoutes);
 app.use('/api/cart', cartRoutes);
 app.use('/api/promos', promoRoutes);
+app.use('/api/promotions', promotionRoutes);
+app.use('/api/campaigns', campaignRoutes);
+app.use('/api/gift-cards', giftCardRoutes);
 app.use('/api/checkout', checkoutRoutes);
+app.use('/api/orders/:id/returns', returnRoutes);
 app.use('/api/orders', orderRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/tax', taxRoutes);
+app.use('/api/shipping', shippingRoutes);
+app.use('/api/currencies', currencyRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -96,6 +118,14 @@ app.use(errorHandler);
 const startServer = async () => {
   try {
     await connectDB();
+    
+    // Periodically give back stock held by checkouts that were never paid
+    setInterval(() => {
+      StockReservation.releaseExpired().catch(error => {
+        console.error('Failed to release expired stock reservations:', error);
+      });
+    }, parseInt(process.env.RESERVATION_SWEEP_INTERVAL_MS || '60000')).unref();
+    
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📚 API Documentation available at http://localhost:${PORT}/api-docs`);
@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+
+export type UserRole = 'admin' | 'support' | 'customer';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface AuthRequest extends Request {
+  user?: AuthUser;
+}
+
+interface AccessTokenPayload extends jwt.JwtPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+  type?: 'access' | 'refresh';
+}
+
+export const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+};
+
+// Middleware to verify the bearer token and attach the user to the request
+export const authenticate = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  const header = req.get('Authorization');
+
+  if (!header?.startsWith('Bearer ')) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  try {
+    const payload = jwt.verify(header.slice(7), getJwtSecret()) as AccessTokenPayload;
+
+    // Refresh tokens can only be exchanged at /api/auth/refresh
+    if (payload.type === 'refresh') {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid token'
+      });
+      return;
+    }
+
+    req.user = {
+      id: payload.sub,
+      email: payload.email,
+      role: payload.role,
+    };
+    next();
+  } catch (error) {
+    // JsonWebTokenError / TokenExpiredError are mapped to 401 by errorHandler
+    next(error);
+  }
+};
+
+// Middleware to restrict a route to the given roles (must run after authenticate)
+export const authorize = (...roles: UserRole[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions'
+      });
+      return;
+    }
+
+    next();
+  };
+};
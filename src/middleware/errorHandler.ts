@@ -3,8 +3,24 @@ import { Request, Response, NextFunction } from 'express';
 export interface AppError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  // Sent along with the message, e.g. what made the request fail item by item
+  details?: unknown;
 }
 
+// Creates an operational error carrying the HTTP status it should be reported with
+export const createAppError = (message: string, statusCode: number, details?: unknown): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  error.isOperational = true;
+  if (details !== undefined) {
+    error.details = details;
+  }
+  return error;
+};
+
+export const isAppError = (error: unknown): error is AppError =>
+  error instanceof Error && typeof (error as AppError).statusCode === 'number';
+
 export const errorHandler = (
   err: AppError,
   req: Request,
@@ -31,9 +47,9 @@ export const errorHandler = (
   }
 
   // Mongoose duplicate key
-  if (err.name === 'MongoError' && (err as any).code === 11000) {
+  if ((err.name === 'MongoError' || err.name === 'MongoServerError') && (err as any).code === 11000) {
     const message = 'Duplicate field value entered';
-    error = { message, statusCode: 400 } as AppError;
+    error = { message, statusCode: 409 } as AppError;
   }
 
   // Mongoose validation error
@@ -62,6 +78,7 @@ export const errorHandler = (
   res.status(error.statusCode || 500).json({
     success: false,
     error: error.message || 'Server Error',
+    ...(error.details !== undefined && { details: error.details }),
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
   });
 };
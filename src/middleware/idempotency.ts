@@ -0,0 +1,95 @@
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { IdempotencyKey } from '../models/IdempotencyKey';
+import { AuthRequest } from './auth';
+
+const MAX_KEY_LENGTH = 255;
+
+// JSON with object keys sorted, so the same payload always hashes the same
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const fingerprintRequest = (req: AuthRequest): string =>
+  crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${canonicalize(req.body ?? {})}`)
+    .digest('hex');
+
+// Middleware making a route safe to retry: requests sent with the same Idempotency-Key
+// get the stored response of the first one instead of being executed again.
+// Requests without the header are handled normally.
+export const idempotency = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.get('Idempotency-Key');
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`
+    });
+    return;
+  }
+
+  try {
+    // Keys are per route and per user, so one client can never replay another client's response
+    const scope = `${req.method} ${req.baseUrl}${req.path}${req.user ? ` user:${req.user.id}` : ''}`;
+    const fingerprint = fingerprintRequest(req);
+    const { record, created } = await IdempotencyKey.begin(key, scope, fingerprint);
+
+    if (!created) {
+      if (record.fingerprint !== fingerprint) {
+        res.status(422).json({
+          success: false,
+          error: 'Idempotency-Key was already used with a different request payload'
+        });
+        return;
+      }
+
+      if (record.status === 'processing') {
+        res.status(409).json({
+          success: false,
+          error: 'A request with this Idempotency-Key is still being processed'
+        });
+        return;
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      res.status(record.responseStatus || 200).json(record.responseBody);
+      return;
+    }
+
+    // Store the response before sending it, so a retry arriving right after sees it.
+    // Server errors are not stored: the key is released and the request can be retried.
+    // The body is stored as the JSON the client received, so documents are serialized
+    // with their getters (money as numbers) rather than saved as raw BSON values.
+    const originalJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      const persisted = res.statusCode >= 500
+        ? IdempotencyKey.deleteOne({ _id: record._id })
+        : record.complete(res.statusCode, body === undefined ? body : JSON.parse(JSON.stringify(body)));
+
+      persisted
+        .catch(error => console.error('Failed to store idempotent response:', error))
+        .finally(() => originalJson(body));
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,14 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
 
+// Body fields never written to the logs: credentials, tokens and gift card codes
+const REDACTED_FIELDS = new Set(['password', 'currentPassword', 'newPassword', 'refreshToken', 'code']);
+
+const redactSensitiveFields = (key: string, value: unknown): unknown =>
+  REDACTED_FIELDS.has(key) ? '[REDACTED]' : value;
+
 export const requestLogger = (req: Request, res: Response, next: NextFunction): void => {
   const start = Date.now();
   
   // Log request
   console.log(`📥 ${req.method} ${req.originalUrl} - ${new Date().toISOString()}`);
   
-  // Log request body for non-GET requests
-  if (req.method !== 'GET' && req.body && Object.keys(req.body).length > 0) {
-    console.log('📦 Request Body:', JSON.stringify(req.body, null, 2));
+  // Log request body for non-GET requests (raw webhook bodies are skipped)
+  if (req.method !== 'GET' && req.body && !Buffer.isBuffer(req.body) && Object.keys(req.body).length > 0) {
+    console.log('📦 Request Body:', JSON.stringify(req.body, redactSensitiveFields, 2));
   }
   
   // Override res.end to log response
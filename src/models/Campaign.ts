@@ -0,0 +1,113 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { PromoCode } from './PromoCode';
+import { decimalsToNumbers } from '../utils/money';
+
+// A batch of promo codes generated from one template, e.g. for an influencer or email campaign.
+// The rules (discount, validity, limits) are copied onto every code.
+export interface ICampaign extends Document {
+  name: string;
+  description?: string;
+  prefix: string;
+  codeLength: number;
+  alphabet: string;
+  codeCount: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CampaignStats {
+  totalCodes: number;
+  activeCodes: number;
+  // Codes used at least once
+  usedCodes: number;
+  totalUsage: number;
+  uniqueRedeemers: number;
+  // Discount given and revenue of the orders that used the codes, per currency
+  byCurrency: { currency: string; redemptions: number; discount: number; revenue: number }[];
+}
+
+// Static methods interface
+export interface ICampaignModel extends mongoose.Model<ICampaign> {
+  getStats(campaignId: mongoose.Types.ObjectId | string): Promise<CampaignStats>;
+}
+
+const campaignSchema = new Schema<ICampaign>({
+  name: { type: String, required: true, trim: true },
+  description: { type: String },
+  prefix: { type: String, uppercase: true, default: '' },
+  codeLength: { type: Number, required: true, min: 1 },
+  alphabet: { type: String, required: true, uppercase: true },
+  codeCount: { type: Number, required: true, min: 0 },
+  isActive: { type: Boolean, default: true },
+}, {
+  timestamps: true,
+});
+
+// Indexes for better query performance
+campaignSchema.index({ createdAt: -1 });
+
+// Static method to get the usage of a campaign's codes. Redemptions of cancelled orders are left out.
+(campaignSchema.statics as any).getStats = async function(campaignId: mongoose.Types.ObjectId | string) {
+  const id = new mongoose.Types.ObjectId(String(campaignId));
+
+  const [[codes], redemptions] = await Promise.all([
+    PromoCode.aggregate([
+      { $match: { campaignId: id } },
+      {
+        $group: {
+          _id: null,
+          totalCodes: { $sum: 1 },
+          activeCodes: { $sum: { $cond: ['$isActive', 1, 0] } },
+          usedCodes: { $sum: { $cond: [{ $gt: ['$usedCount', 0] }, 1, 0] } },
+          totalUsage: { $sum: '$usedCount' },
+        }
+      },
+    ]),
+    PromoCode.aggregate([
+      { $match: { campaignId: id } },
+      {
+        $lookup: {
+          from: 'promoredemptions',
+          localField: 'code',
+          foreignField: 'promoCode',
+          as: 'redemptions'
+        }
+      },
+      { $unwind: '$redemptions' },
+      { $replaceRoot: { newRoot: '$redemptions' } },
+      { $match: { releasedAt: { $exists: false } } },
+      {
+        $facet: {
+          byCurrency: [
+            {
+              $group: {
+                _id: '$currency',
+                redemptions: { $sum: 1 },
+                discount: { $sum: '$discount' },
+                revenue: { $sum: '$orderTotal' },
+              }
+            },
+            { $project: { _id: 0, currency: '$_id', redemptions: 1, discount: 1, revenue: 1 } },
+            { $sort: { currency: 1 } },
+          ],
+          redeemers: [
+            { $group: { _id: { $ifNull: [{ $toString: '$userId' }, '$email'] } } },
+            { $count: 'count' },
+          ],
+        }
+      },
+    ]),
+  ]);
+
+  return {
+    totalCodes: codes?.totalCodes || 0,
+    activeCodes: codes?.activeCodes || 0,
+    usedCodes: codes?.usedCodes || 0,
+    totalUsage: codes?.totalUsage || 0,
+    uniqueRedeemers: redemptions[0]?.redeemers[0]?.count || 0,
+    byCurrency: decimalsToNumbers(redemptions[0]?.byCurrency || []),
+  };
+};
+
+export const Campaign = mongoose.model<ICampaign, ICampaignModel>('Campaign', campaignSchema);
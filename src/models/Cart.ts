@@ -1,31 +1,105 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+import { GiftCard } from './GiftCard';
+import { CustomizationInput, ILineCustomization, IProduct, Product } from './Product';
+import { PromoCode } from './PromoCode';
+import { Promotion, PromotionResult } from './Promotion';
+import { IAppliedPromotion, ILineDiscount } from './Order';
+import { createAppError, isAppError } from '../middleware/errorHandler';
+import { getBaseCurrency } from '../utils/currency';
+import { decimalsToNumbers, moneyField, moneySchemaOptions, multiplyMoney, sumMoney, toMinorUnits } from '../utils/money';
+
+// Why a line can't be bought right now
+export type CartItemUnavailableReason = 'product_inactive' | 'variant_deleted' | 'out_of_stock';
 
 export interface ICartItem {
+  _id?: mongoose.Types.ObjectId;
   productId: mongoose.Types.ObjectId;
   variantId: string;
+  // Options set on the line, ordered by key; lines of the same variant with different values are kept apart
+  customizations: ILineCustomization[];
   quantity: number;
+  // Unit price, including the surcharges of the customizations
   price: number;
   productName: string;
   variantName: string;
   sku: string;
+  // Discount of the line from promotions and the promo code, and what it is made of
+  discount: number;
+  discounts: ILineDiscount[];
+  // Set when the line can't be bought; such lines don't count towards the totals and promotions
+  unavailable?: CartItemUnavailableReason | undefined;
+}
+
+// A difference between a cart and the current products, found when the cart is revalidated
+export interface ICartChange {
+  type: 'price_changed' | 'quantity_reduced' | 'unavailable' | 'available_again';
+  lineId: string;
+  productId: string;
+  variantId: string;
+  productName: string;
+  variantName: string;
+  // price_changed
+  previousPrice?: number;
+  price?: number;
+  // quantity_reduced
+  previousQuantity?: number;
+  quantity?: number;
+  // unavailable
+  reason?: CartItemUnavailableReason;
+}
+
+export interface ICartRevalidateOptions {
+  // Clamp quantities to the stock and flag lines out of stock; on by default
+  stock?: boolean;
+}
+
+// An operation of a batch update; set and remove target a line by lineId, or the variant's lines
+// like updateItemQuantity and removeItem
+export type CartOperation =
+  | { op: 'add'; productId: string; variantId: string; quantity: number; customizations?: CustomizationInput | undefined }
+  | { op: 'set'; lineId?: string | undefined; productId?: string | undefined; variantId?: string | undefined; quantity: number }
+  | { op: 'remove'; lineId?: string | undefined; productId?: string | undefined; variantId?: string | undefined };
+
+export interface ICartOperationResult {
+  index: number;
+  op: CartOperation['op'];
+  success: boolean;
+  // The line added to or updated; missing for removals
+  lineId?: string;
+  quantity?: number;
+  error?: string;
 }
 
 export interface ICart extends Document {
   token: string;
+  userId?: mongoose.Types.ObjectId;
   items: ICartItem[];
+  // Currency of the item prices and totals
+  currency: string;
   promoCode?: string;
+  // Promotions and promo code discounting the cart; discount is their sum
+  promotions: IAppliedPromotion[];
+  // Codes of the gift cards paying for the cart at checkout, in the order they are used
+  giftCards: string[];
   subtotal: number;
   discount: number;
   total: number;
   expiresAt: Date;
+  // Version, incremented by every change; the cart's ETag
+  __v: number;
   createdAt: Date;
   updatedAt: Date;
   
   // Instance methods
+  getETag(): string;
+  matchVersion(ifMatch?: string): void;
   calculateTotals(): ICart;
+  applyPromotions(): Promise<PromotionResult>;
+  revalidate(options?: ICartRevalidateOptions): Promise<ICartChange[]>;
   addItem(itemData: {
     productId: string;
     variantId: string;
+    customizations?: ILineCustomization[];
     quantity: number;
     price: number;
     productName: string;
@@ -34,9 +108,15 @@ export interface ICart extends Document {
   }): Promise<ICart>;
   updateItemQuantity(productId: string, variantId: string, quantity: number): Promise<ICart>;
   removeItem(productId: string, variantId: string): Promise<ICart>;
-  clearCart(): Promise<ICart>;
-  applyPromoCode(promoCode: string, discountAmount: number): Promise<ICart>;
+  updateLineQuantity(lineId: string, quantity: number): Promise<ICart>;
+  removeLine(lineId: string): Promise<ICart>;
+  applyOperations(operations: CartOperation[]): Promise<{ applied: boolean; results: ICartOperationResult[] }>;
+  clearCart(session?: ClientSession): Promise<ICart>;
+  applyPromoCode(promoCode: string): Promise<ICart>;
   removePromoCode(): Promise<ICart>;
+  applyGiftCard(code: string): Promise<ICart>;
+  removeGiftCard(code: string): Promise<ICart>;
+  changeCurrency(currency: string): Promise<ICart>;
 }
 
 // Static methods interface
@@ -44,33 +124,165 @@ export interface ICartModel extends mongoose.Model<ICart> {
   getCartWithDetails(token: string): Promise<ICart | null>;
   createOrGetCart(token?: string): Promise<ICart>;
   generateToken(): string;
+  attachToUser(userId: string, guestToken?: string): Promise<ICart | null>;
 }
 
+const lineDiscountSchema = new Schema<ILineDiscount>({
+  promotionId: { type: Schema.Types.ObjectId, ref: 'Promotion' },
+  promoCode: { type: String },
+  name: { type: String, required: true },
+  amount: moneyField({ required: true }),
+}, { _id: false, ...moneySchemaOptions });
+
+const appliedPromotionSchema = new Schema<IAppliedPromotion>({
+  promotionId: { type: Schema.Types.ObjectId, ref: 'Promotion' },
+  promoCode: { type: String },
+  name: { type: String, required: true },
+  amount: moneyField({ required: true }),
+  freeShipping: { type: Boolean, default: false },
+}, { _id: false, ...moneySchemaOptions });
+
+const lineCustomizationSchema = new Schema<ILineCustomization>({
+  key: { type: String, required: true },
+  name: { type: String, required: true },
+  value: { type: String, required: true },
+  surcharge: moneyField({ default: 0 }),
+}, { _id: false, ...moneySchemaOptions });
+
 const cartItemSchema = new Schema<ICartItem>({
   productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
   variantId: { type: String, required: true },
+  customizations: [lineCustomizationSchema],
   quantity: { type: Number, required: true, min: 1 },
-  price: { type: Number, required: true, min: 0 },
+  price: moneyField({ required: true }),
   productName: { type: String, required: true },
   variantName: { type: String, required: true },
   sku: { type: String, required: true },
-});
+  discount: moneyField({ default: 0 }),
+  discounts: [lineDiscountSchema],
+  unavailable: { type: String, enum: ['product_inactive', 'variant_deleted', 'out_of_stock'] },
+}, moneySchemaOptions);
 
 const cartSchema = new Schema<ICart>({
   token: { type: String, required: true, unique: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User' },
   items: [cartItemSchema],
+  currency: { type: String, required: true, uppercase: true, default: getBaseCurrency },
   promoCode: { type: String },
-  subtotal: { type: Number, default: 0, min: 0 },
-  discount: { type: Number, default: 0, min: 0 },
-  total: { type: Number, default: 0, min: 0 },
+  promotions: [appliedPromotionSchema],
+  giftCards: { type: [{ type: String, uppercase: true, trim: true }], default: [] },
+  subtotal: moneyField({ default: 0 }),
+  discount: moneyField({ default: 0 }),
+  total: moneyField({ default: 0 }),
   expiresAt: { type: Date, required: true },
 }, {
   timestamps: true,
+  // Every save checks and increments __v, the version exposed as the cart's ETag
+  optimisticConcurrency: true,
+  ...moneySchemaOptions,
 });
 
+const isVersionError = (error: unknown): boolean => error instanceof mongoose.Error.VersionError;
+
+const conflictError = (cart: ICart) =>
+  createAppError('Cart was changed by another request', cart.$locals.ifMatch ? 412 : 409);
+
+// Saves a cart changed in memory. When another request saved it since it was loaded, fails with 412
+// for a conditional request (If-Match) and 409 otherwise instead of overwriting its changes.
+const saveCart = async (cart: ICart, session?: ClientSession): Promise<ICart> => {
+  try {
+    return await cart.save({ ...(session && { session }) });
+  } catch (error) {
+    if (isVersionError(error)) {
+      throw conflictError(cart);
+    }
+    throw error;
+  }
+};
+
+// The fields applyPromotions derives from the lines, as an update for the version they were derived from
+const derivedFields = (cart: ICart): Record<string, unknown> => ({
+  subtotal: cart.subtotal,
+  discount: cart.discount,
+  total: cart.total,
+  promotions: cart.promotions,
+  ...Object.fromEntries(cart.items.flatMap((item, index) => [
+    [`items.${index}.discount`, item.discount],
+    [`items.${index}.discounts`, item.discounts],
+  ])),
+});
+
+// How often updateLines recalculates the totals when other requests keep changing the lines
+const MAX_TOTALS_ATTEMPTS = 5;
+
+// Applies an atomic update to the lines of a cart, e.g. $inc on a quantity, so changes other requests
+// made meanwhile are kept, then loads the result into the document and stores its totals and discounts
+// again. A conditional request only updates the version it was checked against (412 otherwise).
+// The totals are written for the version they were calculated from, and recalculated from the latest
+// lines when another request changed them meanwhile; after MAX_TOTALS_ATTEMPTS this fails with 409,
+// the lines staying updated and the totals recalculated by the request that changed them last.
+// Returns null when lineFilter matches no line.
+const updateLines = async (
+  cart: ICart,
+  lineFilter: Record<string, unknown>,
+  update: Record<string, any>
+): Promise<ICart | null> => {
+  const model = cart.constructor as ICartModel;
+  const updated = await model.findOneAndUpdate(
+    { _id: cart._id, ...lineFilter, ...(cart.$locals.ifMatch ? { __v: cart.__v } : {}) },
+    { ...update, $inc: { ...update.$inc, __v: 1 } },
+    { new: true, lean: true }
+  );
+  if (!updated) {
+    const current = await model.findById(cart._id, '__v').lean();
+    if (current && cart.$locals.ifMatch && current.__v !== cart.__v) {
+      throw conflictError(cart);
+    }
+    return null;
+  }
+
+  let snapshot: typeof updated | null = updated;
+  for (let attempt = 0; snapshot && attempt < MAX_TOTALS_ATTEMPTS; attempt++) {
+    const latest = model.hydrate(snapshot) as ICart;
+    await latest.applyPromotions();
+    // Derived data only, so the version (the ETag) stays the one of the lines
+    const stored = await model.findOneAndUpdate(
+      { _id: cart._id, __v: latest.__v },
+      { $set: derivedFields(latest) },
+      { new: true, lean: true }
+    );
+    if (stored) {
+      cart.init(stored);
+      return cart;
+    }
+    snapshot = await model.findById(cart._id).lean();
+  }
+  if (!snapshot) {
+    throw createAppError('Cart not found', 404);
+  }
+  throw createAppError('Cart was changed by another request', 409);
+};
+
+// Whether a line is for a variant with the given customization values, i.e. the same line
+const isSameLine = (
+  item: ICartItem,
+  productId: string,
+  variantId: string,
+  customizations: Pick<ILineCustomization, 'key' | 'value'>[] = []
+): boolean => {
+  const itemCustomizations = item.customizations ?? [];
+  return item.productId.toString() === productId &&
+    item.variantId === variantId &&
+    itemCustomizations.length === customizations.length &&
+    itemCustomizations.every((customization, index) =>
+      customization.key === customizations[index]?.key && customization.value === customizations[index]?.value
+    );
+};
+
 // Indexes
 cartSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
 cartSchema.index({ promoCode: 1 });
+cartSchema.index({ userId: 1, expiresAt: -1 });
 
 // Pre-save middleware to calculate totals
 cartSchema.pre('save', function(next) {
@@ -78,13 +290,180 @@ cartSchema.pre('save', function(next) {
   next();
 });
 
-// Instance method to calculate cart totals
+// Instance method to get the cart's ETag, its version in quotes
+cartSchema.methods.getETag = function(): string {
+  return `"${this.__v ?? 0}"`;
+};
+
+// Instance method to check an If-Match header against the cart's version; fails with 412 when none
+// of its ETags match. Once checked, updates of the cart only apply to this version.
+cartSchema.methods.matchVersion = function(ifMatch?: string): void {
+  if (ifMatch === undefined || ifMatch.trim() === '*') {
+    return;
+  }
+
+  const etag = this.getETag();
+  const matches = ifMatch.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag);
+  if (!matches) {
+    throw createAppError('Cart was changed by another request', 412);
+  }
+  this.$locals.ifMatch = true;
+};
+
+// Instance method to calculate cart totals; the discount is the sum of the line discounts.
+// Lines that can't be bought are left out.
 cartSchema.methods.calculateTotals = function() {
-  this.subtotal = this.items.reduce((sum: number, item: ICartItem) => sum + (item.price * item.quantity), 0);
-  this.total = this.subtotal - this.discount;
+  const available = this.items.filter((item: ICartItem) => !item.unavailable);
+  const lineTotals = available.map((item: ICartItem) => multiplyMoney(item.price, item.quantity, this.currency));
+  this.subtotal = sumMoney(lineTotals, this.currency);
+  this.discount = sumMoney(available.map((item: ICartItem) => item.discount ?? 0), this.currency);
+  this.total = sumMoney([this.subtotal, -this.discount], this.currency);
   return this;
 };
 
+// Instance method to work out the discounts of the cart's promotions and promo code and store
+// them on its lines. A promo code that is no longer valid stays on the cart but gives no discount.
+cartSchema.methods.applyPromotions = async function(): Promise<PromotionResult> {
+  this.calculateTotals();
+  const promoCode = this.promoCode
+    ? await PromoCode.findValidPromoCode(this.promoCode, this.subtotal, this.currency, {
+      ...(this.userId && { userId: this.userId }),
+    })
+    : null;
+
+  const available = this.items.filter((item: ICartItem) => !item.unavailable);
+  const result = await Promotion.evaluate(available, {
+    currency: this.currency,
+    ...(this.userId && { userId: this.userId }),
+    promoCode,
+  });
+
+  this.items.forEach((item: ICartItem) => {
+    const index = available.indexOf(item);
+    item.discount = result.lines[index]?.discount ?? 0;
+    item.discounts = result.lines[index]?.discounts ?? [];
+  });
+  this.promotions = result.promotions;
+  this.calculateTotals();
+  return result;
+};
+
+// Reconciles the lines of a cart with the current products in memory, returning what changed
+const reconcileLines = async (cart: ICart, options: ICartRevalidateOptions): Promise<ICartChange[]> => {
+  const checkStock = options.stock !== false;
+  const products = await Product.find({ _id: { $in: cart.items.map((item: ICartItem) => item.productId) } });
+  const changes: ICartChange[] = [];
+  // Stock not yet taken by earlier lines, by variant
+  const stockLeft = new Map<string, number>();
+
+  for (const item of cart.items) {
+    const line = {
+      lineId: String(item._id),
+      productId: item.productId.toString(),
+      variantId: item.variantId,
+      productName: item.productName,
+      variantName: item.variantName,
+    };
+    const product = products.find(candidate => String(candidate._id) === line.productId);
+    const variant = product ? (product.variants as any).id(item.variantId) : null;
+
+    let reason: CartItemUnavailableReason | undefined;
+    if (!product || !product.isActive) {
+      reason = 'product_inactive';
+    } else if (!variant) {
+      reason = 'variant_deleted';
+    } else if (checkStock ? (stockLeft.get(item.variantId) ?? variant.stock) <= 0 : item.unavailable === 'out_of_stock') {
+      reason = 'out_of_stock';
+    }
+
+    if (reason) {
+      if (item.unavailable !== reason) {
+        item.unavailable = reason;
+        changes.push({ ...line, type: 'unavailable', reason });
+      }
+      continue;
+    }
+
+    if (item.unavailable) {
+      item.unavailable = undefined;
+      changes.push({ ...line, type: 'available_again' });
+    }
+
+    if (checkStock) {
+      const stock = stockLeft.get(item.variantId) ?? variant.stock;
+      if (item.quantity > stock) {
+        changes.push({ ...line, type: 'quantity_reduced', previousQuantity: item.quantity, quantity: stock });
+        item.quantity = stock;
+      }
+      stockLeft.set(item.variantId, stock - item.quantity);
+    }
+
+    // Without an exchange rate for the cart's currency the price can't be worked out; it is kept until there is one
+    const priced = await (product as NonNullable<typeof product>)
+      .priceLine(item.variantId, cart.currency, item.customizations)
+      .catch(() => null);
+    if (priced && toMinorUnits(priced.price, cart.currency) !== toMinorUnits(item.price, cart.currency)) {
+      changes.push({ ...line, type: 'price_changed', previousPrice: item.price, price: priced.price });
+      item.price = priced.price;
+      item.customizations = priced.customizations;
+    }
+  }
+
+  return changes;
+};
+
+// The fields reconcileLines updates, as an update for the version they were reconciled from
+const reconciledFields = (cart: ICart): { $set: Record<string, unknown>; $unset: Record<string, ''> } => {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+  cart.items.forEach((item, index) => {
+    $set[`items.${index}.quantity`] = item.quantity;
+    $set[`items.${index}.price`] = item.price;
+    $set[`items.${index}.customizations`] = item.customizations;
+    if (item.unavailable) {
+      $set[`items.${index}.unavailable`] = item.unavailable;
+    } else {
+      $unset[`items.${index}.unavailable`] = '';
+    }
+  });
+  return { $set, $unset };
+};
+
+// Instance method to reconcile the cart with the current products: prices (and customization
+// surcharges) are updated, quantities clamped to the stock shared by the lines of a variant, and lines of deactivated products, deleted variants or sold out variants
+// flagged as unavailable (and unflagged once they can be bought again). Returns what changed;
+// the cart is only stored when something did. Like the totals, this follows the catalog rather than
+// a change of the customer, so it keeps the version (the ETag): it is written for the version it was
+// worked out from, and worked out again from the latest cart when another request changed it meanwhile.
+cartSchema.methods.revalidate = async function(options: ICartRevalidateOptions = {}): Promise<ICartChange[]> {
+  const model = this.constructor as ICartModel;
+  for (let attempt = 0; attempt < MAX_TOTALS_ATTEMPTS; attempt++) {
+    const changes = await reconcileLines(this as ICart, options);
+    if (changes.length === 0) {
+      return changes;
+    }
+
+    await this.applyPromotions();
+    const { $set, $unset } = reconciledFields(this as ICart);
+    const stored = await model.findOneAndUpdate(
+      { _id: this._id, __v: this.__v },
+      { $set: { ...$set, ...derivedFields(this as ICart) }, ...(Object.keys($unset).length > 0 && { $unset }) },
+      { new: true, lean: true }
+    );
+    if (stored) {
+      this.init(stored);
+      return changes;
+    }
+
+    const latest = await model.findById(this._id).lean();
+    if (!latest) {
+      throw createAppError('Cart not found', 404);
+    }
+    this.init(latest);
+  }
+  throw createAppError('Cart was changed by another request', 409);
+};
+
 // Static method to get cart with aggregation pipeline
 (cartSchema.statics as any).getCartWithDetails = async function(token: string) {
   const pipeline = [
@@ -134,7 +513,7 @@ cartSchema.methods.calculateTotals = function() {
   ];
 
   const result = await this.aggregate(pipeline);
-  return result[0] || null;
+  return result[0] ? decimalsToNumbers(result[0]) : null;
 };
 
 // Static method to create or get cart
@@ -162,86 +541,351 @@ cartSchema.methods.calculateTotals = function() {
   return 'cart_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
 };
 
-// Instance method to add item to cart
+// Static method to attach a guest cart to a user on sign-in, merging any cart saved for that user.
+// Quantities of matching lines (same variant and customizations) are summed and capped by current stock.
+(cartSchema.statics as any).attachToUser = async function(userId: string, guestToken?: string) {
+  const now = new Date();
+  const savedCart = await this.findOne({ userId, expiresAt: { $gt: now } }).sort({ updatedAt: -1 });
+  const guestCart = guestToken ? await this.findOne({ token: guestToken, expiresAt: { $gt: now } }) : null;
+
+  // Never take over a cart that already belongs to someone else
+  if (!guestCart || (guestCart.userId && guestCart.userId.toString() !== userId)) {
+    return savedCart;
+  }
+
+  guestCart.userId = new mongoose.Types.ObjectId(userId);
+
+  if (savedCart && savedCart._id.toString() !== guestCart._id.toString()) {
+    const sameCurrency = savedCart.currency === guestCart.currency;
+
+    for (const savedItem of savedCart.items as ICartItem[]) {
+      const existingItem = guestCart.items.find((item: ICartItem) =>
+        isSameLine(item, savedItem.productId.toString(), savedItem.variantId, savedItem.customizations)
+      );
+
+      if (existingItem) {
+        existingItem.quantity += savedItem.quantity;
+      } else if (sameCurrency) {
+        guestCart.items.push((savedItem as any).toObject());
+      } else {
+        // Saved in another currency: price the line in the guest cart's currency
+        const product = await Product.findById(savedItem.productId);
+        const priced = await product?.priceLine(savedItem.variantId, guestCart.currency, savedItem.customizations)
+          .catch(() => null);
+        if (priced) {
+          guestCart.items.push({ ...(savedItem as any).toObject(), ...priced });
+        }
+      }
+    }
+
+    // The discount is worked out again below, in the guest cart's currency
+    if (!guestCart.promoCode && savedCart.promoCode) {
+      guestCart.promoCode = savedCart.promoCode;
+    }
+
+    // Cap merged quantities by available stock, shared by the lines of a variant, dropping lines
+    // that are no longer available
+    const products = await Product.find({ _id: { $in: guestCart.items.map((item: ICartItem) => item.productId) } });
+    const stockLeft = new Map<string, number>();
+    guestCart.items = guestCart.items.filter((item: ICartItem) => {
+      const product = products.find(p => String(p._id) === item.productId.toString());
+      const variant = product?.isActive ? (product.variants as any).id(item.variantId) : null;
+      const stock = variant ? stockLeft.get(item.variantId) ?? variant.stock : 0;
+      if (stock <= 0) {
+        return false;
+      }
+      item.quantity = Math.min(item.quantity, stock);
+      stockLeft.set(item.variantId, stock - item.quantity);
+      return true;
+    });
+
+  }
+
+  // Signing in can change which promotions apply, e.g. ones for registered customers
+  await guestCart.applyPromotions();
+  const attached = await saveCart(guestCart);
+
+  // Only once its lines are merged into the guest cart, which fails if the guest cart changed meanwhile
+  if (savedCart && savedCart._id.toString() !== guestCart._id.toString()) {
+    await savedCart.deleteOne();
+  }
+  return attached;
+};
+
+// Instance method to add item to cart. Adding a variant with the same customizations as an
+// existing line adds to that line; other customizations make a new line.
 cartSchema.methods.addItem = async function(itemData: {
   productId: string;
   variantId: string;
+  customizations?: ILineCustomization[];
   quantity: number;
   price: number;
   productName: string;
   variantName: string;
   sku: string;
 }) {
-  const existingItemIndex = this.items.findIndex(
-    (item: ICartItem) => item.productId.toString() === itemData.productId && item.variantId === itemData.variantId
+  const existingItem = this.items.find((item: ICartItem) =>
+    isSameLine(item, itemData.productId, itemData.variantId, itemData.customizations)
   );
 
-  if (existingItemIndex > -1) {
-    this.items[existingItemIndex].quantity += itemData.quantity;
-  } else {
-    this.items.push({
-      ...itemData,
-      productId: new mongoose.Types.ObjectId(itemData.productId),
-    });
-  }
-
-  this.calculateTotals();
-  return this.save();
+  // Only called once the product and stock were checked, so the line can be bought again
+  const added = existingItem && await updateLines(this as ICart, { 'items._id': existingItem._id }, {
+    $inc: { 'items.$.quantity': itemData.quantity },
+    $unset: { 'items.$.unavailable': 1 },
+  });
+  // A new line, or the line was removed meanwhile
+  return added ?? updateLines(this as ICart, {}, {
+    $push: {
+      items: {
+        ...itemData,
+        _id: new mongoose.Types.ObjectId(),
+        productId: new mongoose.Types.ObjectId(itemData.productId),
+        customizations: itemData.customizations ?? [],
+        discount: 0,
+        discounts: [],
+      },
+    },
+  });
 };
 
-// Instance method to update item quantity
+// Instance method to update item quantity; with several lines of the variant, the first one
 cartSchema.methods.updateItemQuantity = async function(productId: string, variantId: string, quantity: number) {
-  const itemIndex = this.items.findIndex(
+  const item = this.items.find(
     (item: ICartItem) => item.productId.toString() === productId && item.variantId === variantId
   );
 
-  if (itemIndex === -1) {
-    throw new Error('Item not found in cart');
+  if (!item) {
+    throw createAppError('Item not found in cart', 404);
+  }
+
+  const updated = await this.updateLineQuantity(String(item._id), quantity);
+  return updated;
+};
+
+// Instance method to remove item, all lines of the variant
+cartSchema.methods.removeItem = async function(productId: string, variantId: string) {
+  if (!mongoose.Types.ObjectId.isValid(productId)) {
+    return this;
   }
 
+  const updated = await updateLines(this as ICart, {}, { $pull: { items: { productId, variantId } } });
+  return updated ?? this;
+};
+
+// Instance method to update the quantity of a line by its ID; 0 or less removes it
+cartSchema.methods.updateLineQuantity = async function(lineId: string, quantity: number) {
   if (quantity <= 0) {
-    this.items.splice(itemIndex, 1);
-  } else {
-    this.items[itemIndex].quantity = quantity;
+    return this.removeLine(lineId);
   }
 
-  this.calculateTotals();
-  return this.save();
+  const updated = mongoose.Types.ObjectId.isValid(lineId)
+    ? await updateLines(this as ICart, { 'items._id': lineId }, { $set: { 'items.$.quantity': quantity } })
+    : null;
+  if (!updated) {
+    throw createAppError('Item not found in cart', 404);
+  }
+  return updated;
 };
 
-// Instance method to remove item
-cartSchema.methods.removeItem = async function(productId: string, variantId: string) {
-  this.items = this.items.filter(
-    (item: ICartItem) => !(item.productId.toString() === productId && item.variantId === variantId)
-  );
-  
-  this.calculateTotals();
-  return this.save();
+// Instance method to remove a line by its ID
+cartSchema.methods.removeLine = async function(lineId: string) {
+  const updated = mongoose.Types.ObjectId.isValid(lineId)
+    ? await updateLines(this as ICart, { 'items._id': lineId }, { $pull: { items: { _id: lineId } } })
+    : null;
+  if (!updated) {
+    throw createAppError('Item not found in cart', 404);
+  }
+  return updated;
+};
+
+// Instance method to apply a batch of operations all-or-nothing. The operations run in order on a
+// copy of the lines, stock is checked once on the resulting quantities, and the cart is only changed
+// and saved, once, when every operation succeeded. Returns the outcome of each operation either way.
+cartSchema.methods.applyOperations = async function(operations: CartOperation[]) {
+  const productIds = new Set<string>(this.items.map((item: ICartItem) => item.productId.toString()));
+  operations.forEach(operation => operation.productId && productIds.add(operation.productId));
+  const products: IProduct[] = await Product.find({
+    _id: { $in: [...productIds].filter(id => mongoose.Types.ObjectId.isValid(id)) }
+  });
+  const findProduct = (productId: string) => products.find(product => String(product._id) === productId);
+
+  const items: ICartItem[] = this.items.map((item: any) => item.toObject());
+  const results: ICartOperationResult[] = [];
+
+  for (const [index, operation] of operations.entries()) {
+    const result: ICartOperationResult = { index, op: operation.op, success: true };
+    results.push(result);
+    try {
+      if (operation.op === 'add') {
+        const product = findProduct(operation.productId);
+        if (!product || !product.isActive) {
+          throw createAppError('Product not found', 404);
+        }
+        const variant = (product.variants as any).id(operation.variantId);
+        if (!variant) {
+          throw createAppError('Product variant not found', 404);
+        }
+
+        const customizations = await product.resolveCustomizations(operation.customizations ?? {}, this.currency);
+        const existing = items.find(item => isSameLine(item, operation.productId, operation.variantId, customizations));
+        if (existing) {
+          existing.quantity += operation.quantity;
+          existing.unavailable = undefined;
+          result.lineId = String(existing._id);
+          result.quantity = existing.quantity;
+        } else {
+          const { price } = await product.priceLine(operation.variantId, this.currency, customizations);
+          const line: ICartItem = {
+            _id: new mongoose.Types.ObjectId(),
+            productId: new mongoose.Types.ObjectId(operation.productId),
+            variantId: operation.variantId,
+            customizations,
+            quantity: operation.quantity,
+            price,
+            productName: product.name,
+            variantName: variant.name,
+            sku: variant.sku,
+            discount: 0,
+            discounts: [],
+          };
+          items.push(line);
+          result.lineId = String(line._id);
+          result.quantity = line.quantity;
+        }
+        continue;
+      }
+
+      const targets = operation.lineId
+        ? items.filter(item => String(item._id) === operation.lineId)
+        : items.filter(item => item.productId.toString() === operation.productId && item.variantId === operation.variantId);
+      const target = targets[0];
+      if (!target) {
+        throw createAppError('Item not found in cart', 404);
+      }
+
+      if (operation.op === 'set' && operation.quantity > 0) {
+        target.quantity = operation.quantity;
+        // Checked below like an added line: set again, an unavailable line counts if it can be bought
+        target.unavailable = undefined;
+        result.lineId = String(target._id);
+        result.quantity = target.quantity;
+      } else {
+        // remove, or set to 0: the line, or every line of the variant for remove
+        const removed = operation.op === 'set' ? [target] : targets;
+        removed.forEach(line => items.splice(items.indexOf(line), 1));
+      }
+    } catch (error) {
+      if (!isAppError(error)) {
+        throw error;
+      }
+      result.success = false;
+      result.error = error.message;
+    }
+  }
+
+  // One stock check on the final quantities of the variants added or set, shared by their lines
+  for (const result of results) {
+    if (!result.success || !result.lineId) {
+      continue;
+    }
+    const line = items.find(item => String(item._id) === result.lineId);
+    if (!line) {
+      // Removed again by a later operation
+      continue;
+    }
+    const product = findProduct(line.productId.toString());
+    const variant = product?.isActive ? (product.variants as any).id(line.variantId) : null;
+    const quantity = items
+      .filter(item => item.productId.toString() === line.productId.toString() && item.variantId === line.variantId)
+      .reduce((total, item) => total + item.quantity, 0);
+    if (!variant) {
+      result.success = false;
+      result.error = 'Product variant not available';
+    } else if (quantity > variant.stock) {
+      result.success = false;
+      result.error = 'Insufficient stock';
+    }
+  }
+
+  const applied = results.every(result => result.success);
+  if (applied) {
+    this.items = items;
+    await this.applyPromotions();
+    await saveCart(this as ICart);
+  }
+  return { applied, results };
 };
 
 // Instance method to clear cart
-cartSchema.methods.clearCart = async function() {
+cartSchema.methods.clearCart = async function(session?: ClientSession) {
   this.items = [];
   this.promoCode = undefined;
-  this.discount = 0;
+  this.promotions = [];
+  this.giftCards = [];
   this.calculateTotals();
-  return this.save();
+  return saveCart(this as ICart, session);
 };
 
-// Instance method to apply promo code
-cartSchema.methods.applyPromoCode = async function(promoCode: string, discountAmount: number) {
+// Instance method to apply promo code. Fails with 400 when an exclusive promotion applies to the cart.
+cartSchema.methods.applyPromoCode = async function(promoCode: string) {
   this.promoCode = promoCode;
-  this.discount = Math.min(discountAmount, this.subtotal);
-  this.calculateTotals();
-  return this.save();
+  const result = await this.applyPromotions();
+  if (result.promoCodeBlockedBy) {
+    throw createAppError(`Promo code ${promoCode} cannot be combined with the ${result.promoCodeBlockedBy} promotion`, 400);
+  }
+  return saveCart(this as ICart);
 };
 
 // Instance method to remove promo code
 cartSchema.methods.removePromoCode = async function() {
   this.promoCode = undefined;
-  this.discount = 0;
-  this.calculateTotals();
-  return this.save();
+  await this.applyPromotions();
+  return saveCart(this as ICart);
+};
+
+// Instance method to add a gift card to pay with. Fails with 400 when the card can't pay in the cart's currency.
+cartSchema.methods.applyGiftCard = async function(code: string) {
+  const giftCard = await GiftCard.findUsable(code, this.currency);
+  if (!giftCard) {
+    throw createAppError('Invalid, expired or empty gift card', 400);
+  }
+
+  if (!this.giftCards.includes(giftCard.code)) {
+    this.giftCards.push(giftCard.code);
+  }
+  return saveCart(this as ICart);
+};
+
+// Instance method to remove a gift card
+cartSchema.methods.removeGiftCard = async function(code: string) {
+  const normalizedCode = code.toUpperCase().trim();
+  this.giftCards = this.giftCards.filter((giftCard: string) => giftCard !== normalizedCode);
+  return saveCart(this as ICart);
+};
+
+// Instance method to switch the cart to another currency. Every line is repriced in the new
+// currency, customization surcharges included, and the promo code and gift cards are removed:
+// codes with amounts and gift cards only apply in their own currency.
+cartSchema.methods.changeCurrency = async function(currency: string) {
+  const code = currency.toUpperCase();
+  if (code === this.currency) {
+    return this;
+  }
+
+  const products = await Product.find({ _id: { $in: this.items.map((item: ICartItem) => item.productId) } });
+  for (const item of this.items as ICartItem[]) {
+    const product = products.find(candidate => String(candidate._id) === item.productId.toString());
+    if (!product) {
+      throw createAppError(`Product ${item.productName} is no longer available`, 400);
+    }
+    Object.assign(item, await product.priceLine(item.variantId, code, item.customizations));
+  }
+
+  this.currency = code;
+  this.promoCode = undefined;
+  this.giftCards = [];
+  await this.applyPromotions();
+  return saveCart(this as ICart);
 };
 
 export const Cart = mongoose.model<ICart, ICartModel>('Cart', cartSchema);
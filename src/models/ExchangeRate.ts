@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { createAppError } from '../middleware/errorHandler';
+import { getBaseCurrency } from '../utils/currency';
+import { roundMoney } from '../utils/money';
+
+export interface IExchangeRate extends Document {
+  currency: string;
+  // Units of this currency per one unit of the base currency
+  rate: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface IExchangeRateModel extends mongoose.Model<IExchangeRate> {
+  getRate(currency: string): Promise<number>;
+  convertFromBase(amount: number, currency: string): Promise<number>;
+  replaceRates(rates: Record<string, number>): Promise<IExchangeRate[]>;
+}
+
+const exchangeRateSchema = new Schema<IExchangeRate>({
+  currency: { type: String, required: true, unique: true, uppercase: true, trim: true },
+  rate: { type: Number, required: true, min: 0 },
+}, {
+  timestamps: true,
+});
+
+// Static method to get the rate from the base currency; 1 for the base currency itself.
+// Fails with 400 when no rate was uploaded for the currency.
+(exchangeRateSchema.statics as any).getRate = async function(currency: string) {
+  const code = currency.toUpperCase();
+  if (code === getBaseCurrency()) {
+    return 1;
+  }
+
+  const exchangeRate = await this.findOne({ currency: code });
+  if (!exchangeRate || exchangeRate.rate <= 0) {
+    throw createAppError(`No exchange rate for ${code}`, 400);
+  }
+  return exchangeRate.rate;
+};
+
+// Static method to convert a base currency amount, rounded to the target currency
+(exchangeRateSchema.statics as any).convertFromBase = async function(amount: number, currency: string) {
+  const rate = await (this as IExchangeRateModel).getRate(currency);
+  return roundMoney(amount * rate, currency);
+};
+
+// Static method to replace the rate table with an uploaded one
+(exchangeRateSchema.statics as any).replaceRates = async function(rates: Record<string, number>) {
+  const currencies = Object.keys(rates).map(code => code.toUpperCase());
+
+  await this.bulkWrite([
+    ...Object.entries(rates).map(([currency, rate]) => ({
+      updateOne: {
+        filter: { currency: currency.toUpperCase() },
+        update: { $set: { rate } },
+        upsert: true,
+      },
+    })),
+    { deleteMany: { filter: { currency: { $nin: currencies } } } },
+  ]);
+
+  return this.find().sort({ currency: 1 });
+};
+
+export const ExchangeRate = mongoose.model<IExchangeRate, IExchangeRateModel>('ExchangeRate', exchangeRateSchema);
@@ -0,0 +1,193 @@
+import { randomInt } from 'crypto';
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+import { createAppError } from '../middleware/errorHandler';
+import { getBaseCurrency } from '../utils/currency';
+import { moneyField, moneySchemaOptions } from '../utils/money';
+
+export interface IGiftCardTransaction {
+  type: 'issue' | 'redeem' | 'restore';
+  amount: number;
+  // What the transaction is for, e.g. "order:<id>"; each reference is applied once
+  reference: string;
+  orderId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface IGiftCard extends Document {
+  code: string;
+  initialBalance: number;
+  balance: number;
+  currency: string;
+  recipientEmail?: string;
+  note?: string;
+  expiresAt?: Date;
+  isActive: boolean;
+  transactions: IGiftCardTransaction[];
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  isUsable(currency?: string): boolean;
+}
+
+export interface IGiftCardOperation {
+  reference: string;
+  orderId?: mongoose.Types.ObjectId | string;
+  session?: ClientSession;
+}
+
+export interface IGiftCardIssue {
+  // Generated when omitted
+  code?: string;
+  amount: number;
+  currency?: string;
+  recipientEmail?: string;
+  note?: string;
+  expiresAt?: Date;
+}
+
+// Static methods interface
+export interface IGiftCardModel extends mongoose.Model<IGiftCard> {
+  generateCode(): string;
+  issue(giftCard: IGiftCardIssue): Promise<IGiftCard>;
+  findUsable(code: string, currency: string): Promise<IGiftCard | null>;
+  redeem(code: string, amount: number, operation: IGiftCardOperation): Promise<IGiftCard | null>;
+  restore(code: string, amount: number, operation: IGiftCardOperation): Promise<void>;
+}
+
+// Without look-alike characters, codes are typed in by customers
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+// Generated codes that may collide with existing ones before issuing gives up
+const MAX_CODE_ATTEMPTS = 5;
+
+const giftCardTransactionSchema = new Schema<IGiftCardTransaction>({
+  type: { type: String, required: true, enum: ['issue', 'redeem', 'restore'] },
+  amount: moneyField({ required: true }),
+  reference: { type: String, required: true },
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order' },
+  createdAt: { type: Date, required: true },
+}, { _id: false, ...moneySchemaOptions });
+
+const giftCardSchema = new Schema<IGiftCard>({
+  code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+  initialBalance: moneyField({ required: true }),
+  balance: moneyField({ required: true }),
+  currency: { type: String, required: true, uppercase: true, default: getBaseCurrency },
+  recipientEmail: { type: String, lowercase: true, trim: true },
+  note: { type: String },
+  expiresAt: { type: Date },
+  isActive: { type: Boolean, default: true },
+  transactions: [giftCardTransactionSchema],
+}, {
+  timestamps: true,
+  ...moneySchemaOptions,
+});
+
+// Indexes for better query performance
+giftCardSchema.index({ isActive: 1, expiresAt: 1 });
+giftCardSchema.index({ recipientEmail: 1 });
+
+// Instance method to check if the card can pay, optionally for a cart or order in a currency
+giftCardSchema.methods.isUsable = function(currency?: string): boolean {
+  return (
+    this.isActive &&
+    this.balance > 0 &&
+    (!this.expiresAt || this.expiresAt > new Date()) &&
+    (!currency || this.currency === currency.toUpperCase())
+  );
+};
+
+// Static method to generate a random code like "K7QW-2MXP-9HDT-4RCN"
+(giftCardSchema.statics as any).generateCode = function(): string {
+  const groups = Array.from({ length: 4 }, () =>
+    Array.from({ length: 4 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('')
+  );
+  return groups.join('-');
+};
+
+// Static method to issue a new card with its full balance. A given code that is taken fails with 409;
+// a generated one is replaced.
+(giftCardSchema.statics as any).issue = async function(giftCard: IGiftCardIssue) {
+  for (let attempt = 1; ; attempt++) {
+    const code = giftCard.code ?? this.generateCode();
+    try {
+      return await this.create({
+        code,
+        initialBalance: giftCard.amount,
+        balance: giftCard.amount,
+        ...(giftCard.currency && { currency: giftCard.currency }),
+        ...(giftCard.recipientEmail && { recipientEmail: giftCard.recipientEmail }),
+        ...(giftCard.note && { note: giftCard.note }),
+        ...(giftCard.expiresAt && { expiresAt: giftCard.expiresAt }),
+        transactions: [{ type: 'issue', amount: giftCard.amount, reference: 'issue', createdAt: new Date() }],
+      });
+    } catch (error: any) {
+      if (error?.code !== 11000) {
+        throw error;
+      }
+      if (giftCard.code) {
+        throw createAppError('Gift card code already exists', 409);
+      }
+      if (attempt >= MAX_CODE_ATTEMPTS) {
+        throw createAppError('Could not generate a unique gift card code', 409);
+      }
+    }
+  }
+};
+
+// Static method to find a card that can pay in a currency
+(giftCardSchema.statics as any).findUsable = async function(code: string, currency: string) {
+  const giftCard = await this.findOne({ code: code.toUpperCase().trim() });
+  return giftCard?.isUsable(currency) ? giftCard : null;
+};
+
+// Static method to take an amount off a card's balance. Atomic: returns null, and takes nothing,
+// when the card is no longer usable or its balance dropped below the amount meanwhile.
+// Redeeming the same reference twice only takes the amount once.
+(giftCardSchema.statics as any).redeem = async function(code: string, amount: number, operation: IGiftCardOperation) {
+  return this.findOneAndUpdate(
+    {
+      code: code.toUpperCase().trim(),
+      isActive: true,
+      balance: { $gte: amount },
+      'transactions.reference': { $ne: operation.reference },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+    },
+    {
+      $inc: { balance: -amount },
+      $push: {
+        transactions: {
+          type: 'redeem',
+          amount,
+          reference: operation.reference,
+          ...(operation.orderId && { orderId: operation.orderId }),
+          createdAt: new Date(),
+        },
+      },
+    },
+    { new: true, session: operation.session }
+  );
+};
+
+// Static method to put an amount back on a card, e.g. for a cancelled or refunded order.
+// Restoring the same reference twice only credits once; expired or inactive cards are credited too.
+(giftCardSchema.statics as any).restore = async function(code: string, amount: number, operation: IGiftCardOperation) {
+  await this.updateOne(
+    { code: code.toUpperCase().trim(), 'transactions.reference': { $ne: operation.reference } },
+    {
+      $inc: { balance: amount },
+      $push: {
+        transactions: {
+          type: 'restore',
+          amount,
+          reference: operation.reference,
+          ...(operation.orderId && { orderId: operation.orderId }),
+          createdAt: new Date(),
+        },
+      },
+    },
+    { session: operation.session }
+  );
+};
+
+export const GiftCard = mongoose.model<IGiftCard, IGiftCardModel>('GiftCard', giftCardSchema);
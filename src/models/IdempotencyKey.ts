@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IIdempotencyKey extends Document {
+  key: string;
+  scope: string;
+  fingerprint: string;
+  status: 'processing' | 'completed';
+  responseStatus?: number;
+  responseBody?: unknown;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  complete(responseStatus: number, responseBody: unknown): Promise<IIdempotencyKey>;
+}
+
+// Static methods interface
+export interface IIdempotencyKeyModel extends mongoose.Model<IIdempotencyKey> {
+  begin(key: string, scope: string, fingerprint: string): Promise<{ record: IIdempotencyKey; created: boolean }>;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>({
+  key: { type: String, required: true },
+  scope: { type: String, required: true },
+  fingerprint: { type: String, required: true },
+  status: {
+    type: String,
+    required: true,
+    enum: ['processing', 'completed'],
+    default: 'processing'
+  },
+  responseStatus: { type: Number },
+  responseBody: { type: Schema.Types.Mixed },
+  expiresAt: { type: Date, required: true },
+}, {
+  timestamps: true,
+});
+
+// Indexes for better query performance
+idempotencyKeySchema.index({ key: 1, scope: 1 }, { unique: true });
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+
+const getIdempotencyTtlHours = (): number => parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24');
+
+// Static method to claim a key, or return the record already stored for it.
+// The unique index makes sure only one of several concurrent requests creates the record.
+(idempotencyKeySchema.statics as any).begin = async function(key: string, scope: string, fingerprint: string) {
+  try {
+    const record = await this.create({
+      key,
+      scope,
+      fingerprint,
+      status: 'processing',
+      expiresAt: new Date(Date.now() + getIdempotencyTtlHours() * 60 * 60 * 1000),
+    });
+    return { record, created: true };
+  } catch (error: any) {
+    if (error?.code !== 11000) {
+      throw error;
+    }
+
+    const record = await this.findOne({ key, scope });
+    if (!record) {
+      // Expired and removed between the insert and the lookup
+      return (this as IIdempotencyKeyModel).begin(key, scope, fingerprint);
+    }
+    return { record, created: false };
+  }
+};
+
+// Instance method to store the response replayed for retries
+idempotencyKeySchema.methods.complete = async function(responseStatus: number, responseBody: unknown) {
+  this.status = 'completed';
+  this.responseStatus = responseStatus;
+  this.responseBody = responseBody;
+  return this.save();
+};
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey, IIdempotencyKeyModel>(
+  'IdempotencyKey',
+  idempotencyKeySchema
+);
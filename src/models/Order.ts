@@ -1,13 +1,52 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+import { ILineCustomization } from './Product';
+import { createAppError } from '../middleware/errorHandler';
+import { getBaseCurrency } from '../utils/currency';
+import { decimalsToNumbers, moneyField, moneySchemaOptions, roundMoney, toDecimal128 } from '../utils/money';
+
+export interface IOrderItemTax {
+  taxClass: string;
+  // Percentage applied, 0 when no rate matched the shipping address
+  rate: number;
+  amount: number;
+}
+
+// A discount on an order line, from an automatic promotion or from the promo code
+export interface ILineDiscount {
+  promotionId?: mongoose.Types.ObjectId;
+  promoCode?: string;
+  name: string;
+  amount: number;
+}
+
+// A promotion or promo code applied to a cart or order, with the discount it gave across all lines
+export interface IAppliedPromotion {
+  promotionId?: mongoose.Types.ObjectId;
+  promoCode?: string;
+  name: string;
+  amount: number;
+  freeShipping: boolean;
+}
 
 export interface IOrderItem {
+  _id?: mongoose.Types.ObjectId;
   productId: mongoose.Types.ObjectId;
   variantId: string;
+  // Engraving, gift wrap and other options set on the line; price includes their surcharges
+  customizations?: ILineCustomization[];
   quantity: number;
   price: number;
   productName: string;
   variantName: string;
   sku: string;
+  // Line discount and what it is made of; missing on orders placed before promotions
+  discount?: number;
+  discounts?: ILineDiscount[];
+  tax?: IOrderItemTax;
+  refundedQuantity?: number;
+  refundedAmount?: number;
+  // Units claimed by open returns; missing on orders placed before returns claimed them
+  returnQuantity?: number;
 }
 
 export interface IAddress {
@@ -25,33 +64,153 @@ export interface ICustomerInfo {
   phone?: string;
 }
 
+export type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
+
+// Allowed status changes; delivered and cancelled are final
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export interface IOrderShippingMethod {
+  code: string;
+  name: string;
+  type: 'standard' | 'express' | 'pickup';
+}
+
+export interface IStatusActor {
+  userId?: mongoose.Types.ObjectId;
+  email?: string;
+  role?: string;
+}
+
+export interface IOrderStatusChange {
+  from?: OrderStatus;
+  to: OrderStatus;
+  changedAt: Date;
+  changedBy?: IStatusActor;
+  note?: string;
+}
+
+export interface IRefundItem {
+  itemId: mongoose.Types.ObjectId;
+  quantity: number;
+  amount: number;
+}
+
+export type PaymentMethod = 'credit_card' | 'paypal' | 'stripe';
+
+export type TenderType = 'gift_card' | 'store_credit' | 'payment';
+
+// One way an order is paid for; the amounts of an order's tenders add up to its total
+export interface ITender {
+  type: TenderType;
+  // gift_card: the card's code
+  giftCardCode?: string;
+  // payment: the method charged through the payment provider
+  paymentMethod?: PaymentMethod;
+  amount: number;
+  refundedAmount: number;
+}
+
+// What a refund gave back to one tender
+export interface IRefundTender {
+  type: TenderType;
+  giftCardCode?: string;
+  amount: number;
+}
+
+export interface IRefund {
+  _id?: mongoose.Types.ObjectId;
+  amount: number;
+  method: 'original_payment' | 'store_credit';
+  items: IRefundItem[];
+  // original_payment refunds of orders paid with several tenders: the part each tender got back
+  tenders?: IRefundTender[];
+  reason?: string;
+  restock: boolean;
+  // The provider's refund ID (or "store_credit:<reference>"); a refund is recorded at most once per ID
+  providerRefundId: string;
+  createdBy?: IStatusActor;
+  createdAt: Date;
+}
+
+export type RefundInput = Omit<IRefund, '_id' | 'createdAt'>;
+
+// Units of an order item claimed by a return
+export interface ReturnQuantity {
+  itemId: mongoose.Types.ObjectId | string;
+  quantity: number;
+}
+
+export interface IUpdateStatusOptions {
+  trackingNumber?: string;
+  note?: string;
+  // Omitted for changes made by the system itself
+  changedBy?: { id: string; email: string; role: string };
+  session?: ClientSession;
+}
+
 export interface IOrder extends Document {
   orderNumber: string;
   cartId: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  reservationId?: mongoose.Types.ObjectId;
   customerInfo: ICustomerInfo;
   shippingAddress: IAddress;
   billingAddress?: IAddress;
   items: IOrderItem[];
+  // Currency all amounts of the order are in
+  currency: string;
   subtotal: number;
   discount: number;
+  shippingMethod?: IOrderShippingMethod;
+  shippingTotal: number;
+  taxTotal: number;
+  // Whether item prices already contain tax; if not, taxTotal was added on top of them
+  pricesIncludeTax: boolean;
   total: number;
   promoCode?: string;
-  status: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
-  paymentMethod: 'credit_card' | 'paypal' | 'stripe';
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
+  promotions: IAppliedPromotion[];
+  status: OrderStatus;
+  statusHistory: IOrderStatusChange[];
+  // The method of the payment tender, or the only tender when gift cards or store credit paid for everything
+  paymentMethod: PaymentMethod | 'gift_card' | 'store_credit';
+  // Orders placed before split tender have none and were paid by paymentMethod alone
+  tenders: ITender[];
+  paymentStatus: 'pending' | 'authorized' | 'paid' | 'failed' | 'voided' | 'refund_pending' | 'partially_refunded' | 'refunded';
+  refunds: IRefund[];
+  refundedTotal: number;
+  paymentProvider?: string;
+  paymentIntentId?: string;
   trackingNumber?: string;
   notes?: string;
+  restockedAt?: Date;
+  promoUsageReleasedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   
   // Instance methods
-  updateStatus(status: string, trackingNumber?: string, notes?: string): Promise<IOrder>;
+  updateStatus(status: OrderStatus, options?: IUpdateStatusOptions): Promise<IOrder>;
   updatePaymentStatus(paymentStatus: string): Promise<IOrder>;
+  recordRefund(refund: RefundInput): Promise<IOrder | null>;
+  reserveReturn(items: ReturnQuantity[]): Promise<IOrder | null>;
+  releaseReturn(items: ReturnQuantity[]): Promise<void>;
+}
+
+// A customer known by their account, the email they check out with, or both
+export interface OrderCustomer {
+  userId?: mongoose.Types.ObjectId | string;
+  email?: string;
 }
 
 // Static methods interface
 export interface IOrderModel extends mongoose.Model<IOrder> {
   generateOrderNumber(): string;
+  hasPreviousOrder(customer: OrderCustomer, before?: Date): Promise<boolean>;
   getOrdersWithDetails(filters?: any): Promise<{
     orders: IOrder[];
     pagination: {
@@ -70,24 +229,104 @@ const addressSchema = new Schema<IAddress>({
   state: { type: String, required: true },
   zipCode: { type: String, required: true },
   country: { type: String, required: true },
-});
+}, moneySchemaOptions);
 
 const customerInfoSchema = new Schema<ICustomerInfo>({
   email: { type: String, required: true },
   firstName: { type: String, required: true },
   lastName: { type: String, required: true },
   phone: { type: String },
-});
+}, moneySchemaOptions);
+
+const lineDiscountSchema = new Schema<ILineDiscount>({
+  promotionId: { type: Schema.Types.ObjectId, ref: 'Promotion' },
+  promoCode: { type: String },
+  name: { type: String, required: true },
+  amount: moneyField({ required: true }),
+}, { _id: false, ...moneySchemaOptions });
+
+const appliedPromotionSchema = new Schema<IAppliedPromotion>({
+  promotionId: { type: Schema.Types.ObjectId, ref: 'Promotion' },
+  promoCode: { type: String },
+  name: { type: String, required: true },
+  amount: moneyField({ required: true }),
+  freeShipping: { type: Boolean, default: false },
+}, { _id: false, ...moneySchemaOptions });
+
+const lineCustomizationSchema = new Schema<ILineCustomization>({
+  key: { type: String, required: true },
+  name: { type: String, required: true },
+  value: { type: String, required: true },
+  surcharge: moneyField({ default: 0 }),
+}, { _id: false, ...moneySchemaOptions });
 
 const orderItemSchema = new Schema<IOrderItem>({
   productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
   variantId: { type: String, required: true },
+  customizations: { type: [lineCustomizationSchema], default: undefined },
   quantity: { type: Number, required: true, min: 1 },
-  price: { type: Number, required: true, min: 0 },
+  price: moneyField({ required: true }),
   productName: { type: String, required: true },
   variantName: { type: String, required: true },
   sku: { type: String, required: true },
-});
+  discount: moneyField(),
+  discounts: { type: [lineDiscountSchema], default: undefined },
+  tax: {
+    taxClass: { type: String },
+    rate: { type: Number, min: 0 },
+    amount: moneyField(),
+  },
+  refundedQuantity: { type: Number, default: 0, min: 0 },
+  refundedAmount: moneyField({ default: 0 }),
+  returnQuantity: { type: Number, default: 0, min: 0 },
+}, moneySchemaOptions);
+
+const tenderSchema = new Schema<ITender>({
+  type: { type: String, required: true, enum: ['gift_card', 'store_credit', 'payment'] },
+  giftCardCode: { type: String, uppercase: true },
+  paymentMethod: { type: String, enum: ['credit_card', 'paypal', 'stripe'] },
+  amount: moneyField({ required: true }),
+  refundedAmount: moneyField({ default: 0 }),
+}, { _id: false, ...moneySchemaOptions });
+
+const refundSchema = new Schema<IRefund>({
+  amount: moneyField({ required: true }),
+  method: { type: String, required: true, enum: ['original_payment', 'store_credit'], default: 'original_payment' },
+  items: [new Schema({
+    itemId: { type: Schema.Types.ObjectId, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    amount: moneyField({ required: true }),
+  }, { _id: false, ...moneySchemaOptions })],
+  tenders: {
+    type: [new Schema({
+      type: { type: String, required: true, enum: ['gift_card', 'store_credit', 'payment'] },
+      giftCardCode: { type: String },
+      amount: moneyField({ required: true }),
+    }, { _id: false, ...moneySchemaOptions })],
+    default: undefined,
+  },
+  reason: { type: String },
+  restock: { type: Boolean, default: false },
+  providerRefundId: { type: String, required: true },
+  createdBy: {
+    userId: { type: Schema.Types.ObjectId, ref: 'User' },
+    email: { type: String },
+    role: { type: String },
+  },
+  createdAt: { type: Date, required: true },
+}, moneySchemaOptions);
+
+const statusChangeSchema = new Schema<IOrderStatusChange>({
+  from: { type: String, enum: Object.keys(ORDER_STATUS_TRANSITIONS) },
+  to: { type: String, required: true, enum: Object.keys(ORDER_STATUS_TRANSITIONS) },
+  changedAt: { type: Date, required: true },
+  changedBy: {
+    userId: { type: Schema.Types.ObjectId, ref: 'User' },
+    email: { type: String },
+    role: { type: String },
+  },
+  note: { type: String },
+}, { _id: false, ...moneySchemaOptions });
 
 const orderSchema = new Schema<IOrder>({
   orderNumber: { 
@@ -100,50 +339,77 @@ const orderSchema = new Schema<IOrder>({
     ref: 'Cart', 
     required: true 
   },
+  userId: { type: Schema.Types.ObjectId, ref: 'User' },
+  reservationId: { type: Schema.Types.ObjectId, ref: 'StockReservation' },
   customerInfo: customerInfoSchema,
   shippingAddress: addressSchema,
   billingAddress: addressSchema,
   items: [orderItemSchema],
-  subtotal: { type: Number, required: true, min: 0 },
-  discount: { type: Number, default: 0, min: 0 },
-  total: { type: Number, required: true, min: 0 },
+  currency: { type: String, required: true, uppercase: true, default: getBaseCurrency },
+  subtotal: moneyField({ required: true }),
+  discount: moneyField({ default: 0 }),
+  shippingMethod: {
+    code: { type: String },
+    name: { type: String },
+    type: { type: String, enum: ['standard', 'express', 'pickup'] },
+  },
+  shippingTotal: moneyField({ default: 0 }),
+  taxTotal: moneyField({ default: 0 }),
+  pricesIncludeTax: { type: Boolean, default: false },
+  total: moneyField({ required: true }),
   promoCode: { type: String },
+  promotions: [appliedPromotionSchema],
   status: { 
     type: String, 
     required: true, 
     enum: ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'],
     default: 'pending'
   },
+  statusHistory: [statusChangeSchema],
   paymentMethod: { 
     type: String, 
     required: true, 
-    enum: ['credit_card', 'paypal', 'stripe']
+    enum: ['credit_card', 'paypal', 'stripe', 'gift_card', 'store_credit']
   },
+  tenders: [tenderSchema],
   paymentStatus: { 
     type: String, 
     required: true, 
-    enum: ['pending', 'paid', 'failed', 'refunded'],
+    enum: ['pending', 'authorized', 'paid', 'failed', 'voided', 'refund_pending', 'partially_refunded', 'refunded'],
     default: 'pending'
   },
+  refunds: [refundSchema],
+  refundedTotal: moneyField({ default: 0 }),
+  paymentProvider: { type: String },
+  paymentIntentId: { type: String },
   trackingNumber: { type: String },
   notes: { type: String },
+  // Set once the cancellation side effects ran, so they never run twice
+  restockedAt: { type: Date },
+  promoUsageReleasedAt: { type: Date },
 }, {
   timestamps: true,
+  ...moneySchemaOptions,
 });
 
 // Indexes for better query performance
 orderSchema.index({ 'customerInfo.email': 1 });
+orderSchema.index({ userId: 1, createdAt: -1 });
 orderSchema.index({ status: 1, paymentStatus: 1 });
 orderSchema.index({ createdAt: -1 });
 orderSchema.index({ total: 1 });
 orderSchema.index({ promoCode: 1 });
 orderSchema.index({ paymentMethod: 1 });
+orderSchema.index({ paymentProvider: 1, paymentIntentId: 1 });
 
-// Pre-save middleware to generate order number
+// Pre-save middleware to generate order number and start the status history
 orderSchema.pre('save', function(next) {
   if (this.isNew && !this.orderNumber) {
     this.orderNumber = (this.constructor as any).generateOrderNumber();
   }
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({ to: this.status, changedAt: new Date() });
+  }
   next();
 });
 
@@ -154,6 +420,25 @@ orderSchema.pre('save', function(next) {
   return `ORD-${timestamp}-${random}`;
 };
 
+// Static method to check if a customer ordered before, optionally before a date. Orders match
+// by account or by email (case-insensitively); cancelled orders don't count.
+(orderSchema.statics as any).hasPreviousOrder = async function(customer: OrderCustomer, before?: Date) {
+  const owners = [
+    ...(customer.userId ? [{ userId: customer.userId }] : []),
+    ...(customer.email ? [{ 'customerInfo.email': customer.email }] : []),
+  ];
+  if (owners.length === 0) {
+    return false;
+  }
+
+  const previousOrder = await this.findOne({
+    $or: owners,
+    status: { $ne: 'cancelled' },
+    ...(before && { createdAt: { $lt: before } }),
+  }, '_id').collation({ locale: 'en', strength: 2 });
+  return Boolean(previousOrder);
+};
+
 // Static method to get orders with aggregation pipeline
 (orderSchema.statics as any).getOrdersWithDetails = async function(filters: any = {}) {
   const {
@@ -164,6 +449,8 @@ orderSchema.pre('save', function(next) {
     startDate,
     endDate,
     email,
+    customerEmail,
+    userId,
     sortBy = 'createdAt',
     sortOrder = 'desc'
   } = filters;
@@ -175,6 +462,13 @@ orderSchema.pre('save', function(next) {
   if (status) matchConditions.status = status;
   if (paymentStatus) matchConditions.paymentStatus = paymentStatus;
   if (email) matchConditions['customerInfo.email'] = { $regex: email, $options: 'i' };
+  // Exact (case-insensitive) match, used when staff list the orders of a customer
+  if (customerEmail) {
+    const escapedEmail = customerEmail.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    matchConditions['customerInfo.email'] = { $regex: `^${escapedEmail}$`, $options: 'i' };
+  }
+  // The orders placed while signed in to an account, used when a customer lists their own orders
+  if (userId) matchConditions.userId = new mongoose.Types.ObjectId(userId);
   if (startDate || endDate) {
     matchConditions.createdAt = {};
     if (startDate) matchConditions.createdAt.$gte = new Date(startDate);
@@ -234,7 +528,7 @@ orderSchema.pre('save', function(next) {
   const result = await this.aggregate(pipeline);
   
   return {
-    orders: result[0]?.orders || [],
+    orders: decimalsToNumbers(result[0]?.orders || []),
     pagination: {
       page,
       limit,
@@ -244,15 +538,19 @@ orderSchema.pre('save', function(next) {
   };
 };
 
-// Static method to get order analytics
+// Static method to get order analytics. Amounts of different currencies can't be added up:
+// totalRevenue and averageOrderValue cover base currency orders, revenueByCurrency all of them.
 (orderSchema.statics as any).getOrderAnalytics = async function() {
+  const baseCurrency = getBaseCurrency();
+  // Orders placed before multi-currency support have no currency and are in the base currency
+  const orderCurrency = { $ifNull: ['$currency', baseCurrency] };
   const pipeline: any[] = [
     {
       $group: {
         _id: null,
         totalOrders: { $sum: 1 },
-        totalRevenue: { $sum: '$total' },
-        averageOrderValue: { $avg: '$total' },
+        totalRevenue: { $sum: { $cond: [{ $eq: [orderCurrency, baseCurrency] }, '$total', 0] } },
+        averageOrderValue: { $avg: { $cond: [{ $eq: [orderCurrency, baseCurrency] }, '$total', null] } },
         totalItems: {
           $sum: {
             $reduce: {
@@ -331,8 +629,8 @@ orderSchema.pre('save', function(next) {
       $project: {
         _id: 0,
         totalOrders: 1,
-        totalRevenue: { $round: ['$totalRevenue', 2] },
-        averageOrderValue: { $round: ['$averageOrderValue', 2] },
+        totalRevenue: 1,
+        averageOrderValue: 1,
         totalItems: 1,
         statusStats: 1,
         paymentStats: 1
@@ -340,16 +638,81 @@ orderSchema.pre('save', function(next) {
     }
   ];
 
-  const result = await this.aggregate(pipeline);
-  return result[0] || null;
+  const [result, revenueByCurrency] = await Promise.all([
+    this.aggregate(pipeline),
+    this.aggregate([
+      {
+        $group: {
+          _id: orderCurrency,
+          orderCount: { $sum: 1 },
+          revenue: { $sum: '$total' },
+          averageOrderValue: { $avg: '$total' }
+        }
+      },
+      {
+        $project: {
+          _id: 0,
+          currency: '$_id',
+          orderCount: 1,
+          revenue: 1,
+          averageOrderValue: 1
+        }
+      },
+      { $sort: { currency: 1 } }
+    ]),
+  ]);
+
+  if (!result[0]) {
+    return null;
+  }
+
+  // Sums of the stored decimals are exact; only averages need rounding to the currency
+  const overview = decimalsToNumbers(result[0]);
+  return {
+    ...overview,
+    currency: baseCurrency,
+    averageOrderValue: roundMoney(overview.averageOrderValue ?? 0, baseCurrency),
+    revenueByCurrency: decimalsToNumbers(revenueByCurrency).map((entry: any) => ({
+      ...entry,
+      averageOrderValue: roundMoney(entry.averageOrderValue, entry.currency),
+    })),
+  };
 };
 
-// Instance method to update order status
-orderSchema.methods.updateStatus = async function(status: string, trackingNumber?: string, notes?: string) {
-  this.status = status;
-  if (trackingNumber) this.trackingNumber = trackingNumber;
-  if (notes) this.notes = notes;
-  return this.save();
+// Instance method to move the order along the status graph.
+// The update only matches while the order is still in the status it was read with,
+// so concurrent changes can't both apply; the history entry is appended in the same write.
+orderSchema.methods.updateStatus = async function(status: OrderStatus, options: IUpdateStatusOptions = {}) {
+  const from = this.status as OrderStatus;
+
+  if (!ORDER_STATUS_TRANSITIONS[from].includes(status)) {
+    throw createAppError(`Cannot change order status from ${from} to ${status}`, 409);
+  }
+
+  const change: IOrderStatusChange = { from, to: status, changedAt: new Date() };
+  if (options.changedBy) {
+    change.changedBy = {
+      userId: new mongoose.Types.ObjectId(options.changedBy.id),
+      email: options.changedBy.email,
+      role: options.changedBy.role,
+    };
+  }
+  if (options.note) change.note = options.note;
+
+  const model = this.constructor as IOrderModel;
+  const updated = await model.findOneAndUpdate(
+    { _id: this._id, status: from },
+    {
+      $set: { status, ...(options.trackingNumber && { trackingNumber: options.trackingNumber }) },
+      $push: { statusHistory: change },
+    },
+    { new: true, session: options.session ?? null }
+  );
+
+  if (!updated) {
+    throw createAppError('Order status was changed concurrently', 409);
+  }
+  return updated;
 };
 
 // Instance method to update payment status
@@ -358,4 +721,151 @@ orderSchema.methods.updatePaymentStatus = async function(paymentStatus: string)
   return this.save();
 };
 
+// Instance method to add a refund to the ledger.
+// One conditional write checks that the refund fits (order total and per item quantities)
+// and was not recorded before, then appends it and bumps the running totals.
+// Returns null if the refund was already recorded.
+orderSchema.methods.recordRefund = async function(refund: RefundInput) {
+  const model = this.constructor as IOrderModel;
+  const items = this.items as IOrderItem[];
+
+  const increments: Record<string, number> = { refundedTotal: refund.amount };
+  const conditions: any[] = [
+    // Amounts are stored as exact decimals, so $expr (which Mongoose doesn't cast) gets a Decimal128 too
+    { $lte: [{ $add: [{ $ifNull: ['$refundedTotal', 0] }, toDecimal128(refund.amount)] }, '$total'] },
+  ];
+
+  for (const refundItem of refund.items) {
+    const index = items.findIndex(item => String(item._id) === String(refundItem.itemId));
+    if (index === -1) {
+      throw createAppError(`Order item ${refundItem.itemId} not found`, 400);
+    }
+
+    increments[`items.${index}.refundedQuantity`] = (increments[`items.${index}.refundedQuantity`] ?? 0) + refundItem.quantity;
+    increments[`items.${index}.refundedAmount`] = (increments[`items.${index}.refundedAmount`] ?? 0) + refundItem.amount;
+    conditions.push({
+      $lte: [
+        { $add: [{ $ifNull: [{ $arrayElemAt: ['$items.refundedQuantity', index] }, 0] }, increments[`items.${index}.refundedQuantity`]] },
+        { $arrayElemAt: ['$items.quantity', index] },
+      ],
+    });
+  }
+
+  for (const refundTender of refund.tenders ?? []) {
+    const index = (this.tenders as ITender[]).findIndex(tender =>
+      tender.type === refundTender.type && tender.giftCardCode === refundTender.giftCardCode
+    );
+    if (index === -1) {
+      throw createAppError(`Order has no ${refundTender.type} tender ${refundTender.giftCardCode ?? ''}`.trim(), 400);
+    }
+
+    increments[`tenders.${index}.refundedAmount`] = (increments[`tenders.${index}.refundedAmount`] ?? 0) + refundTender.amount;
+    conditions.push({
+      $lte: [
+        {
+          $add: [
+            { $ifNull: [{ $arrayElemAt: ['$tenders.refundedAmount', index] }, 0] },
+            toDecimal128(increments[`tenders.${index}.refundedAmount`] as number),
+          ],
+        },
+        { $arrayElemAt: ['$tenders.amount', index] },
+      ],
+    });
+  }
+
+  const recorded = await model.findOneAndUpdate(
+    {
+      _id: this._id,
+      'refunds.providerRefundId': { $ne: refund.providerRefundId },
+      $expr: { $and: conditions },
+    },
+    {
+      $push: { refunds: { ...refund, createdAt: new Date() } },
+      $inc: increments,
+    },
+    { new: true }
+  );
+
+  if (!recorded) {
+    const current = await model.findOne({ _id: this._id, 'refunds.providerRefundId': refund.providerRefundId });
+    if (current) {
+      return null;
+    }
+    throw createAppError('Refund exceeds the amount or quantities still refundable', 400);
+  }
+
+  // Derived from the stored totals, so concurrent refunds settle on the right status
+  return model.findOneAndUpdate(
+    { _id: this._id },
+    [{
+      $set: {
+        paymentStatus: {
+          $cond: [{ $gte: ['$refundedTotal', '$total'] }, 'refunded', 'partially_refunded'],
+        },
+      },
+    }],
+    { new: true }
+  );
+};
+
+// The units a return claims, by index of the order item
+const returnQuantitiesByIndex = (order: IOrder, returnItems: ReturnQuantity[]): Map<number, number> => {
+  const quantities = new Map<number, number>();
+  for (const returnItem of returnItems) {
+    const index = order.items.findIndex(item => String(item._id) === String(returnItem.itemId));
+    if (index === -1) {
+      throw createAppError(`Order item ${returnItem.itemId} not found`, 400);
+    }
+    quantities.set(index, (quantities.get(index) ?? 0) + returnItem.quantity);
+  }
+  return quantities;
+};
+
+// Instance method to claim units of order items for a return.
+// One conditional write checks that they are neither refunded nor claimed by another open return,
+// then claims them. Returns null, and claims nothing, when they aren't all available.
+orderSchema.methods.reserveReturn = async function(returnItems: ReturnQuantity[]) {
+  const model = this.constructor as IOrderModel;
+  const increments: Record<string, number> = {};
+  const conditions: any[] = [];
+
+  for (const [index, quantity] of returnQuantitiesByIndex(this as IOrder, returnItems)) {
+    increments[`items.${index}.returnQuantity`] = quantity;
+    conditions.push({
+      $lte: [
+        {
+          $add: [
+            { $ifNull: [{ $arrayElemAt: ['$items.refundedQuantity', index] }, 0] },
+            { $ifNull: [{ $arrayElemAt: ['$items.returnQuantity', index] }, 0] },
+            quantity,
+          ],
+        },
+        { $arrayElemAt: ['$items.quantity', index] },
+      ],
+    });
+  }
+
+  const reserved = await model.findOneAndUpdate(
+    { _id: this._id, $expr: { $and: conditions } },
+    { $inc: increments },
+    { new: true }
+  );
+  return reserved;
+};
+
+// Instance method to give back units claimed by a return once it is closed, by a rejection or a refund
+orderSchema.methods.releaseReturn = async function(returnItems: ReturnQuantity[]) {
+  const model = this.constructor as IOrderModel;
+  const increments: Record<string, number> = {};
+  const conditions: any[] = [];
+
+  for (const [index, quantity] of returnQuantitiesByIndex(this as IOrder, returnItems)) {
+    increments[`items.${index}.returnQuantity`] = -quantity;
+    // Returns opened before they claimed units have nothing to give back
+    conditions.push({ $gte: [{ $ifNull: [{ $arrayElemAt: ['$items.returnQuantity', index] }, 0] }, quantity] });
+  }
+
+  await model.updateOne({ _id: this._id, $expr: { $and: conditions } }, { $inc: increments });
+};
+
 export const Order = mongoose.model<IOrder, IOrderModel>('Order', orderSchema);
@@ -1,13 +1,60 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+import { ExchangeRate } from './ExchangeRate';
+import { createAppError } from '../middleware/errorHandler';
+import { getBaseCurrency } from '../utils/currency';
+import { decimalsToNumbers, moneyField, moneySchemaOptions, sumMoney } from '../utils/money';
+
+export interface IDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+export interface IVariantPrice {
+  currency: string;
+  amount: number;
+}
 
 export interface IProductVariant {
   name: string;
   sku: string;
+  // In the base currency
   price: number;
+  // Fixed prices in other currencies; currencies not listed are converted from price
+  prices?: IVariantPrice[];
   stock: number;
   attributes?: Record<string, string>;
+  // Shipping weight in kg and package dimensions in cm
+  weight?: number;
+  dimensions?: IDimensions;
+}
+
+// An option customers can set on a cart line of the product, e.g. engraving text or gift wrap
+export interface IProductCustomization {
+  // Identifies the option in requests, e.g. "engraving"
+  key: string;
+  name: string;
+  type: 'text' | 'boolean' | 'select';
+  required: boolean;
+  // text: longest value accepted
+  maxLength?: number;
+  // select: the values to choose from
+  choices?: string[];
+  // Added to the unit price when the option is set, in the base currency
+  surcharge: number;
 }
 
+// A customization set on a cart or order line; the surcharge is per unit, in the line's currency
+export interface ILineCustomization {
+  key: string;
+  name: string;
+  value: string;
+  surcharge: number;
+}
+
+// Customization values by option key, as sent by the storefront
+export type CustomizationInput = Record<string, string | boolean>;
+
 export interface IProduct extends Document {
   name: string;
   description: string;
@@ -16,6 +63,7 @@ export interface IProduct extends Document {
   images?: string[];
   variants: IProductVariant[];
   tags?: string[];
+  customizations: IProductCustomization[];
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -23,6 +71,12 @@ export interface IProduct extends Document {
   // Instance methods
   updateStock(variantId: string, quantity: number): Promise<IProduct>;
   isInStock(variantId: string, quantity?: number): boolean;
+  getVariantPrice(variantId: string, currency: string): Promise<number>;
+  resolveCustomizations(input: CustomizationInput, currency: string): Promise<ILineCustomization[]>;
+  priceLine(variantId: string, currency: string, customizations?: ILineCustomization[]): Promise<{
+    price: number;
+    customizations: ILineCustomization[];
+  }>;
 }
 
 // Static methods interface
@@ -37,15 +91,39 @@ export interface IProductModel extends mongoose.Model<IProduct> {
     };
   }>;
   getProductById(productId: string): Promise<IProduct[]>;
+  decrementVariantStock(productId: string, variantId: string, quantity: number, session?: ClientSession): Promise<boolean>;
+  incrementVariantStock(productId: string, variantId: string, quantity: number, session?: ClientSession): Promise<void>;
 }
 
 const productVariantSchema = new Schema<IProductVariant>({
   name: { type: String, required: true },
   sku: { type: String, required: true, unique: true },
-  price: { type: Number, required: true, min: 0 },
+  price: moneyField({ required: true }),
+  prices: [new Schema<IVariantPrice>({
+    currency: { type: String, required: true, uppercase: true, trim: true },
+    amount: moneyField({ required: true }),
+  }, { _id: false, ...moneySchemaOptions })],
   stock: { type: Number, required: true, min: 0, default: 0 },
   attributes: { type: Map, of: String, default: {} },
-});
+  weight: { type: Number, min: 0 },
+  dimensions: {
+    type: new Schema<IDimensions>({
+      length: { type: Number, required: true, min: 0 },
+      width: { type: Number, required: true, min: 0 },
+      height: { type: Number, required: true, min: 0 },
+    }, { _id: false, ...moneySchemaOptions }),
+  },
+}, moneySchemaOptions);
+
+const productCustomizationSchema = new Schema<IProductCustomization>({
+  key: { type: String, required: true, trim: true },
+  name: { type: String, required: true },
+  type: { type: String, required: true, enum: ['text', 'boolean', 'select'] },
+  required: { type: Boolean, default: false },
+  maxLength: { type: Number, min: 1 },
+  choices: { type: [String], default: undefined },
+  surcharge: moneyField({ default: 0 }),
+}, { _id: false, ...moneySchemaOptions });
 
 const productSchema = new Schema<IProduct>({
   name: { type: String, required: true },
@@ -60,9 +138,11 @@ const productSchema = new Schema<IProduct>({
   }}],
   variants: [productVariantSchema],
   tags: [{ type: String }],
+  customizations: [productCustomizationSchema],
   isActive: { type: Boolean, default: true },
 }, {
   timestamps: true,
+  ...moneySchemaOptions,
 });
 
 // Indexes for better query performance
@@ -156,7 +236,7 @@ productSchema.index({ createdAt: -1 });
   const result = await this.aggregate(pipeline);
   
   return {
-    products: result[0]?.products || [],
+    products: decimalsToNumbers(result[0]?.products || []),
     pagination: {
       page,
       limit,
@@ -168,7 +248,7 @@ productSchema.index({ createdAt: -1 });
 
 // Static method to get product by ID with variant details
 (productSchema.statics as any).getProductById = async function(productId: string) {
-  return this.aggregate([
+  const products = await this.aggregate([
     { $match: { _id: new mongoose.Types.ObjectId(productId), isActive: true } },
     {
       $addFields: {
@@ -185,6 +265,41 @@ productSchema.index({ createdAt: -1 });
       }
     }
   ]);
+  return decimalsToNumbers(products);
+};
+
+// Static method to atomically take stock from a variant.
+// The decrement only matches when enough stock is left, so concurrent callers can never oversell.
+(productSchema.statics as any).decrementVariantStock = async function(
+  productId: string,
+  variantId: string,
+  quantity: number,
+  session?: ClientSession
+): Promise<boolean> {
+  const result = await this.updateOne(
+    {
+      _id: productId,
+      isActive: true,
+      variants: { $elemMatch: { _id: variantId, stock: { $gte: quantity } } }
+    },
+    { $inc: { 'variants.$.stock': -quantity } },
+    { session }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Static method to put stock back onto a variant
+(productSchema.statics as any).incrementVariantStock = async function(
+  productId: string,
+  variantId: string,
+  quantity: number,
+  session?: ClientSession
+): Promise<void> {
+  await this.updateOne(
+    { _id: productId, 'variants._id': variantId },
+    { $inc: { 'variants.$.stock': quantity } },
+    { session }
+  );
 };
 
 // Instance method to update stock
@@ -208,4 +323,106 @@ productSchema.methods.isInStock = function(variantId: string, quantity: number =
   return variant ? variant.stock >= quantity : false;
 };
 
+// Instance method to get a variant's price in a currency: its price list entry for the currency,
+// otherwise its base price converted at the current exchange rate
+productSchema.methods.getVariantPrice = async function(variantId: string, currency: string): Promise<number> {
+  const variant = this.variants.id(variantId);
+  if (!variant) {
+    throw createAppError('Product variant not found', 404);
+  }
+
+  const code = currency.toUpperCase();
+  if (code === getBaseCurrency()) {
+    return variant.price;
+  }
+
+  const listed = (variant.prices ?? []).find((price: IVariantPrice) => price.currency === code);
+  if (listed) {
+    return listed.amount;
+  }
+  return ExchangeRate.convertFromBase(variant.price, code);
+};
+
+const convertSurcharge = (surcharge: number, currency: string): Promise<number> => {
+  const code = currency.toUpperCase();
+  return surcharge && code !== getBaseCurrency()
+    ? ExchangeRate.convertFromBase(surcharge, code)
+    : Promise.resolve(surcharge);
+};
+
+// Instance method to check customization values against the product's options. Returns the options
+// that are set, ordered by key and with their surcharges in a currency; fails with 400 on unknown
+// options, missing required ones and values the option doesn't accept.
+productSchema.methods.resolveCustomizations = async function(
+  input: CustomizationInput,
+  currency: string
+): Promise<ILineCustomization[]> {
+  const options = (this.customizations ?? []) as IProductCustomization[];
+
+  const unknown = Object.keys(input).find(key => !options.some(option => option.key === key));
+  if (unknown) {
+    throw createAppError(`${this.name} has no customization ${unknown}`, 400);
+  }
+
+  const resolved: ILineCustomization[] = [];
+  for (const option of options) {
+    const raw = input[option.key];
+    let value: string | undefined;
+
+    if (option.type === 'boolean') {
+      if (raw !== undefined && typeof raw !== 'boolean') {
+        throw createAppError(`${option.name} must be true or false`, 400);
+      }
+      value = raw ? 'true' : undefined;
+    } else {
+      if (raw !== undefined && typeof raw !== 'string') {
+        throw createAppError(`${option.name} must be text`, 400);
+      }
+      value = raw?.trim() || undefined;
+      if (value && option.type === 'text' && option.maxLength && value.length > option.maxLength) {
+        throw createAppError(`${option.name} can be at most ${option.maxLength} characters`, 400);
+      }
+      if (value && option.type === 'select' && !(option.choices ?? []).includes(value)) {
+        throw createAppError(`${option.name} must be one of ${(option.choices ?? []).join(', ')}`, 400);
+      }
+    }
+
+    if (!value) {
+      if (option.required) {
+        throw createAppError(`${option.name} is required`, 400);
+      }
+      continue;
+    }
+    resolved.push({ key: option.key, name: option.name, value, surcharge: await convertSurcharge(option.surcharge, currency) });
+  }
+
+  return resolved.sort((a, b) => a.key.localeCompare(b.key));
+};
+
+// Instance method to get the unit price of a cart line in a currency: the variant's price plus
+// the current surcharges of its customizations (options removed from the product cost nothing)
+productSchema.methods.priceLine = async function(
+  variantId: string,
+  currency: string,
+  customizations: ILineCustomization[] = []
+) {
+  const options = (this.customizations ?? []) as IProductCustomization[];
+  const repriced: ILineCustomization[] = [];
+  for (const customization of customizations) {
+    const option = options.find(candidate => candidate.key === customization.key);
+    repriced.push({
+      key: customization.key,
+      name: customization.name,
+      value: customization.value,
+      surcharge: option ? await convertSurcharge(option.surcharge, currency) : 0,
+    });
+  }
+
+  const variantPrice = await this.getVariantPrice(variantId, currency);
+  return {
+    price: sumMoney([variantPrice, ...repriced.map(customization => customization.surcharge)], currency),
+    customizations: repriced,
+  };
+};
+
 export const Product = mongoose.model<IProduct, IProductModel>('Product', productSchema);
@@ -1,4 +1,16 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+import { Order, OrderCustomer } from './Order';
+import { Product } from './Product';
+import { PromoRedemption } from './PromoRedemption';
+import { getBaseCurrency } from '../utils/currency';
+import {
+  FilterableLine,
+  IItemFilter,
+  findItemFilterMatch,
+  isEmptyItemFilter,
+  itemFilterSchema,
+} from '../utils/itemFilter';
+import { decimalsToNumbers, moneyField, moneySchemaOptions, percentageOf, roundMoney } from '../utils/money';
 
 export interface IPromoCode extends Document {
   code: string;
@@ -6,23 +18,60 @@ export interface IPromoCode extends Document {
   value: number;
   maxDiscount?: number;
   minOrderAmount?: number;
+  // Currency of value (for fixed codes), maxDiscount and minOrderAmount
+  currency: string;
   validFrom: Date;
   validTo: Date;
   maxUses?: number;
   usedCount: number;
+  // Uses per customer (account or email), counted from the redemption ledger
+  maxUsesPerCustomer?: number;
+  // Only for a customer's first order
+  firstOrderOnly: boolean;
+  // Only for customers who hadn't ordered before the code became valid
+  newCustomersOnly: boolean;
+  // Cart lines the code discounts; without criteria it discounts every line
+  appliesTo?: IItemFilter;
+  // Cart lines the code never discounts, even when appliesTo lists them
+  excludes?: IItemFilter;
+  // Campaign the code was generated for
+  campaignId?: mongoose.Types.ObjectId;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
   
   // Instance methods
   isValid(): boolean;
-  calculateDiscount(subtotal: number): number;
+  appliesToCurrency(currency: string): boolean;
+  checkCustomer(customer: OrderCustomer): Promise<string | null>;
+  checkLine(line: FilterableLine): { eligible: boolean; reason: string };
+  getEligibility(lines: PromoCodeLine[]): Promise<PromoCodeEligibility[]>;
+  calculateDiscount(subtotal: number, currency?: string, discountable?: number): number;
   incrementUsage(): Promise<IPromoCode>;
 }
 
+export interface PromoCodeLine {
+  productId: mongoose.Types.ObjectId | string;
+  variantId: string;
+  sku: string;
+}
+
+// Whether the code discounts a cart line, and why
+export interface PromoCodeEligibility extends PromoCodeLine {
+  eligible: boolean;
+  reason: string;
+}
+
 // Static methods interface
 export interface IPromoCodeModel extends mongoose.Model<IPromoCode> {
-  findValidPromoCode(code: string, subtotal?: number): Promise<IPromoCode | null>;
+  findValidPromoCode(
+    code: string,
+    subtotal?: number,
+    currency?: string,
+    customer?: OrderCustomer
+  ): Promise<IPromoCode | null>;
+  claimUsage(code: string, session?: ClientSession): Promise<IPromoCode | null>;
+  releaseUsage(code: string, session?: ClientSession): Promise<void>;
   getPromoCodesWithStats(filters?: any): Promise<{
     promoCodes: IPromoCode[];
     pagination: {
@@ -47,18 +96,15 @@ const promoCodeSchema = new Schema<IPromoCode>({
     required: true, 
     enum: ['percentage', 'fixed']
   },
-  value: { 
-    type: Number, 
-    required: true, 
-    min: 0 
-  },
-  maxDiscount: { 
-    type: Number, 
-    min: 0 
-  },
-  minOrderAmount: { 
-    type: Number, 
-    min: 0 
+  // A percent for percentage codes, an amount in `currency` for fixed codes; stored exactly either way
+  value: moneyField({ required: true }),
+  maxDiscount: moneyField(),
+  minOrderAmount: moneyField(),
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true,
+    default: getBaseCurrency
   },
   validFrom: { 
     type: Date, 
@@ -77,18 +123,38 @@ const promoCodeSchema = new Schema<IPromoCode>({
     default: 0, 
     min: 0 
   },
+  maxUsesPerCustomer: {
+    type: Number,
+    min: 1
+  },
+  firstOrderOnly: {
+    type: Boolean,
+    default: false
+  },
+  newCustomersOnly: {
+    type: Boolean,
+    default: false
+  },
+  appliesTo: itemFilterSchema,
+  excludes: itemFilterSchema,
+  campaignId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Campaign'
+  },
   isActive: { 
     type: Boolean, 
     default: true
   },
 }, {
   timestamps: true,
+  ...moneySchemaOptions,
 });
 
 // Indexes for better query performance
 promoCodeSchema.index({ code: 1, isActive: 1 });
 promoCodeSchema.index({ validFrom: 1, validTo: 1, isActive: 1 });
 promoCodeSchema.index({ usedCount: 1, maxUses: 1 });
+promoCodeSchema.index({ campaignId: 1, code: 1 });
 
 // Instance method to check if promo code is valid
 promoCodeSchema.methods.isValid = function(): boolean {
@@ -101,9 +167,81 @@ promoCodeSchema.methods.isValid = function(): boolean {
   );
 };
 
-// Instance method to calculate discount amount
-promoCodeSchema.methods.calculateDiscount = function(subtotal: number): number {
-  if (!this.isValid()) {
+// Instance method to check if the promo code can be used for a cart in a currency.
+// Codes holding amounts (a fixed value, maxDiscount or minOrderAmount) are limited to their currency;
+// plain percentage codes work in every currency.
+promoCodeSchema.methods.appliesToCurrency = function(currency: string): boolean {
+  const holdsAmounts = this.type === 'fixed' || Boolean(this.maxDiscount) || Boolean(this.minOrderAmount);
+  return !holdsAmounts || this.currency === currency.toUpperCase();
+};
+
+// Instance method to check if a customer may use the code. Returns why not, or null when they
+// may. Customers known neither by account nor by email pass; checkout checks again with the email.
+promoCodeSchema.methods.checkCustomer = async function(customer: OrderCustomer): Promise<string | null> {
+  if (!customer.userId && !customer.email) {
+    return null;
+  }
+
+  if (this.maxUsesPerCustomer &&
+      await PromoRedemption.countForCustomer(this.code, customer) >= this.maxUsesPerCustomer) {
+    return `Promo code ${this.code} can only be used ${this.maxUsesPerCustomer} time(s) per customer`;
+  }
+
+  if (this.firstOrderOnly && await Order.hasPreviousOrder(customer)) {
+    return `Promo code ${this.code} is only valid on a first order`;
+  }
+
+  if (this.newCustomersOnly && await Order.hasPreviousOrder(customer, this.validFrom)) {
+    return `Promo code ${this.code} is only valid for new customers`;
+  }
+
+  return null;
+};
+
+// Instance method to check if the code discounts a cart line. Exclusions win over appliesTo.
+promoCodeSchema.methods.checkLine = function(line: FilterableLine): { eligible: boolean; reason: string } {
+  const excludedBy = findItemFilterMatch(this.excludes, line);
+  if (excludedBy) {
+    return { eligible: false, reason: `Excluded: ${excludedBy}` };
+  }
+
+  if (isEmptyItemFilter(this.appliesTo)) {
+    return { eligible: true, reason: 'The code applies to every item' };
+  }
+
+  const matchedBy = findItemFilterMatch(this.appliesTo, line);
+  return matchedBy
+    ? { eligible: true, reason: `Qualifies: ${matchedBy}` }
+    : { eligible: false, reason: 'Not one of the products, SKUs, categories or brands the code applies to' };
+};
+
+// Instance method to check which cart lines the code discounts
+promoCodeSchema.methods.getEligibility = async function(lines: PromoCodeLine[]): Promise<PromoCodeEligibility[]> {
+  const products = await Product.find({ _id: { $in: lines.map(line => line.productId) } }, 'category brand');
+
+  return lines.map(line => {
+    const product = products.find(candidate => String(candidate._id) === String(line.productId));
+    const { eligible, reason } = this.checkLine({
+      productId: line.productId,
+      sku: line.sku,
+      category: product?.category ?? '',
+      brand: product?.brand ?? '',
+    });
+    return { productId: line.productId, variantId: line.variantId, sku: line.sku, eligible, reason };
+  });
+};
+
+// Instance method to calculate discount amount. minOrderAmount applies to the subtotal; the
+// discount is taken of the `discountable` part of it (what the eligible lines add up to, the
+// whole subtotal by default). Percentage discounts are rounded to the currency's minor unit,
+// halves up (see percentageOf), before maxDiscount caps them.
+promoCodeSchema.methods.calculateDiscount = function(
+  subtotal: number,
+  currency?: string,
+  discountable: number = subtotal
+): number {
+  const discountCurrency = currency ?? this.currency;
+  if (!this.isValid() || !this.appliesToCurrency(discountCurrency)) {
     return 0;
   }
 
@@ -114,7 +252,7 @@ promoCodeSchema.methods.calculateDiscount = function(subtotal: number): number {
   let discount = 0;
   
   if (this.type === 'percentage') {
-    discount = (subtotal * this.value) / 100;
+    discount = percentageOf(discountable, this.value, discountCurrency);
   } else {
     discount = this.value;
   }
@@ -124,8 +262,8 @@ promoCodeSchema.methods.calculateDiscount = function(subtotal: number): number {
     discount = Math.min(discount, this.maxDiscount);
   }
 
-  // Ensure discount doesn't exceed subtotal
-  return Math.min(discount, subtotal);
+  // Ensure discount doesn't exceed what it applies to
+  return roundMoney(Math.min(discount, discountable), discountCurrency);
 };
 
 // Instance method to increment usage
@@ -134,8 +272,38 @@ promoCodeSchema.methods.incrementUsage = async function() {
   return this.save();
 };
 
+// Static method to atomically count one use of a promo code.
+// Returns null when the code reached maxUses in the meantime.
+(promoCodeSchema.statics as any).claimUsage = async function(code: string, session?: ClientSession) {
+  return this.findOneAndUpdate(
+    {
+      code: code.toUpperCase(),
+      $or: [
+        { maxUses: { $exists: false } },
+        { $expr: { $lt: ['$usedCount', '$maxUses'] } }
+      ]
+    },
+    { $inc: { usedCount: 1 } },
+    { new: true, session }
+  );
+};
+
+// Static method to give back one use of a promo code
+(promoCodeSchema.statics as any).releaseUsage = async function(code: string, session?: ClientSession) {
+  await this.updateOne(
+    { code: code.toUpperCase(), usedCount: { $gt: 0 } },
+    { $inc: { usedCount: -1 } },
+    { session }
+  );
+};
+
 // Static method to find valid promo code
-(promoCodeSchema.statics as any).findValidPromoCode = async function(code: string, subtotal: number = 0) {
+(promoCodeSchema.statics as any).findValidPromoCode = async function(
+  code: string,
+  subtotal: number = 0,
+  currency: string = getBaseCurrency(),
+  customer?: OrderCustomer
+) {
   const now = new Date();
   
   const promoCode = await this.findOne({
@@ -149,7 +317,7 @@ promoCodeSchema.methods.incrementUsage = async function() {
     ]
   });
 
-  if (!promoCode) {
+  if (!promoCode || !promoCode.appliesToCurrency(currency)) {
     return null;
   }
 
@@ -158,6 +326,11 @@ promoCodeSchema.methods.incrementUsage = async function() {
     return null;
   }
 
+  // Check per-customer limits when the customer is known
+  if (customer && await promoCode.checkCustomer(customer)) {
+    return null;
+  }
+
   return promoCode;
 };
 
@@ -219,7 +392,7 @@ promoCodeSchema.methods.incrementUsage = async function() {
   const result = await this.aggregate(pipeline);
   
   return {
-    promoCodes: result[0]?.promoCodes || [],
+    promoCodes: decimalsToNumbers(result[0]?.promoCodes || []),
     pagination: {
       page,
       limit,
@@ -229,7 +402,8 @@ promoCodeSchema.methods.incrementUsage = async function() {
   };
 };
 
-// Static method to get promo code analytics
+// Static method to get promo code analytics. Unique redeemers, discount and revenue come from
+// the redemption ledger, per code and currency (see PromoRedemption.getRedemptionStats).
 (promoCodeSchema.statics as any).getPromoAnalytics = async function() {
   const pipeline: any[] = [
     {
@@ -293,8 +467,13 @@ promoCodeSchema.methods.incrementUsage = async function() {
     }
   ];
 
-  const result = await this.aggregate(pipeline);
-  return result[0] || null;
+  const [result, redemptions] = await Promise.all([
+    this.aggregate(pipeline),
+    PromoRedemption.getRedemptionStats(),
+  ]);
+  return result[0]
+    ? { ...decimalsToNumbers(result[0]), uniqueRedeemers: redemptions.uniqueRedeemers, byCode: redemptions.codes }
+    : null;
 };
 
 export const PromoCode = mongoose.model<IPromoCode, IPromoCodeModel>('PromoCode', promoCodeSchema);
@@ -0,0 +1,158 @@
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+import { OrderCustomer } from './Order';
+import { decimalsToNumbers, moneyField, moneySchemaOptions } from '../utils/money';
+
+// One use of a promo code by an order. Redemptions of cancelled orders are kept, marked released,
+// and no longer count towards the customer's uses or the code's revenue.
+export interface IPromoRedemption extends Document {
+  promoCode: string;
+  orderId: mongoose.Types.ObjectId;
+  orderNumber: string;
+  email: string;
+  userId?: mongoose.Types.ObjectId;
+  currency: string;
+  // Discount the code gave and the order total, both in the order's currency
+  discount: number;
+  orderTotal: number;
+  redeemedAt: Date;
+  releasedAt?: Date;
+}
+
+export interface PromoRedemptionInput {
+  promoCode: string;
+  orderId: mongoose.Types.ObjectId | string;
+  orderNumber: string;
+  email: string;
+  userId?: mongoose.Types.ObjectId;
+  currency: string;
+  discount: number;
+  orderTotal: number;
+}
+
+export interface PromoCodeRedemptionStats {
+  code: string;
+  currency: string;
+  redemptions: number;
+  uniqueRedeemers: number;
+  discount: number;
+  revenue: number;
+}
+
+// Static methods interface
+export interface IPromoRedemptionModel extends mongoose.Model<IPromoRedemption> {
+  record(redemption: PromoRedemptionInput, session?: ClientSession): Promise<IPromoRedemption>;
+  release(orderId: mongoose.Types.ObjectId | string, session?: ClientSession): Promise<void>;
+  countForCustomer(code: string, customer: OrderCustomer, session?: ClientSession): Promise<number>;
+  getRedemptionStats(): Promise<{ uniqueRedeemers: number; codes: PromoCodeRedemptionStats[] }>;
+}
+
+const promoRedemptionSchema = new Schema<IPromoRedemption>({
+  promoCode: { type: String, required: true, uppercase: true },
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order', required: true },
+  orderNumber: { type: String, required: true },
+  email: { type: String, required: true, lowercase: true, trim: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User' },
+  currency: { type: String, required: true, uppercase: true },
+  discount: moneyField({ required: true }),
+  orderTotal: moneyField({ required: true }),
+  redeemedAt: { type: Date, required: true, default: Date.now },
+  releasedAt: { type: Date },
+}, moneySchemaOptions);
+
+// Indexes for better query performance
+promoRedemptionSchema.index({ orderId: 1, promoCode: 1 }, { unique: true });
+promoRedemptionSchema.index({ promoCode: 1, email: 1 });
+promoRedemptionSchema.index({ promoCode: 1, userId: 1 });
+
+// Uses count per account when the customer is signed in, per email otherwise
+const redeemerKey = { $ifNull: [{ $toString: '$userId' }, '$email'] };
+
+// Static method to record a promo code use of an order
+(promoRedemptionSchema.statics as any).record = async function(
+  redemption: PromoRedemptionInput,
+  session?: ClientSession
+) {
+  const [created] = await this.create([redemption], { session });
+  return created;
+};
+
+// Static method to release the redemptions of a cancelled order
+(promoRedemptionSchema.statics as any).release = async function(
+  orderId: mongoose.Types.ObjectId | string,
+  session?: ClientSession
+) {
+  await this.updateMany(
+    { orderId, releasedAt: { $exists: false } },
+    { $set: { releasedAt: new Date() } },
+    { session }
+  );
+};
+
+// Static method to count the uses of a code by a customer, by account or by email
+(promoRedemptionSchema.statics as any).countForCustomer = async function(
+  code: string,
+  customer: OrderCustomer,
+  session?: ClientSession
+) {
+  const owners = [
+    ...(customer.userId ? [{ userId: customer.userId }] : []),
+    ...(customer.email ? [{ email: customer.email.toLowerCase().trim() }] : []),
+  ];
+  if (owners.length === 0) {
+    return 0;
+  }
+
+  return this.countDocuments(
+    { promoCode: code.toUpperCase(), releasedAt: { $exists: false }, $or: owners },
+    { session }
+  );
+};
+
+// Static method to get redemption stats per code. Amounts of different currencies can't be
+// added up, so codes used in several currencies get one entry per currency.
+(promoRedemptionSchema.statics as any).getRedemptionStats = async function() {
+  const [result] = await this.aggregate([
+    { $match: { releasedAt: { $exists: false } } },
+    {
+      $facet: {
+        codes: [
+          {
+            $group: {
+              _id: { code: '$promoCode', currency: '$currency' },
+              redemptions: { $sum: 1 },
+              redeemers: { $addToSet: redeemerKey },
+              discount: { $sum: '$discount' },
+              revenue: { $sum: '$orderTotal' },
+            }
+          },
+          {
+            $project: {
+              _id: 0,
+              code: '$_id.code',
+              currency: '$_id.currency',
+              redemptions: 1,
+              uniqueRedeemers: { $size: '$redeemers' },
+              discount: 1,
+              revenue: 1,
+            }
+          },
+          { $sort: { redemptions: -1, code: 1 } },
+        ],
+        redeemers: [
+          { $group: { _id: redeemerKey } },
+          { $count: 'count' },
+        ],
+      }
+    }
+  ]);
+
+  return {
+    uniqueRedeemers: result?.redeemers[0]?.count || 0,
+    codes: decimalsToNumbers(result?.codes || []),
+  };
+};
+
+export const PromoRedemption = mongoose.model<IPromoRedemption, IPromoRedemptionModel>(
+  'PromoRedemption',
+  promoRedemptionSchema
+);
@@ -0,0 +1,405 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { Order, IAppliedPromotion, ILineDiscount } from './Order';
+import { Product } from './Product';
+import { IPromoCode } from './PromoCode';
+import { getBaseCurrency } from '../utils/currency';
+import { FilterableLine, IItemFilter, itemFilterSchema, matchesItemFilter } from '../utils/itemFilter';
+import {
+  allocateProportionally,
+  moneyField,
+  moneySchemaOptions,
+  multiplyMoney,
+  percentageOf,
+  sumMoney,
+} from '../utils/money';
+
+export type CustomerSegment = 'guest' | 'registered' | 'new_customer' | 'returning_customer';
+
+export type PromotionConditionType = 'subtotal' | 'items' | 'quantity' | 'customer_segment';
+
+export interface IPromotionCondition {
+  type: PromotionConditionType;
+  // subtotal: minimum cart subtotal before discounts
+  minAmount?: number;
+  // items: the cart holds a matching line; quantity: it holds at least minQuantity matching units
+  items?: IItemFilter;
+  minQuantity?: number;
+  // customer_segment: the customer is in one of these segments
+  segments: CustomerSegment[];
+}
+
+export type PromotionActionType = 'percentage' | 'fixed' | 'buy_x_get_y' | 'free_shipping';
+
+export interface IPromotionTier {
+  // Lower bound (subtotal or units) from which the tier applies
+  min: number;
+  value: number;
+}
+
+export interface IPromotionAction {
+  type: PromotionActionType;
+  // percentage and fixed: discount the order as a whole, or each line matching `items`
+  target: 'order' | 'items';
+  // A percent for percentage actions; an amount for fixed ones, off each unit when targeting items
+  value?: number;
+  // Tiered discounts: the value of the highest tier reached replaces `value`
+  tiers: IPromotionTier[];
+  tierBasis: 'subtotal' | 'quantity';
+  items?: IItemFilter;
+  // buy_x_get_y: of every buyQuantity + getQuantity matching units, the cheapest getQuantity
+  // are discounted by getPercent (100 makes them free)
+  buyQuantity?: number;
+  getQuantity?: number;
+  getPercent?: number;
+}
+
+export interface IPromotion extends Document {
+  name: string;
+  description?: string;
+  conditions: IPromotionCondition[];
+  actions: IPromotionAction[];
+  // Higher priorities are applied first
+  priority: number;
+  // Exclusive promotions are never combined with other promotions or a promo code
+  exclusive: boolean;
+  // Currency of the amounts in conditions and actions
+  currency: string;
+  validFrom: Date;
+  validTo?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  appliesToCurrency(currency: string): boolean;
+}
+
+export interface PromotionLine {
+  productId: mongoose.Types.ObjectId | string;
+  variantId: string;
+  sku: string;
+  price: number;
+  quantity: number;
+}
+
+export interface PromotionContext {
+  currency: string;
+  userId?: mongoose.Types.ObjectId | string;
+  // Known at checkout; tells new and returning guest customers apart
+  email?: string;
+  // A valid promo code, applied after the automatic promotions
+  promoCode?: IPromoCode | null;
+}
+
+export interface PromotionResult {
+  discount: number;
+  freeShipping: boolean;
+  promotions: IAppliedPromotion[];
+  // One entry per line, in the order of the lines passed in
+  lines: { discount: number; discounts: ILineDiscount[] }[];
+  // Name of the exclusive promotion the promo code could not be combined with
+  promoCodeBlockedBy?: string;
+}
+
+// Static methods interface
+export interface IPromotionModel extends mongoose.Model<IPromotion> {
+  findActive(): Promise<IPromotion[]>;
+  evaluate(lines: PromotionLine[], context: PromotionContext): Promise<PromotionResult>;
+}
+
+type DescribedLine = PromotionLine & FilterableLine;
+
+const conditionSchema = new Schema<IPromotionCondition>({
+  type: { type: String, required: true, enum: ['subtotal', 'items', 'quantity', 'customer_segment'] },
+  minAmount: moneyField(),
+  items: itemFilterSchema,
+  minQuantity: { type: Number, min: 1 },
+  segments: [{ type: String, enum: ['guest', 'registered', 'new_customer', 'returning_customer'] }],
+}, { _id: false, ...moneySchemaOptions });
+
+const actionSchema = new Schema<IPromotionAction>({
+  type: { type: String, required: true, enum: ['percentage', 'fixed', 'buy_x_get_y', 'free_shipping'] },
+  target: { type: String, enum: ['order', 'items'], default: 'order' },
+  value: moneyField(),
+  tiers: [new Schema<IPromotionTier>({
+    // A subtotal or a quantity, depending on tierBasis
+    min: moneyField({ required: true }),
+    value: moneyField({ required: true }),
+  }, { _id: false, ...moneySchemaOptions })],
+  tierBasis: { type: String, enum: ['subtotal', 'quantity'], default: 'subtotal' },
+  items: itemFilterSchema,
+  buyQuantity: { type: Number, min: 1 },
+  getQuantity: { type: Number, min: 1 },
+  getPercent: { type: Number, min: 0, max: 100, default: 100 },
+}, { _id: false, ...moneySchemaOptions });
+
+const promotionSchema = new Schema<IPromotion>({
+  name: { type: String, required: true, trim: true },
+  description: { type: String },
+  conditions: [conditionSchema],
+  actions: {
+    type: [actionSchema],
+    validate: {
+      validator: (actions: IPromotionAction[]) => actions.length > 0,
+      message: 'A promotion needs at least one action',
+    },
+  },
+  priority: { type: Number, default: 0 },
+  exclusive: { type: Boolean, default: false },
+  currency: { type: String, required: true, uppercase: true, default: getBaseCurrency },
+  validFrom: { type: Date, required: true, default: Date.now },
+  validTo: { type: Date },
+  isActive: { type: Boolean, default: true },
+}, {
+  timestamps: true,
+  ...moneySchemaOptions,
+});
+
+// Indexes for better query performance
+promotionSchema.index({ isActive: 1, validFrom: 1, validTo: 1 });
+promotionSchema.index({ priority: -1, createdAt: 1 });
+
+// Instance method to check if the promotion can apply to a cart in a currency. Promotions holding
+// amounts (a subtotal condition, a fixed discount or subtotal tiers) are limited to their currency.
+promotionSchema.methods.appliesToCurrency = function(currency: string): boolean {
+  const holdsAmounts = this.conditions.some((condition: IPromotionCondition) => condition.type === 'subtotal') ||
+    this.actions.some((action: IPromotionAction) =>
+      action.type === 'fixed' || (action.tiers.length > 0 && action.tierBasis === 'subtotal')
+    );
+  return !holdsAmounts || this.currency === currency.toUpperCase();
+};
+
+const countUnits = (lines: DescribedLine[], matches: boolean[]): number =>
+  lines.reduce((units, line, index) => units + (matches[index] ? line.quantity : 0), 0);
+
+// Segments of the customer. Whether they ordered before is only known for signed-in customers
+// or once the email is given at checkout; cancelled orders don't count.
+const getCustomerSegments = async (context: PromotionContext): Promise<CustomerSegment[]> => {
+  const segments: CustomerSegment[] = [context.userId ? 'registered' : 'guest'];
+
+  if (context.userId || context.email) {
+    segments.push(await Order.hasPreviousOrder(context) ? 'returning_customer' : 'new_customer');
+  }
+  return segments;
+};
+
+const isConditionMet = (
+  condition: IPromotionCondition,
+  lines: DescribedLine[],
+  subtotal: number,
+  segments: CustomerSegment[]
+): boolean => {
+  switch (condition.type) {
+    case 'subtotal':
+      return subtotal >= (condition.minAmount ?? 0);
+    case 'items':
+      return lines.some(line => matchesItemFilter(condition.items, line));
+    case 'quantity':
+      return countUnits(lines, lines.map(line => matchesItemFilter(condition.items, line))) >= (condition.minQuantity ?? 0);
+    case 'customer_segment':
+      return condition.segments.some(segment => segments.includes(segment));
+  }
+};
+
+// The action's value, or that of the highest tier reached by the lines it applies to
+const getActionValue = (
+  action: IPromotionAction,
+  lines: DescribedLine[],
+  eligible: boolean[],
+  currency: string
+): number | undefined => {
+  if (action.tiers.length === 0) {
+    return action.value;
+  }
+
+  const reached = action.tierBasis === 'quantity'
+    ? countUnits(lines, eligible)
+    : sumMoney(lines.map((line, index) => eligible[index] ? multiplyMoney(line.price, line.quantity, currency) : 0), currency);
+  return [...action.tiers].sort((a, b) => b.min - a.min).find(tier => reached >= tier.min)?.value;
+};
+
+// The cheapest matching units are the ones discounted
+const getBuyXGetYAmounts = (
+  action: IPromotionAction,
+  lines: DescribedLine[],
+  eligible: boolean[],
+  remaining: number[],
+  currency: string
+): number[] => {
+  const buyQuantity = action.buyQuantity ?? 1;
+  const getQuantity = action.getQuantity ?? 1;
+  let discountedUnits = Math.floor(countUnits(lines, eligible) / (buyQuantity + getQuantity)) * getQuantity;
+
+  const amounts = lines.map(() => 0);
+  const cheapestFirst = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ index }) => eligible[index])
+    .sort((a, b) => a.line.price - b.line.price);
+
+  for (const { line, index } of cheapestFirst) {
+    if (discountedUnits <= 0) break;
+    const units = Math.min(discountedUnits, line.quantity);
+    discountedUnits -= units;
+    const unitDiscount = percentageOf(line.price, action.getPercent ?? 100, currency);
+    amounts[index] = Math.min(multiplyMoney(unitDiscount, units, currency), remaining[index] ?? 0);
+  }
+  return amounts;
+};
+
+// Discount of an action on each line, never more than what is left of the line
+const getActionAmounts = (
+  action: IPromotionAction,
+  lines: DescribedLine[],
+  remaining: number[],
+  currency: string
+): number[] => {
+  const eligible = lines.map(line =>
+    (action.type === 'buy_x_get_y' || action.target === 'items') ? matchesItemFilter(action.items, line) : true
+  );
+  const none = lines.map(() => 0);
+
+  if (action.type === 'free_shipping') {
+    return none;
+  }
+  if (action.type === 'buy_x_get_y') {
+    return getBuyXGetYAmounts(action, lines, eligible, remaining, currency);
+  }
+
+  const value = getActionValue(action, lines, eligible, currency);
+  if (!value) {
+    return none;
+  }
+
+  if (action.target === 'items') {
+    return lines.map((line, index) => {
+      if (!eligible[index]) return 0;
+      const left = remaining[index] ?? 0;
+      return action.type === 'percentage'
+        ? percentageOf(left, value, currency)
+        : Math.min(multiplyMoney(value, line.quantity, currency), left);
+    });
+  }
+
+  // Order discounts are split across the lines in proportion to what is left of them
+  const left = sumMoney(remaining, currency);
+  const amount = action.type === 'percentage' ? percentageOf(left, value, currency) : Math.min(value, left);
+  return allocateProportionally(amount, remaining, currency);
+};
+
+// Static method to find the promotions running now, highest priority first
+(promotionSchema.statics as any).findActive = async function() {
+  const now = new Date();
+  return this.find({
+    isActive: true,
+    validFrom: { $lte: now },
+    $or: [{ validTo: { $exists: false } }, { validTo: null }, { validTo: { $gte: now } }],
+  }).sort({ priority: -1, createdAt: 1 });
+};
+
+/**
+ * Static method to work out the discounts of cart lines. Active promotions are tried highest
+ * priority first and apply when all their conditions hold; each one discounts what the ones
+ * before it left of the lines. An exclusive promotion only applies when no other promotion
+ * did, and ends the evaluation. The promo code, if any, comes last and discounts what is left
+ * of the lines it applies to, unless an exclusive promotion applied.
+ */
+(promotionSchema.statics as any).evaluate = async function(lines: PromotionLine[], context: PromotionContext) {
+  const { currency } = context;
+
+  const products = await Product.find({ _id: { $in: lines.map(line => line.productId) } }, 'category brand');
+  const described: DescribedLine[] = lines.map(line => {
+    const product = products.find(candidate => String(candidate._id) === String(line.productId));
+    return {
+      productId: line.productId,
+      variantId: line.variantId,
+      sku: line.sku,
+      price: line.price,
+      quantity: line.quantity,
+      category: product?.category ?? '',
+      brand: product?.brand ?? '',
+    };
+  });
+
+  const lineTotals = described.map(line => multiplyMoney(line.price, line.quantity, currency));
+  const subtotal = sumMoney(lineTotals, currency);
+  // What is left of each line after the discounts applied so far
+  const remaining = [...lineTotals];
+  const lineDiscounts: ILineDiscount[][] = described.map(() => []);
+  const promotions: IAppliedPromotion[] = [];
+  let segments: CustomerSegment[] | undefined;
+  let exclusive: IPromotion | undefined;
+
+  const record = (amounts: number[], source: Pick<ILineDiscount, 'promotionId' | 'promoCode' | 'name'>) => {
+    amounts.forEach((amount, index) => {
+      if (amount > 0) {
+        lineDiscounts[index]?.push({ ...source, amount });
+        remaining[index] = sumMoney([remaining[index] ?? 0, -amount], currency);
+      }
+    });
+  };
+
+  for (const promotion of await (this as IPromotionModel).findActive()) {
+    if (!promotion.appliesToCurrency(currency) || (promotion.exclusive && promotions.length > 0)) {
+      continue;
+    }
+    if (!segments && promotion.conditions.some(condition => condition.type === 'customer_segment')) {
+      segments = await getCustomerSegments(context);
+    }
+    if (!promotion.conditions.every(condition => isConditionMet(condition, described, subtotal, segments ?? []))) {
+      continue;
+    }
+
+    // Each action discounts what the previous ones left
+    const before = [...remaining];
+    const source = { promotionId: promotion._id as mongoose.Types.ObjectId, name: promotion.name };
+    for (const action of promotion.actions) {
+      record(getActionAmounts(action, described, remaining, currency), source);
+    }
+    const amount = sumMoney(before.map((left, index) => left - (remaining[index] ?? 0)), currency);
+    const freeShipping = promotion.actions.some(action => action.type === 'free_shipping');
+
+    if (amount <= 0 && !freeShipping) {
+      continue;
+    }
+    promotions.push({ ...source, amount, freeShipping });
+
+    if (promotion.exclusive) {
+      exclusive = promotion;
+      break;
+    }
+  }
+
+  let promoCodeBlockedBy: string | undefined;
+  if (context.promoCode && exclusive) {
+    promoCodeBlockedBy = exclusive.name;
+  } else if (context.promoCode) {
+    const { promoCode } = context;
+    const code = promoCode.code;
+    // Scoped codes only discount what is left of the lines they apply to
+    const eligibleRemaining = described.map((line, index) =>
+      promoCode.checkLine(line).eligible ? remaining[index] ?? 0 : 0
+    );
+    const amount = promoCode.calculateDiscount(
+      sumMoney(remaining, currency),
+      currency,
+      sumMoney(eligibleRemaining, currency)
+    );
+    if (amount > 0) {
+      record(allocateProportionally(amount, eligibleRemaining, currency), { promoCode: code, name: code });
+      promotions.push({ promoCode: code, name: code, amount, freeShipping: false });
+    }
+  }
+
+  return {
+    discount: sumMoney(promotions.map(promotion => promotion.amount), currency),
+    freeShipping: promotions.some(promotion => promotion.freeShipping),
+    promotions,
+    lines: lineDiscounts.map(discounts => ({
+      discount: sumMoney(discounts.map(discount => discount.amount), currency),
+      discounts,
+    })),
+    ...(promoCodeBlockedBy && { promoCodeBlockedBy }),
+  };
+};
+
+export const Promotion = mongoose.model<IPromotion, IPromotionModel>('Promotion', promotionSchema);
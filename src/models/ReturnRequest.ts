@@ -0,0 +1,175 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { createAppError } from '../middleware/errorHandler';
+import { IStatusActor } from './Order';
+import { moneyField, moneySchemaOptions } from '../utils/money';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'accepted';
+
+export type ReturnReason = 'damaged' | 'defective' | 'wrong_item' | 'not_as_described' | 'no_longer_needed' | 'other';
+
+export const RETURN_REASONS: ReturnReason[] = [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'no_longer_needed',
+  'other',
+];
+
+// Allowed status changes; rejected and accepted are final
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received'],
+  received: ['accepted', 'rejected'],
+  rejected: [],
+  accepted: [],
+};
+
+export interface IReturnItem {
+  itemId: mongoose.Types.ObjectId;
+  quantity: number;
+  reason: ReturnReason;
+  note?: string;
+}
+
+export interface IReturnStatusChange {
+  from?: ReturnStatus;
+  to: ReturnStatus;
+  changedAt: Date;
+  changedBy?: IStatusActor;
+  note?: string;
+}
+
+export interface IReturnTransitionOptions {
+  note?: string;
+  changedBy?: { id: string; email: string; role: string };
+  // Extra fields written together with the status change
+  set?: Record<string, unknown>;
+}
+
+export interface IReturnRequest extends Document {
+  rmaNumber: string;
+  orderId: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  customerEmail: string;
+  items: IReturnItem[];
+  resolution: 'refund' | 'store_credit';
+  restock: boolean;
+  status: ReturnStatus;
+  statusHistory: IReturnStatusChange[];
+  refundAmount?: number;
+  refundId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  transition(status: ReturnStatus, options?: IReturnTransitionOptions): Promise<IReturnRequest>;
+}
+
+// Static methods interface
+export interface IReturnRequestModel extends mongoose.Model<IReturnRequest> {
+  generateRmaNumber(): string;
+}
+
+const returnItemSchema = new Schema<IReturnItem>({
+  itemId: { type: Schema.Types.ObjectId, required: true },
+  quantity: { type: Number, required: true, min: 1 },
+  reason: { type: String, required: true, enum: RETURN_REASONS },
+  note: { type: String },
+}, { _id: false, ...moneySchemaOptions });
+
+const returnStatusChangeSchema = new Schema<IReturnStatusChange>({
+  from: { type: String, enum: Object.keys(RETURN_STATUS_TRANSITIONS) },
+  to: { type: String, required: true, enum: Object.keys(RETURN_STATUS_TRANSITIONS) },
+  changedAt: { type: Date, required: true },
+  changedBy: {
+    userId: { type: Schema.Types.ObjectId, ref: 'User' },
+    email: { type: String },
+    role: { type: String },
+  },
+  note: { type: String },
+}, { _id: false, ...moneySchemaOptions });
+
+const returnRequestSchema = new Schema<IReturnRequest>({
+  rmaNumber: { type: String, required: true, unique: true },
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order', required: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User' },
+  customerEmail: { type: String, required: true },
+  items: {
+    type: [returnItemSchema],
+    validate: [(items: IReturnItem[]) => items.length > 0, 'A return needs at least one item'],
+  },
+  resolution: { type: String, required: true, enum: ['refund', 'store_credit'], default: 'refund' },
+  restock: { type: Boolean, default: true },
+  status: {
+    type: String,
+    required: true,
+    enum: Object.keys(RETURN_STATUS_TRANSITIONS),
+    default: 'requested'
+  },
+  statusHistory: [returnStatusChangeSchema],
+  refundAmount: moneyField(),
+  refundId: { type: Schema.Types.ObjectId },
+}, {
+  timestamps: true,
+  ...moneySchemaOptions,
+});
+
+// Indexes for better query performance
+returnRequestSchema.index({ orderId: 1, createdAt: -1 });
+returnRequestSchema.index({ status: 1, createdAt: -1 });
+
+// Pre-validate middleware to generate the RMA number and start the status history
+returnRequestSchema.pre('validate', function(next) {
+  if (this.isNew && !this.rmaNumber) {
+    this.rmaNumber = (this.constructor as IReturnRequestModel).generateRmaNumber();
+  }
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({ to: this.status, changedAt: new Date() });
+  }
+  next();
+});
+
+// Static method to generate unique RMA number
+(returnRequestSchema.statics as any).generateRmaNumber = function(): string {
+  const timestamp = Date.now().toString();
+  const random = Math.random().toString(36).substr(2, 5).toUpperCase();
+  return `RMA-${timestamp}-${random}`;
+};
+
+// Instance method to move the return along the status graph.
+// Conditional on the current status, so concurrent changes can't both apply.
+returnRequestSchema.methods.transition = async function(status: ReturnStatus, options: IReturnTransitionOptions = {}) {
+  const from = this.status as ReturnStatus;
+
+  if (!RETURN_STATUS_TRANSITIONS[from].includes(status)) {
+    throw createAppError(`Cannot change return status from ${from} to ${status}`, 409);
+  }
+
+  const change: IReturnStatusChange = { from, to: status, changedAt: new Date() };
+  if (options.changedBy) {
+    change.changedBy = {
+      userId: new mongoose.Types.ObjectId(options.changedBy.id),
+      email: options.changedBy.email,
+      role: options.changedBy.role,
+    };
+  }
+  if (options.note) change.note = options.note;
+
+  const model = this.constructor as IReturnRequestModel;
+  const updated = await model.findOneAndUpdate(
+    { _id: this._id, status: from },
+    {
+      $set: { status, ...options.set },
+      $push: { statusHistory: change },
+    },
+    { new: true }
+  );
+
+  if (!updated) {
+    throw createAppError('Return status was changed concurrently', 409);
+  }
+  return updated;
+};
+
+export const ReturnRequest = mongoose.model<IReturnRequest, IReturnRequestModel>('ReturnRequest', returnRequestSchema);
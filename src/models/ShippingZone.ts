@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IAddress } from './Order';
+import { moneyField, moneySchemaOptions } from '../utils/money';
+
+export type ShippingMethodType = 'standard' | 'express' | 'pickup';
+
+// How a method's price is found: a fixed fee, or the tier matching the parcel weight or order subtotal
+export type ShippingRateType = 'flat' | 'weight' | 'subtotal';
+
+export interface IShippingRateTier {
+  // Lower bound (kg or order subtotal) from which the tier applies
+  min: number;
+  price: number;
+}
+
+export interface IShippingMethod {
+  code: string;
+  name: string;
+  type: ShippingMethodType;
+  rateType: ShippingRateType;
+  flatRate?: number;
+  tiers: IShippingRateTier[];
+  // Orders with at least this subtotal (after discount) ship free with this method
+  freeShippingThreshold?: number;
+  estimatedDays?: { min: number; max: number };
+  isActive: boolean;
+}
+
+export interface IShippingRegion {
+  country: string;
+  // Omitted for regions covering the whole country
+  state?: string;
+}
+
+export interface IShippingZone extends Document {
+  name: string;
+  regions: IShippingRegion[];
+  methods: IShippingMethod[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface IShippingZoneModel extends mongoose.Model<IShippingZone> {
+  findForAddress(address: Pick<IAddress, 'country' | 'state'>): Promise<IShippingZone | null>;
+}
+
+const shippingMethodSchema = new Schema<IShippingMethod>({
+  code: { type: String, required: true, lowercase: true, trim: true },
+  name: { type: String, required: true },
+  type: { type: String, required: true, enum: ['standard', 'express', 'pickup'] },
+  rateType: { type: String, required: true, enum: ['flat', 'weight', 'subtotal'], default: 'flat' },
+  flatRate: moneyField(),
+  tiers: [new Schema<IShippingRateTier>({
+    // Weights are stored as exact decimals too
+    min: moneyField({ required: true }),
+    price: moneyField({ required: true }),
+  }, { _id: false, ...moneySchemaOptions })],
+  freeShippingThreshold: moneyField(),
+  estimatedDays: {
+    min: { type: Number, min: 0 },
+    max: { type: Number, min: 0 },
+  },
+  isActive: { type: Boolean, default: true },
+}, { _id: false, ...moneySchemaOptions });
+
+const shippingZoneSchema = new Schema<IShippingZone>({
+  name: { type: String, required: true },
+  regions: [{
+    _id: false,
+    country: { type: String, required: true, uppercase: true, trim: true },
+    state: { type: String, uppercase: true, trim: true },
+  }],
+  methods: [shippingMethodSchema],
+  isActive: { type: Boolean, default: true },
+}, {
+  timestamps: true,
+  ...moneySchemaOptions,
+});
+
+// Indexes for better query performance
+shippingZoneSchema.index({ 'regions.country': 1, isActive: 1 });
+
+// Static method to find the zone an address ships in. A zone listing the address's state
+// beats a zone covering the whole country.
+(shippingZoneSchema.statics as any).findForAddress = async function(address: Pick<IAddress, 'country' | 'state'>) {
+  const country = address.country.trim().toUpperCase();
+  const state = address.state.trim().toUpperCase();
+
+  const zones: IShippingZone[] = await this.find({ 'regions.country': country, isActive: true }).sort({ createdAt: 1 });
+
+  const byState = zones.find(zone => zone.regions.some(region => region.country === country && region.state === state));
+  if (byState) {
+    return byState;
+  }
+  return zones.find(zone => zone.regions.some(region => region.country === country && !region.state)) ?? null;
+};
+
+export const ShippingZone = mongoose.model<IShippingZone, IShippingZoneModel>('ShippingZone', shippingZoneSchema);
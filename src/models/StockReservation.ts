@@ -0,0 +1,194 @@
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+import { Product } from './Product';
+import { createAppError } from '../middleware/errorHandler';
+
+export interface IReservationItem {
+  productId: mongoose.Types.ObjectId;
+  variantId: string;
+  quantity: number;
+  productName?: string;
+  variantName?: string;
+}
+
+export interface IStockReservation extends Document {
+  items: IReservationItem[];
+  orderId?: mongoose.Types.ObjectId;
+  status: 'active' | 'committed' | 'released';
+  expiresAt: Date;
+  committedAt?: Date;
+  releasedAt?: Date;
+  releaseReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  commit(session?: ClientSession): Promise<IStockReservation>;
+  release(reason: string, session?: ClientSession): Promise<boolean>;
+}
+
+export interface IReserveOptions {
+  ttlMinutes?: number;
+  session?: ClientSession;
+}
+
+// Static methods interface
+export interface IStockReservationModel extends mongoose.Model<IStockReservation> {
+  reserve(items: IReservationItem[], options?: IReserveOptions): Promise<IStockReservation>;
+  releaseExpired(): Promise<number>;
+}
+
+const reservationItemSchema = new Schema<IReservationItem>({
+  productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+  variantId: { type: String, required: true },
+  quantity: { type: Number, required: true, min: 1 },
+  productName: { type: String },
+  variantName: { type: String },
+}, { _id: false });
+
+const stockReservationSchema = new Schema<IStockReservation>({
+  items: [reservationItemSchema],
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order' },
+  status: {
+    type: String,
+    required: true,
+    enum: ['active', 'committed', 'released'],
+    default: 'active'
+  },
+  expiresAt: { type: Date, required: true },
+  committedAt: { type: Date },
+  releasedAt: { type: Date },
+  releaseReason: { type: String },
+}, {
+  timestamps: true,
+});
+
+// Indexes for better query performance
+stockReservationSchema.index({ status: 1, expiresAt: 1 });
+stockReservationSchema.index({ orderId: 1 });
+
+const getReservationTtlMinutes = (): number => parseInt(process.env.RESERVATION_TTL_MINUTES || '30');
+
+// Takes stock for every item, rolling back what was already taken if any item is short
+const takeStock = async (items: IReservationItem[], session?: ClientSession): Promise<void> => {
+  const taken: IReservationItem[] = [];
+
+  for (const item of items) {
+    const ok = await Product.decrementVariantStock(item.productId.toString(), item.variantId, item.quantity, session);
+    if (!ok) {
+      await restoreStock(taken, session);
+      const label = item.productName ? `${item.productName} - ${item.variantName}` : item.variantId;
+      throw createAppError(`Insufficient stock for ${label}`, 400);
+    }
+    taken.push(item);
+  }
+};
+
+const restoreStock = async (items: IReservationItem[], session?: ClientSession): Promise<void> => {
+  for (const item of items) {
+    await Product.incrementVariantStock(item.productId.toString(), item.variantId, item.quantity, session);
+  }
+};
+
+// Static method to reserve stock for a set of items
+(stockReservationSchema.statics as any).reserve = async function(
+  items: IReservationItem[],
+  options: IReserveOptions = {}
+) {
+  const { ttlMinutes = getReservationTtlMinutes(), session } = options;
+
+  await takeStock(items, session);
+
+  try {
+    const [reservation] = await this.create([{
+      items,
+      status: 'active',
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    }], { session });
+    return reservation;
+  } catch (error) {
+    await restoreStock(items, session);
+    throw error;
+  }
+};
+
+// Static method to release every active reservation past its expiry
+(stockReservationSchema.statics as any).releaseExpired = async function(): Promise<number> {
+  const expired = await this.find({ status: 'active', expiresAt: { $lte: new Date() } });
+
+  let released = 0;
+  for (const reservation of expired) {
+    if (await reservation.release('expired')) {
+      released += 1;
+    }
+  }
+  return released;
+};
+
+// Instance method to make the reservation permanent once payment succeeds.
+// A reservation that already expired is re-taken if the stock is still available.
+stockReservationSchema.methods.commit = async function(session?: ClientSession) {
+  if (this.status === 'committed') {
+    return this;
+  }
+
+  const model = this.constructor as IStockReservationModel;
+
+  if (this.status === 'released') {
+    if (this.releaseReason !== 'expired') {
+      throw createAppError('Reservation has been released', 409);
+    }
+
+    try {
+      await takeStock(this.items, session);
+    } catch {
+      throw createAppError('Reserved stock has expired and is no longer available', 409);
+    }
+
+    const retaken = await model.findOneAndUpdate(
+      { _id: this._id, status: 'released', releaseReason: 'expired' },
+      { status: 'committed', committedAt: new Date() },
+      { new: true, session: session ?? null }
+    );
+    if (!retaken) {
+      // Someone else changed the reservation in the meantime
+      await restoreStock(this.items, session);
+      throw createAppError('Reservation was modified concurrently', 409);
+    }
+    return retaken;
+  }
+
+  const committed = await model.findOneAndUpdate(
+    { _id: this._id, status: 'active' },
+    { status: 'committed', committedAt: new Date() },
+    { new: true, session: session ?? null }
+  );
+  if (!committed) {
+    throw createAppError('Reservation was modified concurrently', 409);
+  }
+  return committed;
+};
+
+// Instance method to give the reserved stock back.
+// The status change is conditional, so only one caller ever restocks a reservation.
+stockReservationSchema.methods.release = async function(reason: string, session?: ClientSession): Promise<boolean> {
+  const model = this.constructor as IStockReservationModel;
+
+  const released = await model.findOneAndUpdate(
+    { _id: this._id, status: { $in: ['active', 'committed'] } },
+    { status: 'released', releasedAt: new Date(), releaseReason: reason },
+    { new: true, session: session ?? null }
+  );
+
+  if (!released) {
+    return false;
+  }
+
+  await restoreStock(released.items, session);
+  this.status = 'released';
+  return true;
+};
+
+export const StockReservation = mongoose.model<IStockReservation, IStockReservationModel>(
+  'StockReservation',
+  stockReservationSchema
+);
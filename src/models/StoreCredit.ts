@@ -0,0 +1,174 @@
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+import { getBaseCurrency } from '../utils/currency';
+import { moneyField, moneySchemaOptions } from '../utils/money';
+
+export interface IStoreCreditTransaction {
+  type: 'issue' | 'revoke' | 'redeem';
+  amount: number;
+  // What the transaction is for, e.g. "return:<id>"; each reference is applied once
+  reference: string;
+  orderId?: mongoose.Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+}
+
+export interface IStoreCredit extends Document {
+  email: string;
+  userId?: mongoose.Types.ObjectId;
+  balance: number;
+  currency: string;
+  transactions: IStoreCreditTransaction[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IIssueStoreCreditOptions {
+  reference: string;
+  // Credit is kept in one account per currency; defaults to the base currency
+  currency?: string;
+  userId?: mongoose.Types.ObjectId;
+  orderId?: mongoose.Types.ObjectId;
+  note?: string;
+}
+
+// Static methods interface
+export interface IStoreCreditModel extends mongoose.Model<IStoreCredit> {
+  issue(email: string, amount: number, options: IIssueStoreCreditOptions): Promise<IStoreCredit>;
+  revoke(email: string, reference: string): Promise<boolean>;
+  redeem(email: string, amount: number, options: IRedeemStoreCreditOptions): Promise<IStoreCredit | null>;
+}
+
+export interface IRedeemStoreCreditOptions {
+  reference: string;
+  currency: string;
+  orderId?: mongoose.Types.ObjectId | string;
+  session?: ClientSession;
+}
+
+const storeCreditTransactionSchema = new Schema<IStoreCreditTransaction>({
+  type: { type: String, required: true, enum: ['issue', 'revoke', 'redeem'] },
+  amount: moneyField({ required: true }),
+  reference: { type: String, required: true },
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order' },
+  note: { type: String },
+  createdAt: { type: Date, required: true },
+}, { _id: false, ...moneySchemaOptions });
+
+const storeCreditSchema = new Schema<IStoreCredit>({
+  email: { type: String, required: true, lowercase: true, trim: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User' },
+  balance: moneyField({ required: true, default: 0 }),
+  currency: { type: String, required: true, uppercase: true, default: getBaseCurrency },
+  transactions: [storeCreditTransactionSchema],
+}, {
+  timestamps: true,
+  ...moneySchemaOptions,
+});
+
+// Indexes for better query performance
+storeCreditSchema.index({ email: 1, currency: 1 }, { unique: true });
+storeCreditSchema.index({ userId: 1 });
+
+// Static method to add credit to a customer's balance, creating the account on first use.
+// Issuing the same reference twice only credits once.
+(storeCreditSchema.statics as any).issue = async function(
+  email: string,
+  amount: number,
+  options: IIssueStoreCreditOptions
+) {
+  const normalizedEmail = email.toLowerCase().trim();
+  const currency = (options.currency ?? getBaseCurrency()).toUpperCase();
+  const transaction: IStoreCreditTransaction = {
+    type: 'issue',
+    amount,
+    reference: options.reference,
+    createdAt: new Date(),
+    ...(options.orderId && { orderId: options.orderId }),
+    ...(options.note && { note: options.note }),
+  };
+
+  const filter = { email: normalizedEmail, currency, 'transactions.reference': { $ne: options.reference } };
+  const update = {
+    $inc: { balance: amount },
+    $push: { transactions: transaction },
+    ...(options.userId && { $set: { userId: options.userId } }),
+  };
+
+  try {
+    const account = await this.findOneAndUpdate(filter, update, { new: true, upsert: true });
+    return account;
+  } catch (error: any) {
+    if (error?.code !== 11000) {
+      throw error;
+    }
+    // The upsert hit the unique email and currency: the account was created concurrently, or it
+    // already has this reference. Credit the existing account, unless it has the reference.
+    const account = await this.findOneAndUpdate(filter, update, { new: true });
+    return account ?? this.findOne({ email: normalizedEmail, currency });
+  }
+};
+
+// Static method to take back credit issued for a reference, e.g. when the operation it paid for failed.
+// Returns false, and takes nothing, when the customer already spent the credit.
+(storeCreditSchema.statics as any).revoke = async function(email: string, reference: string) {
+  const normalizedEmail = email.toLowerCase().trim();
+  const account = await this.findOne({ email: normalizedEmail, 'transactions.reference': reference });
+  const issued = account?.transactions.find(
+    (transaction: IStoreCreditTransaction) => transaction.reference === reference && transaction.type === 'issue'
+  );
+  if (!issued) {
+    return true;
+  }
+
+  const result = await this.updateOne(
+    {
+      _id: account._id,
+      balance: { $gte: issued.amount },
+      'transactions.reference': { $ne: `revoke:${reference}` },
+    },
+    {
+      $inc: { balance: -issued.amount },
+      $push: { transactions: { type: 'revoke', amount: issued.amount, reference: `revoke:${reference}`, createdAt: new Date() } },
+    }
+  );
+  if (result.modifiedCount > 0) {
+    return true;
+  }
+  // Not taken back now: it was revoked before, or the balance no longer covers it
+  const revoked = await this.exists({ _id: account._id, 'transactions.reference': `revoke:${reference}` });
+  return Boolean(revoked);
+};
+
+// Static method to spend credit, e.g. to pay for an order. Atomic: returns null, and takes
+// nothing, when the balance is below the amount. Redeeming the same reference twice only
+// takes the amount once; credit given back later is issued under a new reference.
+(storeCreditSchema.statics as any).redeem = async function(
+  email: string,
+  amount: number,
+  options: IRedeemStoreCreditOptions
+) {
+  const account = await this.findOneAndUpdate(
+    {
+      email: email.toLowerCase().trim(),
+      currency: options.currency.toUpperCase(),
+      balance: { $gte: amount },
+      'transactions.reference': { $ne: options.reference },
+    },
+    {
+      $inc: { balance: -amount },
+      $push: {
+        transactions: {
+          type: 'redeem',
+          amount,
+          reference: options.reference,
+          ...(options.orderId && { orderId: options.orderId }),
+          createdAt: new Date(),
+        },
+      },
+    },
+    { new: true, session: options.session }
+  );
+  return account;
+};
+
+export const StoreCredit = mongoose.model<IStoreCredit, IStoreCreditModel>('StoreCredit', storeCreditSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Products in categories that no tax class lists are taxed at the standard rates
+export const DEFAULT_TAX_CLASS = 'standard';
+
+export interface ITaxClass extends Document {
+  name: string;
+  description?: string;
+  // Product categories taxed in this class
+  categories: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface ITaxClassModel extends mongoose.Model<ITaxClass> {
+  resolveForCategories(categories: string[]): Promise<Map<string, string>>;
+}
+
+const taxClassSchema = new Schema<ITaxClass>({
+  name: { type: String, required: true, unique: true, lowercase: true, trim: true },
+  description: { type: String },
+  categories: [{ type: String }],
+}, {
+  timestamps: true,
+});
+
+// Indexes for better query performance
+taxClassSchema.index({ categories: 1 });
+
+// Static method to map product categories to their tax class names
+(taxClassSchema.statics as any).resolveForCategories = async function(categories: string[]) {
+  const taxClasses: ITaxClass[] = await this.find({ categories: { $in: categories } });
+
+  const resolved = new Map<string, string>();
+  for (const category of categories) {
+    const taxClass = taxClasses.find(candidate => candidate.categories.includes(category));
+    resolved.set(category, taxClass?.name ?? DEFAULT_TAX_CLASS);
+  }
+  return resolved;
+};
+
+export const TaxClass = mongoose.model<ITaxClass, ITaxClassModel>('TaxClass', taxClassSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IAddress } from './Order';
+
+export interface ITaxRate extends Document {
+  name: string;
+  country: string;
+  // Omitted for rates that apply to the whole country
+  state?: string;
+  // ZIP code prefix, e.g. "100" matches 10001; omitted for rates that apply to the whole state
+  zipCode?: string;
+  taxClass: string;
+  // Percentage, e.g. 8.875
+  rate: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface ITaxRateModel extends mongoose.Model<ITaxRate> {
+  findRate(address: Pick<IAddress, 'country' | 'state' | 'zipCode'>, taxClass: string): Promise<ITaxRate | null>;
+}
+
+const taxRateSchema = new Schema<ITaxRate>({
+  name: { type: String, required: true },
+  country: { type: String, required: true, uppercase: true, trim: true },
+  state: { type: String, uppercase: true, trim: true },
+  zipCode: { type: String, trim: true },
+  taxClass: { type: String, required: true, lowercase: true, trim: true, default: 'standard' },
+  rate: { type: Number, required: true, min: 0, max: 100 },
+  isActive: { type: Boolean, default: true },
+}, {
+  timestamps: true,
+});
+
+// Indexes for better query performance
+taxRateSchema.index({ country: 1, taxClass: 1, isActive: 1 });
+taxRateSchema.index({ country: 1, state: 1, zipCode: 1, taxClass: 1 }, { unique: true });
+
+// How closely a rate matches an address: ZIP code rates beat state rates beat country rates
+const specificity = (rate: ITaxRate): number => {
+  if (rate.zipCode) return 2000 + rate.zipCode.length;
+  if (rate.state) return 1000;
+  return 0;
+};
+
+// Static method to find the most specific active rate of a tax class for an address
+(taxRateSchema.statics as any).findRate = async function(
+  address: Pick<IAddress, 'country' | 'state' | 'zipCode'>,
+  taxClass: string
+) {
+  const state = address.state.trim().toUpperCase();
+  const zipCode = address.zipCode.trim();
+
+  const candidates: ITaxRate[] = await this.find({
+    country: address.country.trim().toUpperCase(),
+    taxClass: taxClass.toLowerCase(),
+    isActive: true,
+  });
+
+  const matching = candidates
+    .filter(rate => (!rate.state || rate.state === state) && (!rate.zipCode || zipCode.startsWith(rate.zipCode)))
+    .sort((a, b) => specificity(b) - specificity(a));
+
+  return matching[0] ?? null;
+};
+
+export const TaxRate = mongoose.model<ITaxRate, ITaxRateModel>('TaxRate', taxRateSchema);
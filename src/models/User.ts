@@ -0,0 +1,152 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { getJwtSecret, UserRole } from '../middleware/auth';
+
+export interface IAuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export interface IUser extends Document {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  isActive: boolean;
+  tokenVersion: number;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  comparePassword(candidate: string): Promise<boolean>;
+  generateAuthTokens(): IAuthTokens;
+  revokeRefreshTokens(): Promise<IUser>;
+}
+
+// Static methods interface
+export interface IUserModel extends mongoose.Model<IUser> {
+  findByCredentials(email: string, password: string): Promise<IUser | null>;
+  findByRefreshToken(refreshToken: string): Promise<IUser | null>;
+}
+
+interface RefreshTokenPayload extends jwt.JwtPayload {
+  sub: string;
+  type: 'refresh';
+  tokenVersion: number;
+}
+
+const getRefreshSecret = (): string => process.env.JWT_REFRESH_SECRET || getJwtSecret();
+
+const userSchema = new Schema<IUser>({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  password: {
+    type: String,
+    required: true,
+    minlength: 8,
+    select: false
+  },
+  firstName: { type: String, required: true },
+  lastName: { type: String, required: true },
+  role: {
+    type: String,
+    required: true,
+    enum: ['admin', 'support', 'customer'],
+    default: 'customer'
+  },
+  isActive: { type: Boolean, default: true },
+  tokenVersion: { type: Number, default: 0 },
+  lastLoginAt: { type: Date },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: (_doc, ret: any) => {
+      delete ret.password;
+      delete ret.tokenVersion;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+userSchema.index({ role: 1, isActive: 1 });
+
+// Pre-save middleware to hash the password
+userSchema.pre('save', async function(next) {
+  if (!this.isModified('password')) {
+    return next();
+  }
+
+  this.password = await bcrypt.hash(this.password, 12);
+  next();
+});
+
+// Instance method to check a plain-text password against the stored hash
+userSchema.methods.comparePassword = function(candidate: string): Promise<boolean> {
+  return bcrypt.compare(candidate, this.password);
+};
+
+// Instance method to issue an access/refresh token pair
+userSchema.methods.generateAuthTokens = function(): IAuthTokens {
+  const expiresIn = process.env.JWT_EXPIRES_IN || '7d';
+
+  const accessToken = jwt.sign(
+    { sub: this._id.toString(), email: this.email, role: this.role, type: 'access' },
+    getJwtSecret(),
+    { expiresIn: expiresIn as NonNullable<jwt.SignOptions['expiresIn']> }
+  );
+
+  const refreshToken = jwt.sign(
+    { sub: this._id.toString(), type: 'refresh', tokenVersion: this.tokenVersion },
+    getRefreshSecret(),
+    { expiresIn: (process.env.JWT_REFRESH_EXPIRES_IN || '30d') as NonNullable<jwt.SignOptions['expiresIn']> }
+  );
+
+  return { accessToken, refreshToken, expiresIn };
+};
+
+// Instance method to invalidate every refresh token issued so far
+userSchema.methods.revokeRefreshTokens = async function() {
+  this.tokenVersion += 1;
+  return this.save();
+};
+
+// Static method to find an active user by email and password
+(userSchema.statics as any).findByCredentials = async function(email: string, password: string) {
+  const user = await this.findOne({ email: email.toLowerCase(), isActive: true }).select('+password');
+
+  if (!user || !(await user.comparePassword(password))) {
+    return null;
+  }
+
+  return user;
+};
+
+// Static method to resolve the user a refresh token was issued to
+(userSchema.statics as any).findByRefreshToken = async function(refreshToken: string) {
+  const payload = jwt.verify(refreshToken, getRefreshSecret()) as RefreshTokenPayload;
+
+  if (payload.type !== 'refresh') {
+    return null;
+  }
+
+  const user = await this.findOne({ _id: payload.sub, isActive: true });
+
+  // Tokens issued before the last revocation are no longer accepted
+  if (!user || user.tokenVersion !== payload.tokenVersion) {
+    return null;
+  }
+
+  return user;
+};
+
+export const User = mongoose.model<IUser, IUserModel>('User', userSchema);
@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWebhookEvent extends Document {
+  provider: string;
+  eventId: string;
+  type: string;
+  intentId: string;
+  orderId?: mongoose.Types.ObjectId;
+  // Set while the event is being applied; removed once it was
+  processing?: boolean;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface IWebhookEventModel extends mongoose.Model<IWebhookEvent> {
+  record(event: { provider: string; id: string; type: string; intentId: string }): Promise<IWebhookEvent | null>;
+  markProcessed(id: mongoose.Types.ObjectId | string, orderId?: mongoose.Types.ObjectId | string): Promise<void>;
+  isProcessing(event: { provider: string; id: string }): Promise<boolean>;
+}
+
+const webhookEventSchema = new Schema<IWebhookEvent>({
+  provider: { type: String, required: true },
+  eventId: { type: String, required: true },
+  type: { type: String, required: true },
+  intentId: { type: String, required: true },
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order' },
+  processing: { type: Boolean },
+  expiresAt: { type: Date, required: true },
+}, {
+  timestamps: true,
+});
+
+// Indexes for better query performance
+webhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+webhookEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+
+// Providers retry deliveries for days, so remember events well beyond that
+const getRetentionDays = (): number => parseInt(process.env.WEBHOOK_EVENT_RETENTION_DAYS || '30');
+
+// How long an event can be processing before a redelivery takes it over, e.g. after a restart
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Static method to record an event as received and being processed.
+// Returns null if it was recorded before, i.e. the delivery is a duplicate.
+(webhookEventSchema.statics as any).record = async function(event: {
+  provider: string;
+  id: string;
+  type: string;
+  intentId: string;
+}) {
+  try {
+    const received = await this.create({
+      provider: event.provider,
+      eventId: event.id,
+      type: event.type,
+      intentId: event.intentId,
+      processing: true,
+      expiresAt: new Date(Date.now() + getRetentionDays() * 24 * 60 * 60 * 1000),
+    });
+    return received;
+  } catch (error: any) {
+    if (error?.code !== 11000) {
+      throw error;
+    }
+    // Processing that never finished is taken over by the redelivery
+    const abandoned = await this.findOneAndUpdate(
+      {
+        provider: event.provider,
+        eventId: event.id,
+        processing: true,
+        updatedAt: { $lt: new Date(Date.now() - PROCESSING_TIMEOUT_MS) },
+      },
+      { $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return abandoned;
+  }
+};
+
+// Static method to mark a recorded event as processed
+(webhookEventSchema.statics as any).markProcessed = async function(
+  id: mongoose.Types.ObjectId | string,
+  orderId?: mongoose.Types.ObjectId | string
+) {
+  await this.updateOne({ _id: id }, { $unset: { processing: 1 }, ...(orderId && { $set: { orderId } }) });
+};
+
+// Static method to check whether a duplicate delivery arrived while the event is still being processed
+(webhookEventSchema.statics as any).isProcessing = async function(event: { provider: string; id: string }) {
+  const processing = await this.exists({ provider: event.provider, eventId: event.id, processing: true });
+  return Boolean(processing);
+};
+
+export const WebhookEvent = mongoose.model<IWebhookEvent, IWebhookEventModel>('WebhookEvent', webhookEventSchema);
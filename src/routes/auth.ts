@@ -0,0 +1,392 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { User } from '../models/User';
+import { Cart } from '../models/Cart';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { isAppError } from '../middleware/errorHandler';
+import { loginSchema, registerSchema, refreshTokenSchema, createUserSchema } from '../validation/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/auth/register:
+ *   post:
+ *     summary: Register a customer account
+ *     description: If cartToken is provided, the guest cart is attached to the new account.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RegisterInput'
+ *     responses:
+ *       201:
+ *         description: Account created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthResult'
+ *       400:
+ *         description: Invalid request data
+ *       409:
+ *         description: Email already registered
+ */
+router.post('/register', async (req: Request, res: Response) => {
+  try {
+    const { cartToken, ...userData } = registerSchema.parse(req.body);
+
+    const existingUser = await User.findOne({ email: userData.email.toLowerCase() });
+    if (existingUser) {
+      return res.status(409).json({
+        success: false,
+        error: 'Email already registered'
+      });
+    }
+
+    const user = new User({ ...userData, role: 'customer' });
+    await user.save();
+
+    const cart = await Cart.attachToUser(String(user._id), cartToken);
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        user,
+        tokens: user.generateAuthTokens(),
+        cart
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    // The cart could not be attached, e.g. it was changed by another request meanwhile
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error registering user:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to register'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *   post:
+ *     summary: Log in with email and password
+ *     description: >
+ *       If cartToken is provided, the guest cart is attached to the user and merged
+ *       with the cart previously saved for that user.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LoginInput'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthResult'
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Invalid email or password
+ */
+router.post('/login', async (req: Request, res: Response) => {
+  try {
+    const { email, password, cartToken } = loginSchema.parse(req.body);
+
+    const user = await User.findByCredentials(email, password);
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid email or password'
+      });
+    }
+
+    user.lastLoginAt = new Date();
+    await user.save();
+
+    const cart = await Cart.attachToUser(String(user._id), cartToken);
+
+    return res.json({
+      success: true,
+      data: {
+        user,
+        tokens: user.generateAuthTokens(),
+        cart
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    // The cart could not be attached, e.g. it was changed by another request meanwhile
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error logging in:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to log in'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new token pair
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthResult'
+ *       401:
+ *         description: Invalid, expired or revoked refresh token
+ */
+router.post('/refresh', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+    const user = await User.findByRefreshToken(refreshToken);
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid refresh token'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        user,
+        tokens: user.generateAuthTokens()
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (error instanceof Error && ['JsonWebTokenError', 'TokenExpiredError'].includes(error.name)) {
+      return next(error);
+    }
+
+    console.error('Error refreshing token:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to refresh token'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Revoke all refresh tokens of the current user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out
+ *       401:
+ *         description: Authentication required
+ */
+router.post('/logout', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user?.id);
+    if (user) {
+      await user.revokeRefreshTokens();
+    }
+
+    return res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to log out'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     summary: Get the current user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findOne({ _id: req.user?.id, isActive: true });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: user
+    });
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch current user'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/users:
+ *   post:
+ *     summary: Create a user account with a given role
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateUserInput'
+ *     responses:
+ *       201:
+ *         description: User created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Invalid request data
+ *       409:
+ *         description: Email already registered
+ */
+router.post('/users', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const userData = createUserSchema.parse(req.body);
+
+    const existingUser = await User.findOne({ email: userData.email.toLowerCase() });
+    if (existingUser) {
+      return res.status(409).json({
+        success: false,
+        error: 'Email already registered'
+      });
+    }
+
+    const user = new User(userData);
+    await user.save();
+
+    return res.status(201).json({
+      success: true,
+      data: user
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    console.error('Error creating user:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create user'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,372 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { Campaign } from '../models/Campaign';
+import { PromoCode } from '../models/PromoCode';
+import { authenticate, authorize } from '../middleware/auth';
+import { isAppError } from '../middleware/errorHandler';
+import { createCampaign, setCampaignActive } from '../services/campaigns';
+import { campaignSchema } from '../validation/schemas';
+
+const router = Router();
+
+const CSV_COLUMNS = ['code', 'isActive', 'usedCount', 'maxUses', 'validFrom', 'validTo'];
+
+/**
+ * @swagger
+ * /api/campaigns:
+ *   get:
+ *     summary: Get campaigns
+ *     description: Campaigns group promo codes generated in bulk, newest first.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of campaigns
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Campaign'
+ */
+router.get('/', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const campaigns = await Campaign.find().sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: campaigns
+    });
+  } catch (error) {
+    console.error('Error fetching campaigns:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch campaigns'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/campaigns:
+ *   post:
+ *     summary: Create a campaign and generate its promo codes
+ *     description: Generates `count` unique codes, each the template's prefix followed by `length` random characters of its alphabet, sharing the same rules. Codes already taken are never reused. Campaign codes are single-use (maxUses 1) unless the rules say otherwise.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CampaignInput'
+ *     responses:
+ *       201:
+ *         description: Campaign created with its codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Campaign'
+ *       400:
+ *         description: Invalid request data, or the template allows too few distinct codes
+ *       409:
+ *         description: Not enough unique codes could be generated
+ */
+router.post('/', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const campaignData = campaignSchema.parse(req.body);
+    const campaign = await createCampaign(campaignData);
+
+    return res.status(201).json({
+      success: true,
+      data: campaign
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error creating campaign:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create campaign'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/campaigns/{id}:
+ *   get:
+ *     summary: Get a campaign with the usage of its codes
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Campaign ID
+ *     responses:
+ *       200:
+ *         description: Campaign details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     campaign:
+ *                       $ref: '#/components/schemas/Campaign'
+ *                     stats:
+ *                       $ref: '#/components/schemas/CampaignStats'
+ *       404:
+ *         description: Campaign not found
+ */
+router.get('/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID'
+      });
+    }
+
+    const campaign = await Campaign.findById(id);
+
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: 'Campaign not found'
+      });
+    }
+
+    const stats = await Campaign.getStats(String(campaign._id));
+
+    return res.json({
+      success: true,
+      data: {
+        campaign,
+        stats
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching campaign:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch campaign'
+    });
+  }
+});
+
+// Shared by the activate and deactivate routes
+const updateCampaignActive = (isActive: boolean) => async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID'
+      });
+    }
+
+    const campaign = await setCampaignActive(id as string, isActive);
+
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: 'Campaign not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: campaign
+    });
+  } catch (error) {
+    console.error('Error updating campaign:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update campaign'
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/activate:
+ *   post:
+ *     summary: Activate a campaign and all its codes
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Campaign ID
+ *     responses:
+ *       200:
+ *         description: Campaign activated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Campaign'
+ *       404:
+ *         description: Campaign not found
+ */
+router.post('/:id/activate', authenticate, authorize('admin'), updateCampaignActive(true));
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/deactivate:
+ *   post:
+ *     summary: Deactivate a campaign and all its codes
+ *     description: Deactivated codes can no longer be applied; orders that used them are not affected.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Campaign ID
+ *     responses:
+ *       200:
+ *         description: Campaign deactivated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Campaign'
+ *       404:
+ *         description: Campaign not found
+ */
+router.post('/:id/deactivate', authenticate, authorize('admin'), updateCampaignActive(false));
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/codes/export:
+ *   get:
+ *     summary: Export the codes of a campaign as CSV
+ *     description: One row per code with the columns code, isActive, usedCount, maxUses, validFrom and validTo.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Campaign ID
+ *     responses:
+ *       200:
+ *         description: CSV file of the codes
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Campaign not found
+ */
+router.get('/:id/codes/export', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID'
+      });
+    }
+
+    const campaign = await Campaign.findById(id);
+
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: 'Campaign not found'
+      });
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="campaign-${campaign._id}-codes.csv"`);
+    res.write(`${CSV_COLUMNS.join(',')}\n`);
+
+    // Streamed, campaigns can hold thousands of codes. Codes only contain letters, digits, - and _
+    // and the other columns are numbers, booleans and dates, so no value needs quoting.
+    const cursor = PromoCode.find({ campaignId: campaign._id }).sort({ code: 1 }).lean().cursor();
+    for await (const promoCode of cursor) {
+      res.write(`${[
+        promoCode.code,
+        promoCode.isActive,
+        promoCode.usedCount,
+        promoCode.maxUses ?? '',
+        promoCode.validFrom.toISOString(),
+        promoCode.validTo.toISOString(),
+      ].join(',')}\n`);
+    }
+
+    return res.end();
+  } catch (error) {
+    console.error('Error exporting campaign codes:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to export campaign codes'
+    });
+  }
+});
+
+export default router;
@@ -3,7 +3,9 @@ import { z } from 'zod';
 import { Cart } from '../models/Cart';
 import { Product } from '../models/Product';
 import { PromoCode } from '../models/PromoCode';
-import { cartItemSchema, CartItemInput } from '../validation/schemas';
+import { cartItemSchema, cartOperationsSchema } from '../validation/schemas';
+import { isAppError } from '../middleware/errorHandler';
+import { isSupportedCurrency } from '../utils/currency';
 
 const router = Router();
 
@@ -13,6 +15,8 @@ const router = Router();
  *   post:
  *     summary: Create or get cart
  *     tags: [Cart]
+ *     parameters:
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: false
  *       content:
@@ -23,6 +27,10 @@ const router = Router();
  *               token:
  *                 type: string
  *                 description: Existing cart token (optional)
+ *               currency:
+ *                 type: string
+ *                 example: EUR
+ *                 description: Presentment currency; an existing cart in another currency is repriced
  *     responses:
  *       200:
  *         description: Cart created or retrieved
@@ -35,18 +43,41 @@ const router = Router();
  *                   type: boolean
  *                 data:
  *                   $ref: '#/components/schemas/Cart'
+ *       400:
+ *         description: Unsupported currency or no exchange rate for it
+ *       412:
+ *         description: The cart changed since the version in If-Match
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { token } = req.body;
+    const { token, currency } = req.body;
+    
+    if (currency !== undefined && (typeof currency !== 'string' || !isSupportedCurrency(currency))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unsupported currency'
+      });
+    }
     
     const cart = await Cart.createOrGetCart(token);
+    cart.matchVersion(req.get('If-Match'));
+    if (currency) {
+      await cart.changeCurrency(currency);
+    }
     
+    res.set('ETag', cart.getETag());
     return res.json({
       success: true,
       data: cart
     });
   } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error creating/getting cart:', error);
     return res.status(500).json({
       success: false,
@@ -60,6 +91,7 @@ router.post('/', async (req: Request, res: Response) => {
  * /api/cart/{token}:
  *   get:
  *     summary: Get cart by token
+ *     description: The cart is reconciled with the current products first. Prices are updated, quantities clamped to the stock, and lines of deactivated products, deleted variants or sold out variants flagged `unavailable` (they don't count towards the totals). `changes` lists what changed since the cart was last viewed, so the storefront can show a notice.
  *     tags: [Cart]
  *     parameters:
  *       - in: path
@@ -71,6 +103,11 @@ router.post('/', async (req: Request, res: Response) => {
  *     responses:
  *       200:
  *         description: Cart details
+ *         headers:
+ *           ETag:
+ *             description: Version of the cart; send it as If-Match when changing the cart
+ *             schema:
+ *               type: string
  *         content:
  *           application/json:
  *             schema:
@@ -80,6 +117,10 @@ router.post('/', async (req: Request, res: Response) => {
  *                   type: boolean
  *                 data:
  *                   $ref: '#/components/schemas/Cart'
+ *                 changes:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CartChange'
  *       404:
  *         description: Cart not found
  */
@@ -94,7 +135,7 @@ router.get('/:token', async (req: Request, res: Response) => {
       });
     }
     
-    const cart = await Cart.getCartWithDetails(token);
+    const cart = await Cart.findOne({ token, expiresAt: { $gt: new Date() } });
     
     if (!cart) {
       return res.status(404).json({
@@ -103,11 +144,23 @@ router.get('/:token', async (req: Request, res: Response) => {
       });
     }
     
+    // Prices, stock and availability may have changed since the customer last saw the cart
+    const changes = await cart.revalidate();
+    
+    res.set('ETag', cart.getETag());
     return res.json({
       success: true,
-      data: cart
+      data: await Cart.getCartWithDetails(token),
+      changes
     });
   } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error fetching cart:', error);
     return res.status(500).json({
       success: false,
@@ -116,11 +169,132 @@ router.get('/:token', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/cart/{token}:
+ *   patch:
+ *     summary: Apply a batch of cart operations
+ *     description: Adds, sets and removes several lines in one request, e.g. to re-order or add a bundle. Operations run in order and are applied all-or-nothing; stock is checked once on the resulting quantities and the cart is saved once. If any operation fails the cart is left unchanged and the results say which ones failed and why.
+ *     tags: [Cart]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart token
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - operations
+ *             properties:
+ *               operations:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   $ref: '#/components/schemas/CartOperation'
+ *     responses:
+ *       200:
+ *         description: All operations applied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Cart'
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CartOperationResult'
+ *       400:
+ *         description: Invalid request data, or an operation failed and nothing was applied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 error:
+ *                   type: string
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CartOperationResult'
+ *       404:
+ *         description: Cart not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
+ */
+router.patch('/:token', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params;
+    const { operations } = cartOperationsSchema.parse(req.body);
+
+    // Get cart
+    const cart = await Cart.findOne({ token, expiresAt: { $gt: new Date() } });
+    if (!cart) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cart not found or expired'
+      });
+    }
+    cart.matchVersion(req.get('If-Match'));
+
+    const { applied, results } = await cart.applyOperations(operations);
+    if (!applied) {
+      return res.status(400).json({
+        success: false,
+        error: 'No operations were applied',
+        results
+      });
+    }
+
+    res.set('ETag', cart.getETag());
+    return res.json({
+      success: true,
+      data: cart,
+      results
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error applying cart operations:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to apply cart operations'
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/cart/{token}/items:
  *   post:
  *     summary: Add item to cart
+ *     description: Customization values are checked against the product's customizations and their surcharges added to the unit price. The same variant with different customizations, e.g. another engraving, gets a line of its own.
  *     tags: [Cart]
  *     parameters:
  *       - in: path
@@ -129,6 +303,7 @@ router.get('/:token', async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: Cart token
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
@@ -147,6 +322,16 @@ router.get('/:token', async (req: Request, res: Response) => {
  *               quantity:
  *                 type: integer
  *                 minimum: 1
+ *               customizations:
+ *                 type: object
+ *                 description: Values by customization key, strings for text and select options and booleans for boolean ones
+ *                 additionalProperties:
+ *                   oneOf:
+ *                     - type: string
+ *                     - type: boolean
+ *                 example:
+ *                   engraving: For Sam
+ *                   gift_wrap: true
  *     responses:
  *       200:
  *         description: Item added to cart
@@ -160,9 +345,11 @@ router.get('/:token', async (req: Request, res: Response) => {
  *                 data:
  *                   $ref: '#/components/schemas/Cart'
  *       400:
- *         description: Invalid request or insufficient stock
+ *         description: Invalid request, invalid customizations or insufficient stock
  *       404:
  *         description: Cart or product not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
  */
 router.post('/:token/items', async (req: Request, res: Response) => {
   try {
@@ -177,6 +364,7 @@ router.post('/:token/items', async (req: Request, res: Response) => {
         error: 'Cart not found or expired'
       });
     }
+    cart.matchVersion(req.get('If-Match'));
     
     // Get product and validate
     const product = await Product.findById(itemData.productId);
@@ -204,17 +392,21 @@ router.post('/:token/items', async (req: Request, res: Response) => {
       });
     }
     
-    // Add item to cart
+    // Add item to cart, priced in the cart currency with the surcharges of its customizations
+    const customizations = await product.resolveCustomizations(itemData.customizations ?? {}, cart.currency);
+    const { price } = await product.priceLine(itemData.variantId, cart.currency, customizations);
     await cart.addItem({
       productId: itemData.productId,
       variantId: itemData.variantId,
+      customizations,
       quantity: itemData.quantity,
-      price: variant.price,
+      price,
       productName: product.name,
       variantName: variant.name,
       sku: variant.sku,
     });
     
+    res.set('ETag', cart.getETag());
     return res.json({
       success: true,
       data: cart
@@ -228,6 +420,13 @@ router.post('/:token/items', async (req: Request, res: Response) => {
       });
     }
     
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error adding item to cart:', error);
     return res.status(500).json({
       success: false,
@@ -241,6 +440,7 @@ router.post('/:token/items', async (req: Request, res: Response) => {
  * /api/cart/{token}/items/{productId}/{variantId}:
  *   put:
  *     summary: Update item quantity in cart
+ *     description: With several lines of the variant (different customizations), updates the first; use /api/cart/{token}/lines/{lineId} to pick one.
  *     tags: [Cart]
  *     parameters:
  *       - in: path
@@ -261,6 +461,7 @@ router.post('/:token/items', async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: Variant ID
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
@@ -289,6 +490,8 @@ router.post('/:token/items', async (req: Request, res: Response) => {
  *         description: Invalid quantity or insufficient stock
  *       404:
  *         description: Cart or item not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
  */
 router.put('/:token/items/:productId/:variantId', async (req: Request, res: Response) => {
   try {
@@ -310,6 +513,7 @@ router.put('/:token/items/:productId/:variantId', async (req: Request, res: Resp
         error: 'Cart not found or expired'
       });
     }
+    cart.matchVersion(req.get('If-Match'));
     
     // Check stock if quantity > 0
     if (quantity > 0 && productId && variantId) {
@@ -327,11 +531,19 @@ router.put('/:token/items/:productId/:variantId', async (req: Request, res: Resp
       await cart.updateItemQuantity(productId, variantId, quantity);
     }
     
+    res.set('ETag', cart.getETag());
     return res.json({
       success: true,
       data: cart
     });
   } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error updating item quantity:', error);
     return res.status(500).json({
       success: false,
@@ -345,6 +557,7 @@ router.put('/:token/items/:productId/:variantId', async (req: Request, res: Resp
  * /api/cart/{token}/items/{productId}/{variantId}:
  *   delete:
  *     summary: Remove item from cart
+ *     description: Removes every line of the variant, whatever their customizations.
  *     tags: [Cart]
  *     parameters:
  *       - in: path
@@ -365,6 +578,7 @@ router.put('/:token/items/:productId/:variantId', async (req: Request, res: Resp
  *         schema:
  *           type: string
  *         description: Variant ID
+ *       - $ref: '#/components/parameters/IfMatch'
  *     responses:
  *       200:
  *         description: Item removed from cart
@@ -379,6 +593,8 @@ router.put('/:token/items/:productId/:variantId', async (req: Request, res: Resp
  *                   $ref: '#/components/schemas/Cart'
  *       404:
  *         description: Cart or item not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
  */
 router.delete('/:token/items/:productId/:variantId', async (req: Request, res: Response) => {
   try {
@@ -392,17 +608,26 @@ router.delete('/:token/items/:productId/:variantId', async (req: Request, res: R
         error: 'Cart not found or expired'
       });
     }
+    cart.matchVersion(req.get('If-Match'));
     
     // Remove item
     if (productId && variantId) {
       await cart.removeItem(productId, variantId);
     }
     
+    res.set('ETag', cart.getETag());
     return res.json({
       success: true,
       data: cart
     });
   } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error removing item from cart:', error);
     return res.status(500).json({
       success: false,
@@ -411,6 +636,196 @@ router.delete('/:token/items/:productId/:variantId', async (req: Request, res: R
   }
 });
 
+/**
+ * @swagger
+ * /api/cart/{token}/lines/{lineId}:
+ *   put:
+ *     summary: Update the quantity of a cart line
+ *     description: Lines are told apart by their ID, e.g. two lines of a variant with different engravings. A quantity of 0 removes the line.
+ *     tags: [Cart]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart token
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart line ID (the item's _id)
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quantity
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       200:
+ *         description: Line quantity updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Cart'
+ *       400:
+ *         description: Invalid quantity or insufficient stock
+ *       404:
+ *         description: Cart or line not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
+ */
+router.put('/:token/lines/:lineId', async (req: Request, res: Response) => {
+  try {
+    const { token, lineId } = req.params;
+    const { quantity } = req.body;
+
+    if (typeof quantity !== 'number' || quantity < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Quantity must be a non-negative number'
+      });
+    }
+
+    // Get cart
+    const cart = await Cart.findOne({ token, expiresAt: { $gt: new Date() } });
+    if (!cart) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cart not found or expired'
+      });
+    }
+    cart.matchVersion(req.get('If-Match'));
+
+    const line = (cart.items as any).id(lineId);
+    if (!line) {
+      return res.status(404).json({
+        success: false,
+        error: 'Item not found in cart'
+      });
+    }
+
+    // Check stock if quantity > 0
+    if (quantity > 0) {
+      const product = await Product.findById(line.productId);
+      if (!product || !product.isInStock(line.variantId, quantity)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Insufficient stock'
+        });
+      }
+    }
+
+    await cart.updateLineQuantity(lineId as string, quantity);
+
+    res.set('ETag', cart.getETag());
+    return res.json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error updating cart line quantity:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update item quantity'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/cart/{token}/lines/{lineId}:
+ *   delete:
+ *     summary: Remove a cart line
+ *     tags: [Cart]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart token
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart line ID (the item's _id)
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       200:
+ *         description: Line removed from cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Cart'
+ *       404:
+ *         description: Cart or line not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
+ */
+router.delete('/:token/lines/:lineId', async (req: Request, res: Response) => {
+  try {
+    const { token, lineId } = req.params;
+
+    // Get cart
+    const cart = await Cart.findOne({ token, expiresAt: { $gt: new Date() } });
+    if (!cart) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cart not found or expired'
+      });
+    }
+    cart.matchVersion(req.get('If-Match'));
+
+    await cart.removeLine(lineId as string);
+
+    res.set('ETag', cart.getETag());
+    return res.json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error removing cart line:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove item from cart'
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/cart/{token}/clear:
@@ -424,6 +839,7 @@ router.delete('/:token/items/:productId/:variantId', async (req: Request, res: R
  *         schema:
  *           type: string
  *         description: Cart token
+ *       - $ref: '#/components/parameters/IfMatch'
  *     responses:
  *       200:
  *         description: Cart cleared
@@ -438,6 +854,8 @@ router.delete('/:token/items/:productId/:variantId', async (req: Request, res: R
  *                   $ref: '#/components/schemas/Cart'
  *       404:
  *         description: Cart not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
  */
 router.post('/:token/clear', async (req: Request, res: Response) => {
   try {
@@ -451,15 +869,24 @@ router.post('/:token/clear', async (req: Request, res: Response) => {
         error: 'Cart not found or expired'
       });
     }
+    cart.matchVersion(req.get('If-Match'));
     
     // Clear cart
     await cart.clearCart();
     
+    res.set('ETag', cart.getETag());
     return res.json({
       success: true,
       data: cart
     });
   } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error clearing cart:', error);
     return res.status(500).json({
       success: false,
@@ -473,6 +900,7 @@ router.post('/:token/clear', async (req: Request, res: Response) => {
  * /api/cart/{token}/promo:
  *   post:
  *     summary: Apply promo code to cart
+ *     description: Codes scoped to products, SKUs, categories or brands only discount the items they apply to; `eligibility` tells for every item whether it qualifies and why.
  *     tags: [Cart]
  *     parameters:
  *       - in: path
@@ -481,6 +909,7 @@ router.post('/:token/clear', async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: Cart token
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
@@ -504,10 +933,16 @@ router.post('/:token/clear', async (req: Request, res: Response) => {
  *                   type: boolean
  *                 data:
  *                   $ref: '#/components/schemas/Cart'
+ *                 eligibility:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PromoCodeEligibility'
  *       400:
- *         description: Invalid or expired promo code
+ *         description: Invalid or expired promo code, it applies to no item in the cart (details lists why for each item) or it cannot be combined with an exclusive promotion
  *       404:
  *         description: Cart not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
  */
 router.post('/:token/promo', async (req: Request, res: Response) => {
   try {
@@ -529,9 +964,10 @@ router.post('/:token/promo', async (req: Request, res: Response) => {
         error: 'Cart not found or expired'
       });
     }
+    cart.matchVersion(req.get('If-Match'));
     
     // Find valid promo code
-    const promoCode = await PromoCode.findValidPromoCode(code, cart.subtotal);
+    const promoCode = await PromoCode.findValidPromoCode(code, cart.subtotal, cart.currency);
     if (!promoCode) {
       return res.status(400).json({
         success: false,
@@ -539,17 +975,42 @@ router.post('/:token/promo', async (req: Request, res: Response) => {
       });
     }
     
-    // Calculate discount
-    const discountAmount = promoCode.calculateDiscount(cart.subtotal);
+    // Per-customer limits can be checked once the cart belongs to an account; guests are checked at checkout
+    const customerRestriction = await promoCode.checkCustomer({ ...(cart.userId && { userId: cart.userId }) });
+    if (customerRestriction) {
+      return res.status(400).json({
+        success: false,
+        error: customerRestriction
+      });
+    }
+    
+    // Codes scoped to products, SKUs, categories or brands need an item they apply to
+    const eligibility = await promoCode.getEligibility(cart.items);
+    if (!eligibility.some(line => line.eligible)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Promo code does not apply to any item in the cart',
+        details: eligibility
+      });
+    }
     
-    // Apply promo code
-    await cart.applyPromoCode(code, discountAmount);
+    // Apply promo code; its discount is worked out after the cart's automatic promotions
+    await cart.applyPromoCode(code);
     
+    res.set('ETag', cart.getETag());
     return res.json({
       success: true,
-      data: cart
+      data: cart,
+      eligibility
     });
   } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error applying promo code:', error);
     return res.status(500).json({
       success: false,
@@ -571,6 +1032,7 @@ router.post('/:token/promo', async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: Cart token
+ *       - $ref: '#/components/parameters/IfMatch'
  *     responses:
  *       200:
  *         description: Promo code removed
@@ -585,6 +1047,8 @@ router.post('/:token/promo', async (req: Request, res: Response) => {
  *                   $ref: '#/components/schemas/Cart'
  *       404:
  *         description: Cart not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
  */
 router.delete('/:token/promo', async (req: Request, res: Response) => {
   try {
@@ -598,15 +1062,24 @@ router.delete('/:token/promo', async (req: Request, res: Response) => {
         error: 'Cart not found or expired'
       });
     }
+    cart.matchVersion(req.get('If-Match'));
     
     // Remove promo code
     await cart.removePromoCode();
     
+    res.set('ETag', cart.getETag());
     return res.json({
       success: true,
       data: cart
     });
   } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error removing promo code:', error);
     return res.status(500).json({
       success: false,
@@ -615,4 +1088,168 @@ router.delete('/:token/promo', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/cart/{token}/gift-cards:
+ *   post:
+ *     summary: Add a gift card to pay for the cart
+ *     description: The card must be active, unexpired, have a balance and be in the cart's currency. At checkout gift cards pay in the order they were added, before store credit and the payment method; nothing is taken off the card until then.
+ *     tags: [Cart]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart token
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Gift card added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Cart'
+ *       400:
+ *         description: Invalid, expired or empty gift card, or one in another currency
+ *       404:
+ *         description: Cart not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
+ */
+router.post('/:token/gift-cards', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params;
+    const { code } = req.body;
+    
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Gift card code is required'
+      });
+    }
+    
+    // Get cart
+    const cart = await Cart.findOne({ token, expiresAt: { $gt: new Date() } });
+    if (!cart) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cart not found or expired'
+      });
+    }
+    cart.matchVersion(req.get('If-Match'));
+    
+    await cart.applyGiftCard(code);
+    
+    res.set('ETag', cart.getETag());
+    return res.json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
+    console.error('Error adding gift card:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to add gift card'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/cart/{token}/gift-cards/{code}:
+ *   delete:
+ *     summary: Remove a gift card from the cart
+ *     tags: [Cart]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart token
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Gift card code
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       200:
+ *         description: Gift card removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Cart'
+ *       404:
+ *         description: Cart not found
+ *       412:
+ *         description: The cart changed since the version in If-Match
+ */
+router.delete('/:token/gift-cards/:code', async (req: Request, res: Response) => {
+  try {
+    const { token, code } = req.params;
+    
+    // Get cart
+    const cart = await Cart.findOne({ token, expiresAt: { $gt: new Date() } });
+    if (!cart) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cart not found or expired'
+      });
+    }
+    cart.matchVersion(req.get('If-Match'));
+    
+    await cart.removeGiftCard(code as string);
+    
+    res.set('ETag', cart.getETag());
+    return res.json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
+    console.error('Error removing gift card:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove gift card'
+    });
+  }
+});
+
 export default router;
@@ -1,10 +1,50 @@
 import { Router, Request, Response } from 'express';
+import mongoose from 'mongoose';
 import { z } from 'zod';
-import { Product } from '../models/Product';
-import { productQuerySchema, ProductQuery } from '../validation/schemas';
+import { Product, IProduct, IProductVariant } from '../models/Product';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  productQuerySchema,
+  productSchema,
+  productVariantSchema,
+  ProductVariantInput,
+} from '../validation/schemas';
+import { decimalsToNumbers } from '../utils/money';
 
 const router = Router();
 
+// Returns the first SKU already used by another product (or duplicated in the payload)
+const findSkuConflict = async (skus: string[], excludeProductId?: string): Promise<string | null> => {
+  const duplicate = skus.find((sku, index) => skus.indexOf(sku) !== index);
+  if (duplicate) {
+    return duplicate;
+  }
+
+  const conditions: any = { 'variants.sku': { $in: skus } };
+  if (excludeProductId) {
+    conditions._id = { $ne: excludeProductId };
+  }
+
+  const existing = await Product.findOne(conditions).select('variants.sku').lean();
+  if (!existing) {
+    return null;
+  }
+
+  return existing.variants.map(v => v.sku).find(sku => skus.includes(sku)) || null;
+};
+
+// Replaces the variant list while keeping the _id of variants whose SKU is unchanged,
+// so carts and orders referencing a variantId stay valid
+const replaceVariants = (product: IProduct, variants: ProductVariantInput[]) => {
+  const existingBySku = new Map(product.variants.map(v => [v.sku, (v as any)._id]));
+  product.set('variants', variants.map(variant => {
+    const existingId = existingBySku.get(variant.sku);
+    return existingId ? { ...variant, _id: existingId } : variant;
+  }));
+};
+
+const isDuplicateKeyError = (error: unknown): boolean => (error as any)?.code === 11000;
+
 /**
  * @swagger
  * /api/catalog/products:
@@ -362,7 +402,7 @@ router.get('/search', async (req: Request, res: Response) => {
     return res.json({
       success: true,
       data: {
-        products: result[0]?.products || [],
+        products: decimalsToNumbers(result[0]?.products || []),
         pagination: {
           page: Number(page),
           limit: Number(limit),
@@ -380,4 +420,643 @@ router.get('/search', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/catalog/products:
+ *   post:
+ *     summary: Create a product
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProductInput'
+ *     responses:
+ *       201:
+ *         description: Product created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Product'
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ *       409:
+ *         description: SKU already exists
+ */
+router.post('/products', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const productData = productSchema.parse(req.body);
+
+    const conflict = await findSkuConflict(productData.variants.map(v => v.sku));
+    if (conflict) {
+      return res.status(409).json({
+        success: false,
+        error: `SKU ${conflict} already exists`
+      });
+    }
+
+    const product = new Product(productData);
+    await product.save();
+
+    return res.status(201).json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'SKU already exists'
+      });
+    }
+
+    console.error('Error creating product:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create product'
+    });
+  }
+});
+
+const updateProduct = (partial: boolean) => async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const updateData = partial ? productSchema.partial().parse(req.body) : productSchema.parse(req.body);
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id ?? '')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid product ID'
+      });
+    }
+
+    const product = await Product.findById(id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const { variants, ...fields } = updateData;
+
+    if (variants) {
+      const conflict = await findSkuConflict(variants.map(v => v.sku), id);
+      if (conflict) {
+        return res.status(409).json({
+          success: false,
+          error: `SKU ${conflict} already exists`
+        });
+      }
+      replaceVariants(product, variants);
+    }
+
+    product.set(fields);
+    await product.save();
+
+    return res.json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'SKU already exists'
+      });
+    }
+
+    console.error('Error updating product:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update product'
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/catalog/products/{id}:
+ *   put:
+ *     summary: Replace a product
+ *     description: Variants are matched by SKU so existing variant IDs are preserved.
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProductInput'
+ *     responses:
+ *       200:
+ *         description: Product updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Product'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: SKU already exists
+ *   patch:
+ *     summary: Partially update a product
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProductInput'
+ *     responses:
+ *       200:
+ *         description: Product updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Product'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: SKU already exists
+ */
+router.put('/products/:id', authenticate, authorize('admin'), updateProduct(false));
+router.patch('/products/:id', authenticate, authorize('admin'), updateProduct(true));
+
+/**
+ * @swagger
+ * /api/catalog/products/{id}:
+ *   delete:
+ *     summary: Deactivate a product
+ *     description: Products are soft-deleted by setting isActive to false.
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Product deactivated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Product'
+ *       404:
+ *         description: Product not found
+ */
+router.delete('/products/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id ?? '')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid product ID'
+      });
+    }
+
+    const product = await Product.findByIdAndUpdate(id, { isActive: false }, { new: true });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    console.error('Error deactivating product:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to deactivate product'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/catalog/products/{id}/variants:
+ *   post:
+ *     summary: Add a variant to a product
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProductVariantInput'
+ *     responses:
+ *       201:
+ *         description: Variant added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Product'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: SKU already exists
+ */
+router.post('/products/:id/variants', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const variantData = productVariantSchema.parse(req.body);
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id ?? '')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid product ID'
+      });
+    }
+
+    const product = await Product.findById(id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const conflict = await findSkuConflict([...product.variants.map(v => v.sku), variantData.sku]);
+    if (conflict) {
+      return res.status(409).json({
+        success: false,
+        error: `SKU ${conflict} already exists`
+      });
+    }
+
+    product.variants.push(variantData as IProductVariant);
+    await product.save();
+
+    return res.status(201).json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'SKU already exists'
+      });
+    }
+
+    console.error('Error adding variant:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to add variant'
+    });
+  }
+});
+
+const updateVariant = (partial: boolean) => async (req: Request, res: Response) => {
+  try {
+    const { id, variantId } = req.params;
+    const variantData = partial ? productVariantSchema.partial().parse(req.body) : productVariantSchema.parse(req.body);
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id ?? '')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid product ID'
+      });
+    }
+
+    const product = await Product.findById(id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const variant = (product.variants as any).id(variantId);
+    if (!variant) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product variant not found'
+      });
+    }
+
+    if (variantData.sku && variantData.sku !== variant.sku) {
+      const conflict = await findSkuConflict([variantData.sku], id);
+      const siblingConflict = product.variants.some(v => v.sku === variantData.sku);
+      if (conflict || siblingConflict) {
+        return res.status(409).json({
+          success: false,
+          error: `SKU ${variantData.sku} already exists`
+        });
+      }
+    }
+
+    variant.set(variantData);
+    await product.save();
+
+    return res.json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'SKU already exists'
+      });
+    }
+
+    console.error('Error updating variant:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update variant'
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/catalog/products/{id}/variants/{variantId}:
+ *   put:
+ *     summary: Replace a product variant
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Variant ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProductVariantInput'
+ *     responses:
+ *       200:
+ *         description: Variant updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Product'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Product or variant not found
+ *       409:
+ *         description: SKU already exists
+ *   patch:
+ *     summary: Partially update a product variant
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Variant ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProductVariantInput'
+ *     responses:
+ *       200:
+ *         description: Variant updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Product'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Product or variant not found
+ *       409:
+ *         description: SKU already exists
+ */
+router.put('/products/:id/variants/:variantId', authenticate, authorize('admin'), updateVariant(false));
+router.patch('/products/:id/variants/:variantId', authenticate, authorize('admin'), updateVariant(true));
+
+/**
+ * @swagger
+ * /api/catalog/products/{id}/variants/{variantId}:
+ *   delete:
+ *     summary: Remove a product variant
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Variant ID
+ *     responses:
+ *       200:
+ *         description: Variant removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Product'
+ *       400:
+ *         description: Product must keep at least one variant
+ *       404:
+ *         description: Product or variant not found
+ */
+router.delete('/products/:id/variants/:variantId', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id, variantId } = req.params;
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id ?? '')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid product ID'
+      });
+    }
+
+    const product = await Product.findById(id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const variant = (product.variants as any).id(variantId);
+    if (!variant) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product variant not found'
+      });
+    }
+
+    if (product.variants.length === 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least one variant is required'
+      });
+    }
+
+    variant.deleteOne();
+    await product.save();
+
+    return res.json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    console.error('Error removing variant:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove variant'
+    });
+  }
+});
+
 export default router;
@@ -1,10 +1,16 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { Cart } from '../models/Cart';
-import { Order } from '../models/Order';
 import { Product } from '../models/Product';
 import { PromoCode } from '../models/PromoCode';
-import { checkoutSchema, CheckoutInput } from '../validation/schemas';
+import { Promotion } from '../models/Promotion';
+import { isAppError } from '../middleware/errorHandler';
+import { idempotency } from '../middleware/idempotency';
+import { checkoutSchema, CheckoutInput, checkoutCalculateSchema, shippingOptionsSchema } from '../validation/schemas';
+import { placeOrder } from '../services/checkout';
+import { calculateOrderTotals } from '../services/tax';
+import { getShippingOptions, selectShippingOption } from '../services/shipping';
+import { planTenders } from '../services/tenders';
 
 const router = Router();
 
@@ -13,7 +19,10 @@ const router = Router();
  * /api/checkout:
  *   post:
  *     summary: Create order from cart
+ *     description: The cart is first revalidated like GET /api/cart/{token} does, except for stock, which the stock reservation checks. If a price changed or an item became unavailable the cart is updated and checkout fails with 409, so the customer can review it. The cart's gift cards pay first, then the customer's store credit when useStoreCredit is set, then the payment method for the rest. paymentMethod may be omitted when nothing is left to pay, and the order is then paid straight away.
  *     tags: [Checkout]
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -33,101 +42,19 @@ const router = Router();
  *                 data:
  *                   $ref: '#/components/schemas/Order'
  *       400:
- *         description: Invalid request or insufficient stock
+ *         description: Invalid request, insufficient stock, promo code or gift card no longer usable, or payment method missing
  *       404:
  *         description: Cart not found
+ *       409:
+ *         description: The cart changed since it was last viewed (details lists the changes, see GET /api/cart/{token}), a request with the same Idempotency-Key is still being processed, or a gift card or the store credit no longer has enough balance
+ *       422:
+ *         description: Idempotency-Key was already used with a different payload
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', idempotency, async (req: Request, res: Response) => {
   try {
-    const checkoutData = checkoutSchema.parse(req.body);
+    const checkoutData: CheckoutInput = checkoutSchema.parse(req.body);
     
-    // Get cart
-    const cart = await Cart.findOne({ 
-      _id: checkoutData.cartId, 
-      expiresAt: { $gt: new Date() } 
-    });
-    
-    if (!cart) {
-      return res.status(404).json({
-        success: false,
-        error: 'Cart not found or expired'
-      });
-    }
-    
-    if (cart.items.length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Cart is empty'
-      });
-    }
-    
-    // Validate stock for all items
-    for (const item of cart.items) {
-      const product = await Product.findById(item.productId);
-      if (!product || !product.isActive) {
-        return res.status(400).json({
-          success: false,
-          error: `Product ${item.productName} is no longer available`
-        });
-      }
-      
-      if (!product.isInStock(item.variantId, item.quantity)) {
-        return res.status(400).json({
-          success: false,
-          error: `Insufficient stock for ${item.productName} - ${item.variantName}`
-        });
-      }
-    }
-    
-    // Validate promo code if provided
-    let finalDiscount = cart.discount;
-    if (checkoutData.promoCode) {
-      const promoCode = await PromoCode.findValidPromoCode(checkoutData.promoCode, cart.subtotal);
-      if (!promoCode) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid or expired promo code'
-        });
-      }
-      finalDiscount = promoCode.calculateDiscount(cart.subtotal);
-    }
-    
-    // Create order
-    const order = new Order({
-      cartId: cart._id,
-      customerInfo: checkoutData.customerInfo,
-      shippingAddress: checkoutData.shippingAddress,
-      billingAddress: checkoutData.billingAddress || checkoutData.shippingAddress,
-      items: cart.items,
-      subtotal: cart.subtotal,
-      discount: finalDiscount,
-      total: cart.subtotal - finalDiscount,
-      promoCode: checkoutData.promoCode || cart.promoCode,
-      paymentMethod: checkoutData.paymentMethod,
-      status: 'pending',
-      paymentStatus: 'pending',
-    });
-    
-    await order.save();
-    
-    // Update stock for all items
-    for (const item of cart.items) {
-      const product = await Product.findById(item.productId);
-      if (product) {
-        await product.updateStock(item.variantId, item.quantity);
-      }
-    }
-    
-    // Increment promo code usage if used
-    if (checkoutData.promoCode) {
-      const promoCode = await PromoCode.findOne({ code: checkoutData.promoCode });
-      if (promoCode) {
-        await promoCode.incrementUsage();
-      }
-    }
-    
-    // Clear cart
-    await cart.clearCart();
+    const order = await placeOrder(checkoutData);
     
     return res.status(201).json({
       success: true,
@@ -142,6 +69,14 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
     
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+        ...(error.details !== undefined && { details: error.details })
+      });
+    }
+    
     console.error('Error creating order:', error);
     return res.status(500).json({
       success: false,
@@ -218,9 +153,26 @@ router.post('/validate', async (req: Request, res: Response) => {
     
     // Validate promo code if provided
     if (checkoutData.promoCode) {
-      const promoCode = await PromoCode.findValidPromoCode(checkoutData.promoCode, cart.subtotal);
+      const promoCode = await PromoCode.findValidPromoCode(checkoutData.promoCode, cart.subtotal, cart.currency);
+      const customerRestriction = promoCode && await promoCode.checkCustomer({
+        ...(cart.userId && { userId: cart.userId }),
+        email: checkoutData.customerInfo.email,
+      });
       if (!promoCode) {
         errors.push('Invalid or expired promo code');
+      } else if (customerRestriction) {
+        errors.push(customerRestriction);
+      } else {
+        // Lines that can't be bought are left out, like in the cart's totals
+        const pricing = await Promotion.evaluate(cart.items.filter(item => !item.unavailable), {
+          currency: cart.currency,
+          ...(cart.userId && { userId: cart.userId }),
+          email: checkoutData.customerInfo.email,
+          promoCode,
+        });
+        if (pricing.promoCodeBlockedBy) {
+          errors.push(`Promo code cannot be combined with the ${pricing.promoCodeBlockedBy} promotion`);
+        }
       }
     }
     
@@ -249,11 +201,127 @@ router.post('/validate', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/checkout/shipping-options:
+ *   post:
+ *     summary: Get the shipping methods available for a cart and address
+ *     description: Prices come from the shipping zone the address is in; rates depend on the method (flat fee, parcel weight or order subtotal after discount) and free-shipping thresholds. Addresses outside every zone get an empty list and are shipped without a shipping charge.
+ *     tags: [Checkout]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - cartId
+ *               - shippingAddress
+ *             properties:
+ *               cartId:
+ *                 type: string
+ *               promoCode:
+ *                 type: string
+ *               shippingAddress:
+ *                 type: object
+ *                 properties:
+ *                   street:
+ *                     type: string
+ *                   city:
+ *                     type: string
+ *                   state:
+ *                     type: string
+ *                   zipCode:
+ *                     type: string
+ *                   country:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Shipping options, cheapest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ShippingOption'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Cart not found
+ */
+router.post('/shipping-options', async (req: Request, res: Response) => {
+  try {
+    const { cartId, promoCode, shippingAddress } = shippingOptionsSchema.parse(req.body);
+    
+    // Get cart
+    const cart = await Cart.findOne({ 
+      _id: cartId, 
+      expiresAt: { $gt: new Date() } 
+    });
+    
+    if (!cart) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cart not found or expired'
+      });
+    }
+    
+    // Free-shipping thresholds apply to the subtotal after discount
+    const code = promoCode || cart.promoCode;
+    const promoCodeData = code
+      ? await PromoCode.findValidPromoCode(code, cart.subtotal, cart.currency, { ...(cart.userId && { userId: cart.userId }) })
+      : null;
+    // Lines that can't be bought are left out, like in the cart's totals
+    const items = cart.items.filter(item => !item.unavailable);
+    const pricing = await Promotion.evaluate(items, {
+      currency: cart.currency,
+      ...(cart.userId && { userId: cart.userId }),
+      promoCode: promoCodeData,
+    });
+    
+    const options = await getShippingOptions(
+      items, pricing.discount, shippingAddress, cart.currency, pricing.freeShipping
+    );
+    
+    return res.json({
+      success: true,
+      data: options
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+    
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
+    console.error('Error fetching shipping options:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch shipping options'
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/checkout/calculate:
  *   post:
  *     summary: Calculate order totals
+ *     description: Shipping and tax are calculated only when a shipping address is given; without one shippingTotal and taxTotal are 0. Without a shippingMethod the cheapest available method is used. The discount covers the running promotions and the promoCode sent, if any. Cart lines flagged as unavailable are left out. The total is split between the cart's gift cards, the store credit of `email` when `useStoreCredit` is set, and the payment method (amountDue).
  *     tags: [Checkout]
  *     requestBody:
  *       required: true
@@ -268,6 +336,28 @@ router.post('/validate', async (req: Request, res: Response) => {
  *                 type: string
  *               promoCode:
  *                 type: string
+ *               shippingAddress:
+ *                 type: object
+ *                 properties:
+ *                   street:
+ *                     type: string
+ *                   city:
+ *                     type: string
+ *                   state:
+ *                     type: string
+ *                   zipCode:
+ *                     type: string
+ *                   country:
+ *                     type: string
+ *               shippingMethod:
+ *                 type: string
+ *                 description: Shipping method code
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 description: Customer email whose store credit is used
+ *               useStoreCredit:
+ *                 type: boolean
  *     responses:
  *       200:
  *         description: Order calculation result
@@ -285,23 +375,45 @@ router.post('/validate', async (req: Request, res: Response) => {
  *                       type: number
  *                     discount:
  *                       type: number
+ *                     shippingTotal:
+ *                       type: number
+ *                     shippingMethod:
+ *                       $ref: '#/components/schemas/ShippingOption'
+ *                     taxTotal:
+ *                       type: number
+ *                     pricesIncludeTax:
+ *                       type: boolean
+ *                       description: If false, taxTotal is added on top of subtotal less discount
  *                     total:
  *                       type: number
+ *                     lineTaxes:
+ *                       type: array
+ *                       description: Tax of each cart item, in cart order
+ *                       items:
+ *                         $ref: '#/components/schemas/OrderItemTax'
+ *                     promotions:
+ *                       type: array
+ *                       description: Automatic promotions and the promo code, in the order they were applied
+ *                       items:
+ *                         $ref: '#/components/schemas/AppliedPromotion'
  *                     promoCode:
  *                       $ref: '#/components/schemas/PromoCode'
+ *                     tenders:
+ *                       type: array
+ *                       description: How the total would be paid
+ *                       items:
+ *                         $ref: '#/components/schemas/Tender'
+ *                     amountDue:
+ *                       type: number
+ *                       description: What is left for the payment method to pay
+ *       400:
+ *         description: Invalid request data, the shipping method is not available, or a gift card of the cart can no longer be used
  *       404:
  *         description: Cart not found
  */
 router.post('/calculate', async (req: Request, res: Response) => {
   try {
-    const { cartId, promoCode } = req.body;
-    
-    if (!cartId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Cart ID is required'
-      });
-    }
+    const { cartId, promoCode, shippingAddress, shippingMethod, email, useStoreCredit } = checkoutCalculateSchema.parse(req.body);
     
     // Get cart
     const cart = await Cart.findOne({ 
@@ -316,29 +428,62 @@ router.post('/calculate', async (req: Request, res: Response) => {
       });
     }
     
-    let discount = 0;
-    let promoCodeData = null;
-    
-    // Calculate discount if promo code provided
-    if (promoCode) {
-      promoCodeData = await PromoCode.findValidPromoCode(promoCode, cart.subtotal);
-      if (promoCodeData) {
-        discount = promoCodeData.calculateDiscount(cart.subtotal);
-      }
-    }
+    // Discounts from the running promotions, plus the promo code if one is provided
+    const promoCodeData = promoCode
+      ? await PromoCode.findValidPromoCode(promoCode, cart.subtotal, cart.currency, { ...(cart.userId && { userId: cart.userId }) })
+      : null;
+    // Lines that can't be bought are left out, like in the cart's totals
+    const items = cart.items.filter(item => !item.unavailable);
+    const pricing = await Promotion.evaluate(items, {
+      currency: cart.currency,
+      ...(cart.userId && { userId: cart.userId }),
+      promoCode: promoCodeData,
+    });
+    const lines = items.map((item, index) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      price: item.price,
+      quantity: item.quantity,
+      discount: pricing.lines[index]?.discount ?? 0,
+    }));
     
-    const total = cart.subtotal - discount;
+    const shipping = shippingAddress
+      ? await selectShippingOption(lines, pricing.discount, shippingAddress, shippingMethod, cart.currency, pricing.freeShipping)
+      : null;
+    const totals = await calculateOrderTotals(lines, pricing.discount, shippingAddress, shipping?.cost, cart.currency);
+    const tenderPlan = await planTenders(totals.total, cart.currency, {
+      giftCardCodes: cart.giftCards,
+      ...(email && { email }),
+      ...(useStoreCredit && { useStoreCredit }),
+    });
     
     return res.json({
       success: true,
       data: {
-        subtotal: cart.subtotal,
-        discount,
-        total,
-        promoCode: promoCodeData
+        ...totals,
+        shippingMethod: shipping,
+        promotions: pricing.promotions,
+        promoCode: promoCodeData,
+        tenders: tenderPlan.tenders,
+        amountDue: tenderPlan.amountDue
       }
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+    
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error calculating order totals:', error);
     return res.status(500).json({
       success: false,
@@ -0,0 +1,129 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ExchangeRate } from '../models/ExchangeRate';
+import { authenticate, authorize } from '../middleware/auth';
+import { exchangeRatesSchema } from '../validation/schemas';
+import { getBaseCurrency, getSupportedCurrencies } from '../utils/currency';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/currencies:
+ *   get:
+ *     summary: Get currencies
+ *     description: The base currency catalog prices are kept in, the currencies carts can be priced in and the current exchange rates.
+ *     tags: [Currencies]
+ *     responses:
+ *       200:
+ *         description: Currencies and exchange rates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     baseCurrency:
+ *                       type: string
+ *                       example: USD
+ *                     supportedCurrencies:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     rates:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ExchangeRate'
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const rates = await ExchangeRate.find().sort({ currency: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        baseCurrency: getBaseCurrency(),
+        supportedCurrencies: getSupportedCurrencies(),
+        rates
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching currencies:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch currencies'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/currencies/rates:
+ *   put:
+ *     summary: Replace exchange rates
+ *     description: Uploads the full rate table. Currencies missing from the upload lose their rate; carts can then only be priced in them through listed variant prices.
+ *     tags: [Currencies]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ExchangeRatesInput'
+ *     responses:
+ *       200:
+ *         description: Exchange rates replaced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ExchangeRate'
+ *       400:
+ *         description: Invalid request data
+ */
+router.put('/rates', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { rates } = exchangeRatesSchema.parse(req.body);
+
+    if (Object.keys(rates).some(currency => currency.toUpperCase() === getBaseCurrency())) {
+      return res.status(400).json({
+        success: false,
+        error: `The base currency ${getBaseCurrency()} has no exchange rate`
+      });
+    }
+
+    const updated = await ExchangeRate.replaceRates(rates);
+
+    return res.json({
+      success: true,
+      data: updated
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    console.error('Error replacing exchange rates:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to replace exchange rates'
+    });
+  }
+});
+
+export default router;
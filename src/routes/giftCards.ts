@@ -0,0 +1,400 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { GiftCard } from '../models/GiftCard';
+import { authenticate, authorize } from '../middleware/auth';
+import { isAppError } from '../middleware/errorHandler';
+import { giftCardIssueSchema, giftCardUpdateSchema } from '../validation/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/gift-cards:
+ *   get:
+ *     summary: Get gift cards
+ *     tags: [Gift Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: recipientEmail
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of gift cards, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     giftCards:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/GiftCard'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ */
+router.get('/', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+    const query: any = {};
+    if (req.query.isActive !== undefined) {
+      query.isActive = req.query.isActive === 'true';
+    }
+    if (req.query.recipientEmail) {
+      query.recipientEmail = (req.query.recipientEmail as string).toLowerCase().trim();
+    }
+
+    const [giftCards, total] = await Promise.all([
+      GiftCard.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      GiftCard.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        giftCards,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching gift cards:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch gift cards'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/gift-cards:
+ *   post:
+ *     summary: Issue a gift card
+ *     description: The card starts with a balance of `amount` in `currency` (the base currency by default). Without a code a random one like K7QW-2MXP-9HDT-4RCN is generated.
+ *     tags: [Gift Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GiftCardInput'
+ *     responses:
+ *       201:
+ *         description: Gift card issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/GiftCard'
+ *       400:
+ *         description: Invalid request data
+ *       409:
+ *         description: Gift card code already exists
+ */
+router.post('/', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const giftCardData = giftCardIssueSchema.parse(req.body);
+    const giftCard = await GiftCard.issue({
+      amount: giftCardData.amount,
+      ...(giftCardData.code && { code: giftCardData.code }),
+      ...(giftCardData.currency && { currency: giftCardData.currency }),
+      ...(giftCardData.recipientEmail && { recipientEmail: giftCardData.recipientEmail }),
+      ...(giftCardData.note && { note: giftCardData.note }),
+      ...(giftCardData.expiresAt && { expiresAt: giftCardData.expiresAt }),
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: giftCard
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error issuing gift card:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to issue gift card'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/gift-cards/balance/{code}:
+ *   get:
+ *     summary: Check the balance of a gift card
+ *     tags: [Gift Cards]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Gift card code
+ *     responses:
+ *       200:
+ *         description: Gift card balance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     code:
+ *                       type: string
+ *                     balance:
+ *                       type: number
+ *                     currency:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     usable:
+ *                       type: boolean
+ *                       description: Whether the card can pay, i.e. it is active, unexpired and has a balance
+ *       404:
+ *         description: Gift card not found
+ */
+router.get('/balance/:code', async (req: Request, res: Response) => {
+  try {
+    const { code } = req.params;
+
+    const giftCard = await GiftCard.findOne({ code: (code as string).toUpperCase().trim() });
+
+    if (!giftCard) {
+      return res.status(404).json({
+        success: false,
+        error: 'Gift card not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        code: giftCard.code,
+        balance: giftCard.balance,
+        currency: giftCard.currency,
+        expiresAt: giftCard.expiresAt,
+        usable: giftCard.isUsable()
+      }
+    });
+  } catch (error) {
+    console.error('Error checking gift card balance:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to check gift card balance'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/gift-cards/{id}:
+ *   get:
+ *     summary: Get a gift card with its transactions
+ *     tags: [Gift Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Gift card ID
+ *     responses:
+ *       200:
+ *         description: Gift card details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/GiftCard'
+ *       404:
+ *         description: Gift card not found
+ */
+router.get('/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid gift card ID'
+      });
+    }
+
+    const giftCard = await GiftCard.findById(id);
+
+    if (!giftCard) {
+      return res.status(404).json({
+        success: false,
+        error: 'Gift card not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: giftCard
+    });
+  } catch (error) {
+    console.error('Error fetching gift card:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch gift card'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/gift-cards/{id}:
+ *   put:
+ *     summary: Update a gift card
+ *     description: Deactivates or reactivates a card, changes its expiry (null removes it) or its note. Balances only change through orders, cancellations and refunds.
+ *     tags: [Gift Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Gift card ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Gift card updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/GiftCard'
+ *       404:
+ *         description: Gift card not found
+ */
+router.put('/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { expiresAt, ...updateData } = giftCardUpdateSchema.parse(req.body);
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid gift card ID'
+      });
+    }
+
+    const giftCard = await GiftCard.findByIdAndUpdate(
+      id,
+      {
+        $set: { ...updateData, ...(expiresAt && { expiresAt }) },
+        ...(expiresAt === null && { $unset: { expiresAt: 1 } }),
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!giftCard) {
+      return res.status(404).json({
+        success: false,
+        error: 'Gift card not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: giftCard
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    console.error('Error updating gift card:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update gift card'
+    });
+  }
+});
+
+export default router;
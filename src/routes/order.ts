@@ -1,7 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { Order } from '../models/Order';
-import { orderUpdateSchema, OrderUpdateInput, orderQuerySchema } from '../validation/schemas';
+import { Order, IOrder } from '../models/Order';
+import { isAppError } from '../middleware/errorHandler';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { orderUpdateSchema, orderCancelSchema, paymentActionSchema, refundSchema } from '../validation/schemas';
+import { cancelOrder, isOrderOwner } from '../services/orders';
+import { refundOrder } from '../services/refunds';
+import { authorizeOrderPayment, captureOrderPayment, voidOrderPayment } from '../services/payments';
+import { getBaseCurrency } from '../utils/currency';
+import { decimalsToNumbers, roundMoney } from '../utils/money';
 
 const router = Router();
 
@@ -11,6 +19,8 @@ const router = Router();
  *   get:
  *     summary: Get orders with filtering and pagination
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: page
@@ -34,7 +44,7 @@ const router = Router();
  *         name: paymentStatus
  *         schema:
  *           type: string
- *           enum: [pending, paid, failed, refunded]
+ *           enum: [pending, authorized, paid, failed, voided, refund_pending, partially_refunded, refunded]
  *         description: Filter by payment status
  *       - in: query
  *         name: startDate
@@ -73,7 +83,7 @@ const router = Router();
  *                     pagination:
  *                       $ref: '#/components/schemas/Pagination'
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', authenticate, authorize('admin', 'support'), async (req: Request, res: Response) => {
   try {
     const filters = {
       page: req.query.page ? parseInt(req.query.page as string) : 1,
@@ -168,6 +178,8 @@ router.get('/:id', async (req: Request, res: Response) => {
  *   put:
  *     summary: Update order status
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -197,8 +209,10 @@ router.get('/:id', async (req: Request, res: Response) => {
  *         description: Invalid request data
  *       404:
  *         description: Order not found
+ *       409:
+ *         description: The order cannot move from its current status to the requested one
  */
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', authenticate, authorize('admin', 'support'), async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const updateData = orderUpdateSchema.parse(req.body);
@@ -220,16 +234,22 @@ router.put('/:id', async (req: Request, res: Response) => {
       });
     }
     
-    // Update order status
-    await order.updateStatus(
-      updateData.status,
-      updateData.trackingNumber,
-      updateData.notes
-    );
+    // Update order status; invalid transitions are rejected with 409.
+    // Cancelling goes through the cancel flow so stock and promo usage are given back.
+    const updatedOrder = updateData.status === 'cancelled'
+      ? await cancelOrder(order, {
+        ...(updateData.notes && { reason: updateData.notes }),
+        ...(req.user && { cancelledBy: req.user }),
+      })
+      : await order.updateStatus(updateData.status, {
+        ...(updateData.trackingNumber && { trackingNumber: updateData.trackingNumber }),
+        ...(updateData.notes && { note: updateData.notes }),
+        ...(req.user && { changedBy: req.user }),
+      });
     
     return res.json({
       success: true,
-      data: order
+      data: updatedOrder
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -240,6 +260,13 @@ router.put('/:id', async (req: Request, res: Response) => {
       });
     }
     
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
     console.error('Error updating order:', error);
     return res.status(500).json({
       success: false,
@@ -252,8 +279,11 @@ router.put('/:id', async (req: Request, res: Response) => {
  * @swagger
  * /api/orders/{id}/payment:
  *   put:
- *     summary: Update order payment status
+ *     summary: Run a payment action on an order
+ *     description: Authorizes, captures or voids the order's payment through its payment provider. The order's payment status follows from the provider's response.
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -261,21 +291,123 @@ router.put('/:id', async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: Order ID
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - paymentStatus
- *             properties:
- *               paymentStatus:
- *                 type: string
- *                 enum: [pending, paid, failed, refunded]
+ *             $ref: '#/components/schemas/PaymentActionInput'
  *     responses:
  *       200:
- *         description: Payment status updated successfully
+ *         description: Payment action processed; a declined authorization sets the payment status to failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *       400:
+ *         description: Invalid payment action
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The action is not possible in the current payment status, reserved stock expired and is no longer available, or a request with the same Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different payload
+ */
+router.put('/:id/payment', authenticate, authorize('admin'), idempotency, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const paymentAction = paymentActionSchema.parse(req.body);
+    
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid order ID'
+      });
+    }
+    
+    const order = await Order.findById(id);
+    
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
+    
+    let updatedOrder: IOrder;
+    switch (paymentAction.action) {
+      case 'authorize':
+        updatedOrder = await authorizeOrderPayment(order, paymentAction.paymentToken);
+        break;
+      case 'capture':
+        updatedOrder = await captureOrderPayment(order);
+        break;
+      case 'void':
+        updatedOrder = await voidOrderPayment(order);
+        break;
+    }
+    
+    return res.json({
+      success: true,
+      data: updatedOrder
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+    
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
+    console.error('Error updating payment status:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update payment status'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/orders/{id}/refunds:
+ *   post:
+ *     summary: Refund items or an amount of a paid order
+ *     description: Issues the refund through the order's payment provider and adds it to the order's refund ledger. Item refunds are valued at the item price less the item's prorated share of the order discount.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefundInput'
+ *     responses:
+ *       201:
+ *         description: Refund issued
  *         content:
  *           application/json:
  *             schema:
@@ -286,22 +418,118 @@ router.put('/:id', async (req: Request, res: Response) => {
  *                 data:
  *                   $ref: '#/components/schemas/Order'
  *       400:
- *         description: Invalid payment status
+ *         description: Invalid items, or more than is still refundable
  *       404:
  *         description: Order not found
+ *       409:
+ *         description: The order's payment cannot be refunded in its current status, or restock was requested for an order already restocked on cancel
  */
-router.put('/:id/payment', async (req: Request, res: Response) => {
+router.post('/:id/refunds', authenticate, authorize('admin'), idempotency, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { paymentStatus } = req.body;
+    const refundData = refundSchema.parse(req.body);
+    
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid order ID'
+      });
+    }
+    
+    const order = await Order.findById(id);
     
-    if (!paymentStatus || !['pending', 'paid', 'failed', 'refunded'].includes(paymentStatus)) {
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
+    
+    const refundedOrder = await refundOrder(order, {
+      ...(refundData.items && { items: refundData.items }),
+      ...(refundData.amount !== undefined && { amount: refundData.amount }),
+      ...(refundData.reason && { reason: refundData.reason }),
+      restock: refundData.restock,
+      ...(req.user && { refundedBy: req.user }),
+    });
+    
+    return res.status(201).json({
+      success: true,
+      data: refundedOrder
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid payment status'
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+    
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
       });
     }
     
+    console.error('Error refunding order:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to refund order'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/orders/{id}/cancel:
+ *   post:
+ *     summary: Cancel an order
+ *     description: Puts the ordered quantities back in stock, gives back the promo code use, voids an authorized payment and marks a paid order for refund. Available to admins and, before the order ships, to the customer who placed it. Cancelling an already cancelled order changes nothing.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Order cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *       403:
+ *         description: Not the customer who placed the order
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The order has already shipped
+ */
+router.post('/:id/cancel', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reason } = orderCancelSchema.parse(req.body ?? {});
+    
     // Validate ObjectId
     if (!require('mongoose').Types.ObjectId.isValid(id)) {
       return res.status(400).json({
@@ -319,18 +547,42 @@ router.put('/:id/payment', async (req: Request, res: Response) => {
       });
     }
     
-    // Update payment status
-    await order.updatePaymentStatus(paymentStatus);
+    if (req.user?.role !== 'admin' && !isOrderOwner(order, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'You can only cancel your own orders'
+      });
+    }
+    
+    const cancelledOrder = await cancelOrder(order, {
+      ...(reason && { reason }),
+      ...(req.user && { cancelledBy: req.user }),
+    });
     
     return res.json({
       success: true,
-      data: order
+      data: cancelledOrder
     });
   } catch (error) {
-    console.error('Error updating payment status:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+    
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+    
+    console.error('Error cancelling order:', error);
     return res.status(500).json({
       success: false,
-      error: 'Failed to update payment status'
+      error: 'Failed to cancel order'
     });
   }
 });
@@ -394,7 +646,13 @@ router.get('/number/:orderNumber', async (req: Request, res: Response) => {
  * /api/orders/customer/{email}:
  *   get:
  *     summary: Get orders by customer email
+ *     description: >
+ *       Customers can only list their own orders ("my orders"): the orders placed while
+ *       signed in to their account. Admin and support users can list the orders placed
+ *       with any customer email.
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -433,28 +691,43 @@ router.get('/number/:orderNumber', async (req: Request, res: Response) => {
  *                         $ref: '#/components/schemas/Order'
  *                     pagination:
  *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Customers can only list their own orders
  */
-router.get('/customer/:email', async (req: Request, res: Response) => {
+router.get('/customer/:email', authenticate, async (req: AuthRequest, res: Response) => {
   try {
     const { email } = req.params;
     const page = req.query.page ? parseInt(req.query.page as string) : 1;
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+    const customerEmail = email ? decodeURIComponent(email) : '';
+    
+    const isStaff = req.user?.role === 'admin' || req.user?.role === 'support';
+    if (!isStaff && customerEmail.toLowerCase() !== req.user?.email.toLowerCase()) {
+      return res.status(403).json({
+        success: false,
+        error: 'You can only view your own orders'
+      });
+    }
     
+    // Anyone can check out with any email, so a customer gets the orders placed from their
+    // account rather than every order carrying their email
     const filters = {
       page,
       limit,
-      email: email ? decodeURIComponent(email) : undefined
+      ...(isStaff ? { customerEmail } : { userId: req.user?.id })
     };
     
     const result = await Order.getOrdersWithDetails(filters);
     
-    res.json({
+    return res.json({
       success: true,
       data: result
     });
   } catch (error) {
     console.error('Error fetching customer orders:', error);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: 'Failed to fetch customer orders'
     });
@@ -467,6 +740,8 @@ router.get('/customer/:email', async (req: Request, res: Response) => {
  *   get:
  *     summary: Get order analytics
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Order analytics
@@ -482,10 +757,28 @@ router.get('/customer/:email', async (req: Request, res: Response) => {
  *                   properties:
  *                     totalOrders:
  *                       type: number
+ *                     currency:
+ *                       type: string
+ *                       description: Base currency, the currency of totalRevenue and averageOrderValue
  *                     totalRevenue:
  *                       type: number
+ *                       description: Revenue of base currency orders
  *                     averageOrderValue:
  *                       type: number
+ *                       description: Average value of base currency orders
+ *                     revenueByCurrency:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           currency:
+ *                             type: string
+ *                           orderCount:
+ *                             type: number
+ *                           revenue:
+ *                             type: number
+ *                           averageOrderValue:
+ *                             type: number
  *                     totalItems:
  *                       type: number
  *                     statusStats:
@@ -493,7 +786,7 @@ router.get('/customer/:email', async (req: Request, res: Response) => {
  *                     paymentStats:
  *                       type: object
  */
-router.get('/analytics/overview', async (req: Request, res: Response) => {
+router.get('/analytics/overview', authenticate, authorize('admin'), async (req: Request, res: Response) => {
   try {
     const analytics = await Order.getOrderAnalytics();
     
@@ -516,6 +809,8 @@ router.get('/analytics/overview', async (req: Request, res: Response) => {
  *   get:
  *     summary: Get revenue analytics by date range
  *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: startDate
@@ -529,6 +824,11 @@ router.get('/analytics/overview', async (req: Request, res: Response) => {
  *           type: string
  *           format: date
  *         description: End date (YYYY-MM-DD)
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency of the orders to report on (defaults to the base currency)
  *     responses:
  *       200:
  *         description: Revenue analytics
@@ -542,6 +842,8 @@ router.get('/analytics/overview', async (req: Request, res: Response) => {
  *                 data:
  *                   type: object
  *                   properties:
+ *                     currency:
+ *                       type: string
  *                     totalRevenue:
  *                       type: number
  *                     orderCount:
@@ -553,11 +855,18 @@ router.get('/analytics/overview', async (req: Request, res: Response) => {
  *                       items:
  *                         type: object
  */
-router.get('/analytics/revenue', async (req: Request, res: Response) => {
+router.get('/analytics/revenue', authenticate, authorize('admin'), async (req: Request, res: Response) => {
   try {
     const { startDate, endDate } = req.query;
+    const baseCurrency = getBaseCurrency();
+    const currency = typeof req.query.currency === 'string' ? req.query.currency.toUpperCase() : baseCurrency;
     
-    const matchConditions: any = { paymentStatus: 'paid' };
+    // Revenue is reported per currency; orders without a currency are in the base currency.
+    // Partially refunded orders were still paid, so they count towards revenue.
+    const matchConditions: any = {
+      paymentStatus: { $in: ['paid', 'partially_refunded'] },
+      currency: currency === baseCurrency ? { $in: [currency, null] } : currency
+    };
     if (startDate || endDate) {
       matchConditions.createdAt = {};
       if (startDate) matchConditions.createdAt.$gte = new Date(startDate as string);
@@ -604,10 +913,17 @@ router.get('/analytics/revenue', async (req: Request, res: Response) => {
     ];
     
     const result = await Order.aggregate(pipeline);
+    // Aggregation results skip the money getters; only the average needs rounding to the currency
+    const revenue = result[0] && decimalsToNumbers(result[0]);
     
     res.json({
       success: true,
-      data: result[0] || {
+      data: revenue ? {
+        currency,
+        ...revenue,
+        averageOrderValue: roundMoney(revenue.averageOrderValue, currency)
+      } : {
+        currency,
         totalRevenue: 0,
         orderCount: 0,
         averageOrderValue: 0,
@@ -0,0 +1,124 @@
+import { Router, Request, Response } from 'express';
+import { WebhookEvent } from '../models/WebhookEvent';
+import { isAppError } from '../middleware/errorHandler';
+import { applyPaymentEvent, getPaymentProvider } from '../services/payments';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/payments/webhooks/{provider}:
+ *   post:
+ *     summary: Receive a payment provider webhook
+ *     description: The raw request body must be signed with HMAC-SHA256 over "<timestamp>.<body>" using the provider's webhook secret. Each event is applied once; redelivered events are acknowledged without being applied again.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Payment provider name, e.g. mock
+ *       - in: header
+ *         name: X-Webhook-Timestamp
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Unix time in seconds when the request was signed
+ *       - in: header
+ *         name: X-Webhook-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Hex encoded HMAC-SHA256 signature
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PaymentWebhookEvent'
+ *     responses:
+ *       200:
+ *         description: Event received
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     duplicate:
+ *                       type: boolean
+ *                     orderId:
+ *                       type: string
+ *       400:
+ *         description: Malformed payload, missing signature headers or stale timestamp
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Unknown payment provider
+ *       409:
+ *         description: A delivery of the same event is still being processed; retry later
+ */
+router.post('/webhooks/:provider', async (req: Request, res: Response) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+
+    // The body is left unparsed for this route (see index.ts) so the signature can be checked
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const event = provider.parseWebhook(rawBody, req.headers);
+
+    const received = await WebhookEvent.record(event);
+    if (!received) {
+      // Not acknowledged until the first delivery is done, so the provider retries if it fails
+      if (await WebhookEvent.isProcessing(event)) {
+        return res.status(409).json({
+          success: false,
+          error: 'Event is still being processed'
+        });
+      }
+      return res.json({
+        success: true,
+        data: { duplicate: true }
+      });
+    }
+
+    let order;
+    try {
+      order = await applyPaymentEvent(event);
+    } catch (error) {
+      // Forget the event so the provider's retry gets processed
+      await WebhookEvent.deleteOne({ _id: received._id });
+      throw error;
+    }
+
+    await WebhookEvent.markProcessed(String(received._id), order ? String(order._id) : undefined);
+
+    // Events for unknown payments are acknowledged too, otherwise the provider keeps retrying
+    return res.json({
+      success: true,
+      data: {
+        duplicate: false,
+        orderId: order?._id ?? null
+      }
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error processing payment webhook:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to process payment webhook'
+    });
+  }
+});
+
+export default router;
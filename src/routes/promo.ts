@@ -1,7 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { Cart } from '../models/Cart';
 import { PromoCode } from '../models/PromoCode';
-import { promoCodeSchema, PromoCodeInput } from '../validation/schemas';
+import { Promotion } from '../models/Promotion';
+import { authenticate, authorize } from '../middleware/auth';
+import { promoCodeSchema } from '../validation/schemas';
+import { getBaseCurrency } from '../utils/currency';
 
 const router = Router();
 
@@ -11,6 +15,8 @@ const router = Router();
  *   get:
  *     summary: Get promo codes with filtering and pagination
  *     tags: [Promos]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: page
@@ -55,7 +61,7 @@ const router = Router();
  *                     pagination:
  *                       $ref: '#/components/schemas/Pagination'
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', authenticate, authorize('admin'), async (req: Request, res: Response) => {
   try {
     const filters = {
       page: req.query.page ? parseInt(req.query.page as string) : 1,
@@ -85,6 +91,8 @@ router.get('/', async (req: Request, res: Response) => {
  *   post:
  *     summary: Create a new promo code
  *     tags: [Promos]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -108,7 +116,7 @@ router.get('/', async (req: Request, res: Response) => {
  *       409:
  *         description: Promo code already exists
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', authenticate, authorize('admin'), async (req: Request, res: Response) => {
   try {
     const promoData = promoCodeSchema.parse(req.body);
     
@@ -151,6 +159,8 @@ router.post('/', async (req: Request, res: Response) => {
  *   get:
  *     summary: Get promo code by ID
  *     tags: [Promos]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -173,7 +183,7 @@ router.post('/', async (req: Request, res: Response) => {
  *       404:
  *         description: Promo code not found
  */
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     
@@ -213,6 +223,8 @@ router.get('/:id', async (req: Request, res: Response) => {
  *   put:
  *     summary: Update promo code
  *     tags: [Promos]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -243,7 +255,7 @@ router.get('/:id', async (req: Request, res: Response) => {
  *       404:
  *         description: Promo code not found
  */
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const updateData = promoCodeSchema.partial().parse(req.body);
@@ -296,6 +308,8 @@ router.put('/:id', async (req: Request, res: Response) => {
  *   delete:
  *     summary: Delete promo code
  *     tags: [Promos]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -318,7 +332,7 @@ router.put('/:id', async (req: Request, res: Response) => {
  *       404:
  *         description: Promo code not found
  */
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     
@@ -357,6 +371,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
  * /api/promos/validate/{code}:
  *   get:
  *     summary: Validate promo code
+ *     description: Given a cartToken, the code is checked against the cart's subtotal and currency, and the discount is what the code takes off the cart's items after its automatic promotions. Codes scoped to products, SKUs, categories or brands only discount the items they apply to; `eligibility` tells for every item whether it qualifies and why.
  *     tags: [Promos]
  *     parameters:
  *       - in: path
@@ -370,6 +385,16 @@ router.delete('/:id', async (req: Request, res: Response) => {
  *         schema:
  *           type: number
  *         description: Order subtotal for validation
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency of the subtotal (defaults to the base currency)
+ *       - in: query
+ *         name: cartToken
+ *         schema:
+ *           type: string
+ *         description: Cart to validate the code against, instead of subtotal and currency
  *     responses:
  *       200:
  *         description: Promo code validation result
@@ -389,13 +414,21 @@ router.delete('/:id', async (req: Request, res: Response) => {
  *                       type: number
  *                     promoCode:
  *                       $ref: '#/components/schemas/PromoCode'
+ *                     eligibility:
+ *                       type: array
+ *                       description: Only given with a cartToken
+ *                       items:
+ *                         $ref: '#/components/schemas/PromoCodeEligibility'
  *       400:
- *         description: Invalid promo code
+ *         description: Invalid promo code, it applies to no item in the cart (details lists why for each item) or it cannot be combined with an exclusive promotion
+ *       404:
+ *         description: Cart not found
  */
 router.get('/validate/:code', async (req: Request, res: Response) => {
   try {
     const { code } = req.params;
     const subtotal = req.query.subtotal ? parseFloat(req.query.subtotal as string) : 0;
+    const currency = typeof req.query.currency === 'string' ? req.query.currency.toUpperCase() : getBaseCurrency();
     
     if (!code) {
       return res.status(400).json({
@@ -404,7 +437,23 @@ router.get('/validate/:code', async (req: Request, res: Response) => {
       });
     }
     
-    const promoCode = await PromoCode.findValidPromoCode(code, subtotal);
+    // With a cart the code is checked against its items, subtotal and currency
+    const cart = typeof req.query.cartToken === 'string'
+      ? await Cart.findOne({ token: req.query.cartToken, expiresAt: { $gt: new Date() } })
+      : null;
+    if (req.query.cartToken && !cart) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cart not found or expired'
+      });
+    }
+    
+    const promoCode = await PromoCode.findValidPromoCode(
+      code,
+      cart ? cart.subtotal : subtotal,
+      cart ? cart.currency : currency,
+      cart?.userId ? { userId: cart.userId } : undefined
+    );
     
     if (!promoCode) {
       return res.status(400).json({
@@ -413,14 +462,46 @@ router.get('/validate/:code', async (req: Request, res: Response) => {
       });
     }
     
-    const discount = promoCode.calculateDiscount(subtotal);
+    if (!cart) {
+      return res.json({
+        success: true,
+        data: {
+          isValid: true,
+          discount: promoCode.calculateDiscount(subtotal, currency),
+          promoCode
+        }
+      });
+    }
+    
+    const eligibility = await promoCode.getEligibility(cart.items);
+    if (!eligibility.some(line => line.eligible)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Promo code does not apply to any item in the cart',
+        details: eligibility
+      });
+    }
+    
+    // The discount the code adds on top of the cart's automatic promotions
+    const pricing = await Promotion.evaluate(cart.items, {
+      currency: cart.currency,
+      ...(cart.userId && { userId: cart.userId }),
+      promoCode,
+    });
+    if (pricing.promoCodeBlockedBy) {
+      return res.status(400).json({
+        success: false,
+        error: `Promo code cannot be combined with the ${pricing.promoCodeBlockedBy} promotion`
+      });
+    }
     
     return res.json({
       success: true,
       data: {
         isValid: true,
-        discount,
-        promoCode
+        discount: pricing.promotions.find(promotion => promotion.promoCode === promoCode.code)?.amount ?? 0,
+        promoCode,
+        eligibility
       }
     });
   } catch (error) {
@@ -437,7 +518,10 @@ router.get('/validate/:code', async (req: Request, res: Response) => {
  * /api/promos/analytics:
  *   get:
  *     summary: Get promo code analytics
+ *     description: Usage counts come from the codes; unique redeemers, discount and revenue come from the redemption ledger and leave out cancelled orders. byCode has one entry per code and currency.
  *     tags: [Promos]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Promo code analytics
@@ -461,8 +545,30 @@ router.get('/validate/:code', async (req: Request, res: Response) => {
  *                       type: number
  *                     typeStats:
  *                       type: object
+ *                     uniqueRedeemers:
+ *                       type: number
+ *                       description: Customers (accounts, or emails for guests) who redeemed any code
+ *                     byCode:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           code:
+ *                             type: string
+ *                           currency:
+ *                             type: string
+ *                           redemptions:
+ *                             type: number
+ *                           uniqueRedeemers:
+ *                             type: number
+ *                           discount:
+ *                             type: number
+ *                             description: Discount the code gave
+ *                           revenue:
+ *                             type: number
+ *                             description: Total of the orders that redeemed the code
  */
-router.get('/analytics/overview', async (req: Request, res: Response) => {
+router.get('/analytics/overview', authenticate, authorize('admin'), async (req: Request, res: Response) => {
   try {
     const analytics = await PromoCode.getPromoAnalytics();
     
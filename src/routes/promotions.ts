@@ -0,0 +1,314 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { Promotion } from '../models/Promotion';
+import { authenticate, authorize } from '../middleware/auth';
+import { promotionSchema } from '../validation/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/promotions:
+ *   get:
+ *     summary: Get promotions
+ *     description: All promotions, in the order they are applied (highest priority first).
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *         description: Filter by active status
+ *     responses:
+ *       200:
+ *         description: List of promotions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Promotion'
+ */
+router.get('/', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const filter = req.query.isActive !== undefined ? { isActive: req.query.isActive === 'true' } : {};
+    const promotions = await Promotion.find(filter).sort({ priority: -1, createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: promotions
+    });
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch promotions'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/promotions:
+ *   post:
+ *     summary: Create a promotion
+ *     description: Promotions apply automatically, without a code, to carts meeting all their conditions.
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PromotionInput'
+ *     responses:
+ *       201:
+ *         description: Promotion created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Promotion'
+ *       400:
+ *         description: Invalid request data
+ */
+router.post('/', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const promotionData = promotionSchema.parse(req.body);
+    const promotion = await Promotion.create(promotionData);
+
+    return res.status(201).json({
+      success: true,
+      data: promotion
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    console.error('Error creating promotion:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create promotion'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/promotions/{id}:
+ *   get:
+ *     summary: Get promotion by ID
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Promotion ID
+ *     responses:
+ *       200:
+ *         description: Promotion details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Promotion'
+ *       404:
+ *         description: Promotion not found
+ */
+router.get('/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid promotion ID'
+      });
+    }
+
+    const promotion = await Promotion.findById(id);
+
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Promotion not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: promotion
+    });
+  } catch (error) {
+    console.error('Error fetching promotion:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch promotion'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/promotions/{id}:
+ *   put:
+ *     summary: Update a promotion
+ *     description: Fields that are sent replace the stored ones; conditions and actions are replaced as a whole. Carts pick up the change the next time they are updated; checkout always uses the current promotions.
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Promotion ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PromotionInput'
+ *     responses:
+ *       200:
+ *         description: Promotion updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Promotion'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Promotion not found
+ */
+router.put('/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const updateData = promotionSchema.partial().parse(req.body);
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid promotion ID'
+      });
+    }
+
+    const promotion = await Promotion.findByIdAndUpdate(id, updateData, { new: true, runValidators: true });
+
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Promotion not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: promotion
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    console.error('Error updating promotion:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update promotion'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/promotions/{id}:
+ *   delete:
+ *     summary: Delete a promotion
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Promotion ID
+ *     responses:
+ *       200:
+ *         description: Promotion deleted
+ *       404:
+ *         description: Promotion not found
+ */
+router.delete('/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid promotion ID'
+      });
+    }
+
+    const promotion = await Promotion.findByIdAndDelete(id);
+
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Promotion not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Promotion deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting promotion:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete promotion'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,526 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { Order, IOrder } from '../models/Order';
+import { ReturnRequest, IReturnRequest, ReturnStatus } from '../models/ReturnRequest';
+import { createAppError, isAppError } from '../middleware/errorHandler';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { returnCreateSchema, returnStatusNoteSchema, returnInspectSchema } from '../validation/schemas';
+import { isOrderOwner } from '../services/orders';
+import { createReturn, inspectReturn, updateReturnStatus } from '../services/returns';
+
+// Mounted under /api/orders/:id/returns
+const router = Router({ mergeParams: true });
+
+const isStaff = (req: AuthRequest): boolean => req.user?.role === 'admin' || req.user?.role === 'support';
+
+// Loads the order from the path and checks the user may see its returns
+const findOrder = async (req: AuthRequest): Promise<IOrder> => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id ?? '')) {
+    throw createAppError('Invalid order ID', 400);
+  }
+
+  const order = await Order.findById(id);
+  if (!order) {
+    throw createAppError('Order not found', 404);
+  }
+  if (!isStaff(req) && !isOrderOwner(order, req.user)) {
+    throw createAppError('You can only manage returns for your own orders', 403);
+  }
+  return order;
+};
+
+const findReturn = async (order: IOrder, returnId?: string): Promise<IReturnRequest> => {
+  if (!mongoose.Types.ObjectId.isValid(returnId ?? '')) {
+    throw createAppError('Invalid return ID', 400);
+  }
+
+  const returnRequest = await ReturnRequest.findOne({ _id: returnId, orderId: order._id });
+  if (!returnRequest) {
+    throw createAppError('Return not found', 404);
+  }
+  return returnRequest;
+};
+
+/**
+ * @swagger
+ * /api/orders/{id}/returns:
+ *   post:
+ *     summary: Request a return for items of a delivered order
+ *     description: Available to the customer who placed the order and to staff, within the return window counted from delivery (RETURN_WINDOW_DAYS). Each item can be returned up to the quantity that was neither refunded nor claimed by another open return.
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReturnRequestInput'
+ *     responses:
+ *       201:
+ *         description: Return requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReturnRequest'
+ *       400:
+ *         description: Invalid items or quantities, or the return window has closed
+ *       403:
+ *         description: Not the customer who placed the order
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The order has not been delivered
+ */
+router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const returnData = returnCreateSchema.parse(req.body);
+    const order = await findOrder(req);
+
+    const returnRequest = await createReturn(order, {
+      items: returnData.items,
+      resolution: returnData.resolution,
+      ...(returnData.note && { note: returnData.note }),
+      ...(req.user && { requestedBy: req.user }),
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: returnRequest
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error creating return:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create return'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/orders/{id}/returns:
+ *   get:
+ *     summary: List the returns of an order
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Returns of the order, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReturnRequest'
+ *       403:
+ *         description: Not the customer who placed the order
+ *       404:
+ *         description: Order not found
+ */
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const order = await findOrder(req);
+    const returns = await ReturnRequest.find({ orderId: order._id }).sort({ createdAt: -1 });
+
+    return res.json({
+      success: true,
+      data: returns
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error fetching returns:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch returns'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/orders/{id}/returns/{returnId}:
+ *   get:
+ *     summary: Get a return of an order
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID
+ *     responses:
+ *       200:
+ *         description: Return details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReturnRequest'
+ *       403:
+ *         description: Not the customer who placed the order
+ *       404:
+ *         description: Order or return not found
+ */
+router.get('/:returnId', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const order = await findOrder(req);
+    const returnRequest = await findReturn(order, req.params.returnId);
+
+    return res.json({
+      success: true,
+      data: returnRequest
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error fetching return:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch return'
+    });
+  }
+});
+
+// Approve, reject and receive only move the return along; inspect settles it
+const changeReturnStatus = (status: ReturnStatus, action: string) =>
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { note } = returnStatusNoteSchema.parse(req.body ?? {});
+      const order = await findOrder(req);
+      const returnRequest = await findReturn(order, req.params.returnId);
+
+      const updatedReturn = await updateReturnStatus(returnRequest, order, status, {
+        ...(note && { note }),
+        ...(req.user && { changedBy: req.user }),
+      });
+
+      return res.json({
+        success: true,
+        data: updatedReturn
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.errors
+        });
+      }
+
+      if (isAppError(error)) {
+        return res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error(`Error trying to ${action} return:`, error);
+      return res.status(500).json({
+        success: false,
+        error: `Failed to ${action} return`
+      });
+    }
+  };
+
+/**
+ * @swagger
+ * /api/orders/{id}/returns/{returnId}/approve:
+ *   post:
+ *     summary: Approve a requested return
+ *     description: The customer can then send the goods back.
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return approved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReturnRequest'
+ *       404:
+ *         description: Order or return not found
+ *       409:
+ *         description: The return is not in the requested status
+ */
+router.post('/:returnId/approve', authenticate, authorize('admin', 'support'), changeReturnStatus('approved', 'approve'));
+
+/**
+ * @swagger
+ * /api/orders/{id}/returns/{returnId}/reject:
+ *   post:
+ *     summary: Reject a return
+ *     description: Rejects a requested return, or received goods without a refund (the same as inspecting them with accepted false).
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReturnRequest'
+ *       404:
+ *         description: Order or return not found
+ *       409:
+ *         description: The return is approved, or already accepted or rejected
+ */
+router.post('/:returnId/reject', authenticate, authorize('admin', 'support'), changeReturnStatus('rejected', 'reject'));
+
+/**
+ * @swagger
+ * /api/orders/{id}/returns/{returnId}/receive:
+ *   post:
+ *     summary: Mark the goods of an approved return as received
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Goods received, ready for inspection
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReturnRequest'
+ *       404:
+ *         description: Order or return not found
+ *       409:
+ *         description: The return is not approved
+ */
+router.post('/:returnId/receive', authenticate, authorize('admin', 'support'), changeReturnStatus('received', 'receive'));
+
+/**
+ * @swagger
+ * /api/orders/{id}/returns/{returnId}/inspect:
+ *   post:
+ *     summary: Record the inspection of received goods
+ *     description: Accepting the return refunds the returned items to the original payment or as store credit, valued like item refunds, and puts them back in stock unless restock is false. Rejecting it closes the return without a refund. If the refund fails the return stays received and can be inspected again.
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReturnInspectInput'
+ *     responses:
+ *       200:
+ *         description: Return accepted and refunded, or rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReturnRequest'
+ *       404:
+ *         description: Order or return not found
+ *       409:
+ *         description: The return has not been received, or the order's payment cannot be refunded
+ */
+router.post('/:returnId/inspect', authenticate, authorize('admin', 'support'), async (req: AuthRequest, res: Response) => {
+  try {
+    const inspection = returnInspectSchema.parse(req.body);
+    const order = await findOrder(req);
+    const returnRequest = await findReturn(order, req.params.returnId);
+
+    const inspectedReturn = await inspectReturn(returnRequest, order, {
+      accepted: inspection.accepted,
+      restock: inspection.restock,
+      ...(inspection.resolution && { resolution: inspection.resolution }),
+      ...(inspection.note && { note: inspection.note }),
+      ...(req.user && { inspectedBy: req.user }),
+    });
+
+    return res.json({
+      success: true,
+      data: inspectedReturn
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isAppError(error)) {
+      return res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error inspecting return:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to inspect return'
+    });
+  }
+});
+
+export default router;
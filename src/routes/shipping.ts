@@ -0,0 +1,241 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ShippingZone } from '../models/ShippingZone';
+import { authenticate, authorize } from '../middleware/auth';
+import { shippingZoneSchema } from '../validation/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/shipping/zones:
+ *   get:
+ *     summary: Get shipping zones
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Shipping zones with their methods and rates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ShippingZone'
+ */
+router.get('/zones', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const zones = await ShippingZone.find().sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: zones
+    });
+  } catch (error) {
+    console.error('Error fetching shipping zones:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch shipping zones'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/shipping/zones:
+ *   post:
+ *     summary: Create a shipping zone
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShippingZoneInput'
+ *     responses:
+ *       201:
+ *         description: Shipping zone created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ShippingZone'
+ *       400:
+ *         description: Invalid request data
+ */
+router.post('/zones', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const zoneData = shippingZoneSchema.parse(req.body);
+    const zone = await ShippingZone.create(zoneData);
+
+    return res.status(201).json({
+      success: true,
+      data: zone
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    console.error('Error creating shipping zone:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create shipping zone'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/shipping/zones/{id}:
+ *   put:
+ *     summary: Update a shipping zone
+ *     description: Fields that are sent replace the stored ones; methods are replaced as a whole.
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shipping zone ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShippingZoneInput'
+ *     responses:
+ *       200:
+ *         description: Shipping zone updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ShippingZone'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Shipping zone not found
+ */
+router.put('/zones/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const updateData = shippingZoneSchema.partial().parse(req.body);
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid shipping zone ID'
+      });
+    }
+
+    const zone = await ShippingZone.findByIdAndUpdate(id, updateData, { new: true, runValidators: true });
+
+    if (!zone) {
+      return res.status(404).json({
+        success: false,
+        error: 'Shipping zone not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: zone
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    console.error('Error updating shipping zone:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update shipping zone'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/shipping/zones/{id}:
+ *   delete:
+ *     summary: Delete a shipping zone
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shipping zone ID
+ *     responses:
+ *       200:
+ *         description: Shipping zone deleted
+ *       404:
+ *         description: Shipping zone not found
+ */
+router.delete('/zones/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid shipping zone ID'
+      });
+    }
+
+    const zone = await ShippingZone.findByIdAndDelete(id);
+
+    if (!zone) {
+      return res.status(404).json({
+        success: false,
+        error: 'Shipping zone not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Shipping zone deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting shipping zone:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete shipping zone'
+    });
+  }
+});
+
+export default router;
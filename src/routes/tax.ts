@@ -0,0 +1,390 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { TaxRate } from '../models/TaxRate';
+import { TaxClass } from '../models/TaxClass';
+import { authenticate, authorize } from '../middleware/auth';
+import { taxRateSchema, taxClassSchema } from '../validation/schemas';
+
+const router = Router();
+
+const isDuplicateKeyError = (error: unknown): boolean => (error as any)?.code === 11000;
+
+/**
+ * @swagger
+ * /api/tax/rates:
+ *   get:
+ *     summary: Get tax rates
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: country
+ *         schema:
+ *           type: string
+ *         description: Filter by country
+ *       - in: query
+ *         name: taxClass
+ *         schema:
+ *           type: string
+ *         description: Filter by tax class
+ *     responses:
+ *       200:
+ *         description: Tax rates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TaxRate'
+ */
+router.get('/rates', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const filter: Record<string, string> = {};
+    if (req.query.country) filter.country = String(req.query.country).toUpperCase();
+    if (req.query.taxClass) filter.taxClass = String(req.query.taxClass).toLowerCase();
+
+    const rates = await TaxRate.find(filter).sort({ country: 1, state: 1, zipCode: 1, taxClass: 1 });
+
+    res.json({
+      success: true,
+      data: rates
+    });
+  } catch (error) {
+    console.error('Error fetching tax rates:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch tax rates'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tax/rates:
+ *   post:
+ *     summary: Create a tax rate
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TaxRateInput'
+ *     responses:
+ *       201:
+ *         description: Tax rate created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TaxRate'
+ *       400:
+ *         description: Invalid request data
+ *       409:
+ *         description: A rate for this location and tax class already exists
+ */
+router.post('/rates', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const rateData = taxRateSchema.parse(req.body);
+    const rate = await TaxRate.create(rateData);
+
+    return res.status(201).json({
+      success: true,
+      data: rate
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'A rate for this location and tax class already exists'
+      });
+    }
+
+    console.error('Error creating tax rate:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create tax rate'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tax/rates/{id}:
+ *   put:
+ *     summary: Update a tax rate
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tax rate ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TaxRateInput'
+ *     responses:
+ *       200:
+ *         description: Tax rate updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TaxRate'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Tax rate not found
+ *       409:
+ *         description: A rate for this location and tax class already exists
+ */
+router.put('/rates/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const updateData = taxRateSchema.partial().parse(req.body);
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid tax rate ID'
+      });
+    }
+
+    const rate = await TaxRate.findByIdAndUpdate(id, updateData, { new: true, runValidators: true });
+
+    if (!rate) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tax rate not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: rate
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'A rate for this location and tax class already exists'
+      });
+    }
+
+    console.error('Error updating tax rate:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update tax rate'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tax/rates/{id}:
+ *   delete:
+ *     summary: Delete a tax rate
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tax rate ID
+ *     responses:
+ *       200:
+ *         description: Tax rate deleted
+ *       404:
+ *         description: Tax rate not found
+ */
+router.delete('/rates/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!require('mongoose').Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid tax rate ID'
+      });
+    }
+
+    const rate = await TaxRate.findByIdAndDelete(id);
+
+    if (!rate) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tax rate not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Tax rate deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting tax rate:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete tax rate'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tax/classes:
+ *   get:
+ *     summary: Get tax classes
+ *     description: Categories not listed in any tax class are taxed in the standard class.
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax classes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TaxClass'
+ */
+router.get('/classes', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const taxClasses = await TaxClass.find().sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: taxClasses
+    });
+  } catch (error) {
+    console.error('Error fetching tax classes:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch tax classes'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tax/classes/{name}:
+ *   put:
+ *     summary: Create or update a tax class
+ *     description: Assigns product categories to the tax class. A category belongs to one tax class, so it is removed from any other class.
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tax class name, e.g. reduced
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TaxClassInput'
+ *     responses:
+ *       200:
+ *         description: Tax class saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TaxClass'
+ *       400:
+ *         description: Invalid request data
+ */
+router.put('/classes/:name', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const name = (req.params.name ?? '').toLowerCase();
+    const classData = taxClassSchema.parse(req.body);
+
+    await TaxClass.updateMany(
+      { name: { $ne: name }, categories: { $in: classData.categories } },
+      { $pull: { categories: { $in: classData.categories } } }
+    );
+    const taxClass = await TaxClass.findOneAndUpdate(
+      { name },
+      { $set: { ...classData, name } },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    return res.json({
+      success: true,
+      data: taxClass
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    console.error('Error saving tax class:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to save tax class'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,206 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { getBaseCurrency } from '../utils/currency';
+import { roundMoney, toDecimal128 } from '../utils/money';
+
+dotenv.config();
+
+// Converts money amounts stored as floating point numbers (e.g. 539.9699999999) to Decimal128,
+// rounded to the minor unit of their currency. Amounts already stored as Decimal128 are left
+// alone, so the migration can be run again. Stop the API while it runs: documents are rewritten
+// from what was read.
+
+type RawDocument = Record<string, any>;
+
+// Rounds to the currency's minor unit; values that aren't amounts (percentages) are passed without one
+type AmountConverter = (value: unknown, currency?: string) => unknown;
+
+interface MoneyMigration {
+  collection: string;
+  // Fields to $set with their amounts converted
+  convert(doc: RawDocument, amount: AmountConverter): RawDocument;
+}
+
+const BATCH_SIZE = 500;
+
+const currencyOf = (doc: RawDocument): string => doc.currency || getBaseCurrency();
+
+const convertFields = (doc: RawDocument, fields: string[], currency: string, amount: AmountConverter): RawDocument =>
+  Object.fromEntries(fields.filter(field => doc[field] !== undefined).map(field => [field, amount(doc[field], currency)]));
+
+// Line amounts shared by carts and orders: the price, the promotion discounts and the customization surcharges
+const convertLine = (item: RawDocument, currency: string, amount: AmountConverter): RawDocument => ({
+  ...item,
+  ...convertFields(item, ['price', 'discount', 'refundedAmount'], currency, amount),
+  ...(item.discounts && {
+    discounts: item.discounts.map((discount: RawDocument) => ({ ...discount, amount: amount(discount.amount, currency) })),
+  }),
+  ...(item.customizations && {
+    customizations: item.customizations.map((customization: RawDocument) => ({
+      ...customization,
+      ...convertFields(customization, ['surcharge'], currency, amount),
+    })),
+  }),
+  ...(item.tax && { tax: { ...item.tax, ...convertFields(item.tax, ['amount'], currency, amount) } }),
+});
+
+const convertAmounts = (entries: RawDocument[] | undefined, currency: string, amount: AmountConverter) =>
+  (entries ?? []).map(entry => ({ ...entry, amount: amount(entry.amount, currency) }));
+
+const migrations: MoneyMigration[] = [
+  {
+    collection: 'products',
+    convert: (doc, amount) => ({
+      variants: (doc.variants ?? []).map((variant: RawDocument) => ({
+        ...variant,
+        price: amount(variant.price, getBaseCurrency()),
+        ...(variant.prices && {
+          prices: variant.prices.map((price: RawDocument) => ({ ...price, amount: amount(price.amount, price.currency) })),
+        }),
+      })),
+    }),
+  },
+  {
+    collection: 'carts',
+    convert: (doc, amount) => ({
+      items: (doc.items ?? []).map((item: RawDocument) => convertLine(item, currencyOf(doc), amount)),
+      promotions: convertAmounts(doc.promotions, currencyOf(doc), amount),
+      ...convertFields(doc, ['subtotal', 'discount', 'total'], currencyOf(doc), amount),
+    }),
+  },
+  {
+    collection: 'orders',
+    convert: (doc, amount) => ({
+      items: (doc.items ?? []).map((item: RawDocument) => convertLine(item, currencyOf(doc), amount)),
+      promotions: convertAmounts(doc.promotions, currencyOf(doc), amount),
+      tenders: (doc.tenders ?? []).map((tender: RawDocument) => ({
+        ...tender,
+        ...convertFields(tender, ['amount', 'refundedAmount'], currencyOf(doc), amount),
+      })),
+      refunds: (doc.refunds ?? []).map((refund: RawDocument) => ({
+        ...refund,
+        amount: amount(refund.amount, currencyOf(doc)),
+        items: convertAmounts(refund.items, currencyOf(doc), amount),
+        ...(refund.tenders && { tenders: convertAmounts(refund.tenders, currencyOf(doc), amount) }),
+      })),
+      ...convertFields(
+        doc,
+        ['subtotal', 'discount', 'shippingTotal', 'taxTotal', 'total', 'refundedTotal'],
+        currencyOf(doc),
+        amount
+      ),
+    }),
+  },
+  {
+    collection: 'promocodes',
+    convert: (doc, amount) => ({
+      // The value of percentage codes is a percentage, not an amount in the code's currency
+      value: amount(doc.value, doc.type === 'fixed' ? currencyOf(doc) : undefined),
+      ...convertFields(doc, ['maxDiscount', 'minOrderAmount'], currencyOf(doc), amount),
+    }),
+  },
+  {
+    collection: 'promotions',
+    convert: (doc, amount) => ({
+      actions: (doc.actions ?? []).map((action: RawDocument) => ({
+        ...action,
+        // Tiers reached by a quantity start at a number of units, not an amount
+        tiers: (action.tiers ?? []).map((tier: RawDocument) => ({
+          ...tier,
+          min: amount(tier.min, action.tierBasis === 'quantity' ? undefined : currencyOf(doc)),
+        })),
+      })),
+    }),
+  },
+  {
+    collection: 'storecredits',
+    convert: (doc, amount) => ({
+      balance: amount(doc.balance, currencyOf(doc)),
+      transactions: convertAmounts(doc.transactions, currencyOf(doc), amount),
+    }),
+  },
+  {
+    collection: 'shippingzones',
+    convert: (doc, amount) => ({
+      // Shipping rates are set in the base currency
+      methods: (doc.methods ?? []).map((method: RawDocument) => ({
+        ...method,
+        ...convertFields(method, ['flatRate', 'freeShippingThreshold'], getBaseCurrency(), amount),
+        // Weight tiers start at a weight, not an amount
+        tiers: (method.tiers ?? []).map((tier: RawDocument) => ({
+          ...tier,
+          min: amount(tier.min, method.rateType === 'weight' ? undefined : getBaseCurrency()),
+          price: amount(tier.price, getBaseCurrency()),
+        })),
+      })),
+    }),
+  },
+  {
+    collection: 'returnrequests',
+    // The refund is in the currency of the order, which the request doesn't hold, so it is
+    // converted without rounding it again
+    convert: (doc, amount) => ({ ...(doc.refundAmount !== undefined && { refundAmount: amount(doc.refundAmount) }) }),
+  },
+];
+
+async function migrateCollection(migration: MoneyMigration): Promise<number> {
+  const collection = mongoose.connection.collection(migration.collection);
+  const cursor = collection.find({});
+  let operations: any[] = [];
+  let migrated = 0;
+
+  const flush = async () => {
+    if (operations.length > 0) {
+      await collection.bulkWrite(operations, { ordered: false });
+      migrated += operations.length;
+      operations = [];
+    }
+  };
+
+  for await (const doc of cursor) {
+    let converted = 0;
+    const amount: AmountConverter = (value, currency) => {
+      if (typeof value !== 'number') {
+        return value;
+      }
+      converted += 1;
+      return toDecimal128(currency ? roundMoney(value, currency) : value);
+    };
+
+    const update = migration.convert(doc, amount);
+    if (converted > 0) {
+      operations.push({ updateOne: { filter: { _id: doc._id }, update: { $set: update } } });
+    }
+    if (operations.length >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return migrated;
+}
+
+async function migrateMoney() {
+  try {
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/headless-ecommerce';
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    for (const migration of migrations) {
+      const migrated = await migrateCollection(migration);
+      console.log(`✅ ${migration.collection}: ${migrated} documents converted`);
+    }
+
+    console.log('\n🎉 Money migration completed successfully!');
+  } catch (error) {
+    console.error('❌ Money migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('🔌 Disconnected from MongoDB');
+  }
+}
+
+// Run migration. Failures are reported and exit the process from inside migrateMoney, and a
+// CommonJS module can't await at the top level.
+void migrateMoney();
@@ -2,6 +2,11 @@ import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import { Product } from '../models/Product';
 import { PromoCode } from '../models/PromoCode';
+import { TaxRate } from '../models/TaxRate';
+import { TaxClass } from '../models/TaxClass';
+import { ShippingZone } from '../models/ShippingZone';
+import { ExchangeRate } from '../models/ExchangeRate';
+import { User } from '../models/User';
 
 dotenv.config();
 
@@ -281,6 +286,79 @@ const samplePromoCodes = [
   }
 ];
 
+const sampleUsers = [
+  {
+    email: process.env.SEED_ADMIN_EMAIL || 'admin@example.com',
+    password: process.env.SEED_ADMIN_PASSWORD || 'admin12345',
+    firstName: 'Store',
+    lastName: 'Admin',
+    role: 'admin' as const
+  },
+  {
+    email: 'support@example.com',
+    password: 'support12345',
+    firstName: 'Support',
+    lastName: 'Agent',
+    role: 'support' as const
+  }
+];
+
+const sampleTaxClasses = [
+  {
+    name: 'reduced',
+    description: 'Clothing is taxed at reduced rates in some states',
+    categories: ['Clothing']
+  }
+];
+
+const sampleTaxRates = [
+  { name: 'New York State', country: 'USA', state: 'NY', taxClass: 'standard', rate: 4 },
+  { name: 'New York City', country: 'USA', state: 'NY', zipCode: '100', taxClass: 'standard', rate: 8.875 },
+  { name: 'New York City clothing', country: 'USA', state: 'NY', zipCode: '100', taxClass: 'reduced', rate: 4.5 },
+  { name: 'California', country: 'USA', state: 'CA', taxClass: 'standard', rate: 7.25 },
+  { name: 'California clothing', country: 'USA', state: 'CA', taxClass: 'reduced', rate: 7.25 }
+];
+
+const sampleShippingZones = [
+  {
+    name: 'United States',
+    regions: [{ country: 'USA' }],
+    methods: [
+      {
+        code: 'standard',
+        name: 'Standard Shipping',
+        type: 'standard' as const,
+        rateType: 'subtotal' as const,
+        tiers: [{ min: 0, price: 7.99 }, { min: 50, price: 4.99 }],
+        freeShippingThreshold: 100,
+        estimatedDays: { min: 3, max: 5 }
+      },
+      {
+        code: 'express',
+        name: 'Express Shipping',
+        type: 'express' as const,
+        rateType: 'flat' as const,
+        flatRate: 19.99,
+        estimatedDays: { min: 1, max: 2 }
+      },
+      {
+        code: 'pickup',
+        name: 'Store Pickup',
+        type: 'pickup' as const,
+        rateType: 'flat' as const,
+        flatRate: 0
+      }
+    ]
+  }
+];
+
+// Units per one US dollar (the default base currency)
+const sampleExchangeRates = {
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 151.2
+};
+
 async function seedDatabase() {
   try {
     // Connect to MongoDB
@@ -292,6 +370,11 @@ async function seedDatabase() {
     console.log('🗑️  Clearing existing data...');
     await Product.deleteMany({});
     await PromoCode.deleteMany({});
+    await TaxClass.deleteMany({});
+    await TaxRate.deleteMany({});
+    await ShippingZone.deleteMany({});
+    await ExchangeRate.deleteMany({});
+    await User.deleteMany({ role: { $in: ['admin', 'support'] } });
     console.log('✅ Existing data cleared');
 
     // Seed products
@@ -304,16 +387,46 @@ async function seedDatabase() {
     const promoCodes = await PromoCode.insertMany(samplePromoCodes);
     console.log(`✅ ${promoCodes.length} promo codes seeded`);
 
+    // Seed tax classes and rates
+    console.log('🧾 Seeding tax rates...');
+    await TaxClass.insertMany(sampleTaxClasses);
+    const taxRates = await TaxRate.insertMany(sampleTaxRates);
+    console.log(`✅ ${taxRates.length} tax rates seeded`);
+
+    // Seed shipping zones
+    console.log('🚚 Seeding shipping zones...');
+    const shippingZones = await ShippingZone.insertMany(sampleShippingZones);
+    console.log(`✅ ${shippingZones.length} shipping zones seeded`);
+
+    // Seed exchange rates
+    console.log('💱 Seeding exchange rates...');
+    const exchangeRates = await ExchangeRate.replaceRates(sampleExchangeRates);
+    console.log(`✅ ${exchangeRates.length} exchange rates seeded`);
+
+    // Seed staff users (create() runs the password hashing middleware)
+    console.log('👤 Seeding users...');
+    const users = await User.create(sampleUsers);
+    console.log(`✅ ${users.length} users seeded`);
+
     // Create indexes
     console.log('📊 Creating indexes...');
     await Product.createIndexes();
     await PromoCode.createIndexes();
+    await TaxRate.createIndexes();
+    await TaxClass.createIndexes();
+    await ShippingZone.createIndexes();
+    await ExchangeRate.createIndexes();
+    await User.createIndexes();
     console.log('✅ Indexes created');
 
     console.log('\n🎉 Database seeding completed successfully!');
     console.log('\n📋 Summary:');
     console.log(`   Products: ${products.length}`);
     console.log(`   Promo Codes: ${promoCodes.length}`);
+    console.log(`   Tax Rates: ${taxRates.length}`);
+    console.log(`   Shipping Zones: ${shippingZones.length}`);
+    console.log(`   Exchange Rates: ${exchangeRates.length}`);
+    console.log(`   Users: ${users.length} (admin login: ${sampleUsers[0]?.email})`);
     console.log('\n🔗 API Documentation: http://localhost:3000/api-docs');
     console.log('\n🧪 Test the API with these sample requests:');
     console.log('   GET /api/catalog/products');
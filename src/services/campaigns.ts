@@ -0,0 +1,96 @@
+import { randomInt } from 'crypto';
+import { Campaign, ICampaign } from '../models/Campaign';
+import { PromoCode } from '../models/PromoCode';
+import { createAppError } from '../middleware/errorHandler';
+import { CampaignInput } from '../validation/schemas';
+
+// Codes are generated and inserted in batches of this size
+const BATCH_SIZE = 1000;
+// Batches in a row that may come up short because of collisions before generation gives up
+const MAX_SHORT_BATCHES = 5;
+
+const randomCode = (template: CampaignInput['template']): string => {
+  let code = template.prefix;
+  for (let i = 0; i < template.length; i++) {
+    code += template.alphabet[randomInt(template.alphabet.length)];
+  }
+  return code;
+};
+
+const isDuplicateKeyError = (error: any): boolean =>
+  error?.code === 11000 ||
+  (Array.isArray(error?.writeErrors) && error.writeErrors.length > 0 &&
+    error.writeErrors.every((writeError: any) => (writeError.err?.code ?? writeError.code) === 11000));
+
+/**
+ * Creates a campaign and generates its codes. Candidates that are already taken, by an existing
+ * code or by one inserted concurrently (the unique index on `code` rejects those), are replaced
+ * by new candidates until the campaign has all its codes. If generation fails the campaign and
+ * the codes generated so far are removed.
+ */
+export const createCampaign = async (input: CampaignInput): Promise<ICampaign> => {
+  const { template, rules } = input;
+  const campaign = await Campaign.create({
+    name: input.name,
+    ...(input.description && { description: input.description }),
+    prefix: template.prefix,
+    codeLength: template.length,
+    alphabet: template.alphabet,
+    codeCount: 0,
+    isActive: rules.isActive,
+  });
+
+  try {
+    let generated = 0;
+    let shortBatches = 0;
+
+    while (generated < input.count) {
+      const wanted = Math.min(BATCH_SIZE, input.count - generated);
+      const candidates = new Set<string>();
+      while (candidates.size < wanted) {
+        candidates.add(randomCode(template));
+      }
+
+      const taken = await PromoCode.find({ code: { $in: [...candidates] } }, 'code');
+      taken.forEach(promoCode => candidates.delete(promoCode.code));
+
+      let inserted = 0;
+      try {
+        const created = await PromoCode.insertMany(
+          [...candidates].map(code => ({ ...rules, code, campaignId: campaign._id })),
+          { ordered: false }
+        );
+        inserted = created.length;
+      } catch (error: any) {
+        if (!isDuplicateKeyError(error)) {
+          throw error;
+        }
+        inserted = error.insertedDocs?.length ?? 0;
+      }
+
+      generated += inserted;
+      shortBatches = inserted < wanted ? shortBatches + 1 : 0;
+      if (shortBatches >= MAX_SHORT_BATCHES) {
+        throw createAppError('Could not generate enough unique codes; use a longer length or a larger alphabet', 409);
+      }
+    }
+
+    campaign.codeCount = generated;
+    return await campaign.save();
+  } catch (error) {
+    await PromoCode.deleteMany({ campaignId: campaign._id });
+    await Campaign.deleteOne({ _id: campaign._id });
+    throw error;
+  }
+};
+
+// Activates or deactivates a campaign together with all its codes
+export const setCampaignActive = async (campaignId: string, isActive: boolean): Promise<ICampaign | null> => {
+  const campaign = await Campaign.findByIdAndUpdate(campaignId, { isActive }, { new: true });
+  if (!campaign) {
+    return null;
+  }
+
+  await PromoCode.updateMany({ campaignId: campaign._id }, { $set: { isActive } });
+  return campaign;
+};
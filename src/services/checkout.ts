@@ -0,0 +1,225 @@
+import { Cart, ICartItem } from '../models/Cart';
+import { Order, IOrder } from '../models/Order';
+import { PromoCode } from '../models/PromoCode';
+import { PromoRedemption } from '../models/PromoRedemption';
+import { Promotion } from '../models/Promotion';
+import { StockReservation } from '../models/StockReservation';
+import { createAppError } from '../middleware/errorHandler';
+import { CheckoutInput } from '../validation/schemas';
+import { runInTransaction } from './transaction';
+import { authorizeOrderPayment, ensurePaymentIntent, settleOrderWithoutPayment } from './payments';
+import { calculateOrderTotals } from './tax';
+import { selectShippingOption } from './shipping';
+import { getPaymentAmount, planTenders, redeemTenders } from './tenders';
+
+/**
+ * Turns a cart into an order.
+ *
+ * The writes (stock reservation, order, promo usage, gift card and store credit balances, cart)
+ * either all commit or none do: see runInTransaction for how this is guaranteed with and without
+ * replica set support. Once the order exists a payment intent is created for what the gift cards
+ * and store credit don't cover, and authorized right away when the customer sent a payment token.
+ * An order they cover entirely is paid straight away.
+ */
+export const placeOrder = async (checkoutData: CheckoutInput): Promise<IOrder> => {
+  const cart = await Cart.findOne({
+    _id: checkoutData.cartId,
+    expiresAt: { $gt: new Date() }
+  });
+
+  if (!cart) {
+    throw createAppError('Cart not found or expired', 404);
+  }
+
+  if (cart.items.length === 0) {
+    throw createAppError('Cart is empty', 400);
+  }
+
+  // Bring prices and availability up to date; the customer has to see any change before paying.
+  // Stock is left to the reservation, which checks it atomically.
+  const changes = await cart.revalidate({ stock: false });
+  if (changes.length > 0) {
+    throw createAppError('The cart changed since it was last viewed', 409, changes);
+  }
+  const unavailable = cart.items.find(item => item.unavailable);
+  if (unavailable) {
+    throw createAppError(`Product ${unavailable.productName} is no longer available`, 400);
+  }
+
+  // Validate promo code if provided; a code saved on the cart that is no longer valid, or that
+  // the customer may not use, is dropped. One that ran out of uses since it was applied fails
+  // checkout like a code used up while the order is placed: the customer was shown its discount.
+  const customer = {
+    ...(cart.userId && { userId: cart.userId }),
+    email: checkoutData.customerInfo.email,
+  };
+  const code = checkoutData.promoCode || cart.promoCode;
+  let promoCode = code ? await PromoCode.findValidPromoCode(code, cart.subtotal, cart.currency) : null;
+  if (checkoutData.promoCode && !promoCode) {
+    throw createAppError('Invalid or expired promo code', 400);
+  }
+  if (code && !promoCode) {
+    const savedCode = await PromoCode.findOne({ code: code.toUpperCase() });
+    if (savedCode?.maxUses && savedCode.usedCount >= savedCode.maxUses) {
+      throw createAppError('Promo code usage limit reached', 400);
+    }
+  }
+  const customerRestriction = promoCode && await promoCode.checkCustomer(customer);
+  if (customerRestriction && checkoutData.promoCode) {
+    throw createAppError(customerRestriction, 400);
+  }
+  if (customerRestriction) {
+    promoCode = null;
+  }
+
+  // Promotions are worked out again now that the customer's email is known
+  const pricing = await Promotion.evaluate(cart.items, {
+    currency: cart.currency,
+    ...customer,
+    promoCode,
+  });
+  if (checkoutData.promoCode && pricing.promoCodeBlockedBy) {
+    throw createAppError(`Promo code ${checkoutData.promoCode} cannot be combined with the ${pricing.promoCodeBlockedBy} promotion`, 400);
+  }
+  // Only a code that gave a discount counts as used
+  const promoCodeDiscount = pricing.promotions.find(promotion => promotion.promoCode);
+  const promoCodeUsed = promoCodeDiscount?.promoCode;
+
+  // Snapshot the cart: a transaction retry must not see the cart already cleared in memory
+  const items: ICartItem[] = cart.items.map((item, index) => ({
+    ...(item as any).toObject(),
+    discount: pricing.lines[index]?.discount ?? 0,
+    discounts: pricing.lines[index]?.discounts ?? [],
+  }));
+  const shipping = await selectShippingOption(
+    items, pricing.discount, checkoutData.shippingAddress, checkoutData.shippingMethod, cart.currency, pricing.freeShipping
+  );
+  const totals = await calculateOrderTotals(
+    items, pricing.discount, checkoutData.shippingAddress, shipping?.cost, cart.currency
+  );
+
+  // Gift cards first, then store credit, then the payment method for the rest
+  const tenderPlan = await planTenders(totals.total, cart.currency, {
+    giftCardCodes: cart.giftCards,
+    email: checkoutData.customerInfo.email,
+    ...(checkoutData.useStoreCredit && { useStoreCredit: true }),
+    ...(checkoutData.paymentMethod && { paymentMethod: checkoutData.paymentMethod }),
+  });
+  const paymentMethod = tenderPlan.amountDue > 0 || tenderPlan.tenders.length === 0
+    ? checkoutData.paymentMethod
+    : tenderPlan.tenders[0]?.type as IOrder['paymentMethod'];
+  if (!paymentMethod) {
+    throw createAppError('Payment method is required', 400);
+  }
+
+  const cartSnapshot = {
+    items: cart.items.map(item => (item as any).toObject()),
+    promoCode: cart.promoCode,
+    giftCards: [...cart.giftCards],
+    promotions: cart.promotions.map(promotion => (promotion as any).toObject()),
+    subtotal: cart.subtotal,
+    discount: cart.discount,
+    total: cart.total,
+  };
+
+  const order = await runInTransaction(async ({ session, onRollback }) => {
+    const options = session ? { session } : {};
+
+    // Reserve stock before the order is persisted
+    const reservation = await StockReservation.reserve(items.map(item => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      productName: item.productName,
+      variantName: item.variantName,
+    })), options);
+    onRollback(() => reservation.release('checkout_failed'));
+
+    // Create order
+    const order = new Order({
+      cartId: cart._id,
+      userId: cart.userId,
+      customerInfo: checkoutData.customerInfo,
+      shippingAddress: checkoutData.shippingAddress,
+      billingAddress: checkoutData.billingAddress || checkoutData.shippingAddress,
+      items: items.map((item, index) => ({ ...item, tax: totals.lineTaxes[index] })),
+      currency: cart.currency,
+      subtotal: totals.subtotal,
+      discount: totals.discount,
+      ...(shipping && { shippingMethod: { code: shipping.code, name: shipping.name, type: shipping.type } }),
+      shippingTotal: totals.shippingTotal,
+      taxTotal: totals.taxTotal,
+      pricesIncludeTax: totals.pricesIncludeTax,
+      total: totals.total,
+      promoCode: promoCodeUsed,
+      promotions: pricing.promotions,
+      paymentMethod,
+      tenders: tenderPlan.tenders,
+      status: 'pending',
+      paymentStatus: 'pending',
+      reservationId: reservation._id,
+    });
+
+    await order.save(options);
+    onRollback(() => Order.deleteOne({ _id: order._id }));
+
+    await StockReservation.updateOne({ _id: reservation._id }, { orderId: order._id }, options);
+
+    // Fails if a gift card or the store credit was spent elsewhere meanwhile
+    await redeemTenders(order, { ...options, onRollback });
+
+    // Count the promo code usage; fails if the code ran out of uses meanwhile
+    if (promoCodeUsed) {
+      const claimed = await PromoCode.claimUsage(promoCodeUsed, session);
+      if (!claimed) {
+        throw createAppError('Promo code usage limit reached', 400);
+      }
+      onRollback(() => PromoCode.releaseUsage(promoCodeUsed));
+
+      const redemption = await PromoRedemption.record({
+        promoCode: promoCodeUsed,
+        orderId: String(order._id),
+        orderNumber: order.orderNumber,
+        email: checkoutData.customerInfo.email,
+        ...(cart.userId && { userId: cart.userId }),
+        currency: cart.currency,
+        discount: promoCodeDiscount?.amount ?? 0,
+        orderTotal: order.total,
+      }, session);
+      onRollback(() => PromoRedemption.deleteOne({ _id: redemption._id }));
+
+      // Checked again once recorded, in case another checkout of the customer used the code meanwhile
+      if (claimed.maxUsesPerCustomer &&
+          await PromoRedemption.countForCustomer(promoCodeUsed, customer, session) > claimed.maxUsesPerCustomer) {
+        throw createAppError(`Promo code ${promoCodeUsed} can only be used ${claimed.maxUsesPerCustomer} time(s) per customer`, 400);
+      }
+    }
+
+    // Clear cart. Loaded again on every attempt: a retried transaction can't reuse the copy an aborted
+    // attempt cleared and saved, whose version was never stored
+    const current = await Cart.findOne({ _id: cart._id, __v: cart.__v }, null, options);
+    if (!current) {
+      throw createAppError('Cart was changed by another request', 409);
+    }
+    await current.clearCart(session);
+    onRollback(() => Cart.updateOne({ _id: cart._id }, { $set: cartSnapshot }));
+
+    return order;
+  });
+
+  // Start the payment. The order stands even if the provider is unavailable:
+  // the payment can be authorized later through PUT /api/orders/:id/payment.
+  try {
+    if (order.tenders.length > 0 && getPaymentAmount(order) === 0) {
+      return await settleOrderWithoutPayment(order);
+    }
+
+    const withIntent = await ensurePaymentIntent(order);
+    return checkoutData.paymentToken
+      ? await authorizeOrderPayment(withIntent, checkoutData.paymentToken)
+      : withIntent;
+  } catch (error) {
+    console.error(`Failed to start payment for order ${order.orderNumber}:`, error);
+    return order;
+  }
+};
@@ -0,0 +1,119 @@
+import { Order, IOrder } from '../models/Order';
+import { Product } from '../models/Product';
+import { PromoCode } from '../models/PromoCode';
+import { PromoRedemption } from '../models/PromoRedemption';
+import { StockReservation } from '../models/StockReservation';
+import { AuthUser } from '../middleware/auth';
+import { runInTransaction } from './transaction';
+import { voidOrderPayment } from './payments';
+import { restoreCancelledTenders } from './tenders';
+
+// Whether the user placed the order, either signed in or as a guest with the same email
+export const isOrderOwner = (order: IOrder, user?: AuthUser): boolean => {
+  if (!user) {
+    return false;
+  }
+  return order.userId?.toString() === user.id ||
+    order.customerInfo.email.toLowerCase() === user.email.toLowerCase();
+};
+
+export interface CancelOrderOptions {
+  reason?: string;
+  // Omitted when the system cancels the order itself
+  cancelledBy?: AuthUser;
+}
+
+/**
+ * Cancels an order and undoes what checkout did: the stock goes back onto the variants,
+ * the promo code use is given back, gift card and store credit tenders get their amounts
+ * back, an authorized payment is voided and a paid order is marked for refund (or refunded,
+ * when gift cards and store credit paid for all of it).
+ *
+ * Safe to call more than once. Each side effect is claimed with a conditional update on the
+ * order before it runs, so a repeated cancel never restocks twice; it only finishes whatever
+ * an earlier, interrupted cancel left undone.
+ */
+export const cancelOrder = async (order: IOrder, options: CancelOrderOptions = {}): Promise<IOrder> => {
+  await runInTransaction(async ({ session, onRollback }) => {
+    const sessionOptions = session ? { session } : {};
+
+    // Rejected with 409 once the order has shipped
+    if (order.status !== 'cancelled') {
+      try {
+        await order.updateStatus('cancelled', {
+          ...(options.reason && { note: options.reason }),
+          ...(options.cancelledBy && { changedBy: options.cancelledBy }),
+          ...sessionOptions,
+        });
+      } catch (error) {
+        // A concurrent cancel got there first: carry on with the side effects
+        const current = await Order.findById(order._id, 'status', sessionOptions);
+        if (current?.status !== 'cancelled') {
+          throw error;
+        }
+      }
+    }
+
+    const restock = await Order.updateOne(
+      { _id: order._id, restockedAt: { $exists: false } },
+      { $set: { restockedAt: new Date() } },
+      sessionOptions
+    );
+    if (restock.modifiedCount > 0) {
+      onRollback(() => Order.updateOne({ _id: order._id }, { $unset: { restockedAt: 1 } }));
+
+      if (order.reservationId) {
+        // A reservation that already expired gave its stock back on its own
+        const reservation = await StockReservation.findById(order.reservationId, null, sessionOptions);
+        await reservation?.release('order_cancelled', session);
+      } else {
+        // Orders placed before stock reservations took stock directly
+        for (const item of order.items) {
+          await Product.incrementVariantStock(item.productId.toString(), item.variantId, item.quantity, session);
+        }
+      }
+    }
+
+    if (order.promoCode) {
+      const promoRelease = await Order.updateOne(
+        { _id: order._id, promoUsageReleasedAt: { $exists: false } },
+        { $set: { promoUsageReleasedAt: new Date() } },
+        sessionOptions
+      );
+      if (promoRelease.modifiedCount > 0) {
+        onRollback(() => Order.updateOne({ _id: order._id }, { $unset: { promoUsageReleasedAt: 1 } }));
+        await PromoCode.releaseUsage(order.promoCode, session);
+        await PromoRedemption.release(String(order._id), session);
+      }
+    }
+
+    await Order.updateOne(
+      { _id: order._id, paymentStatus: 'paid' },
+      { $set: { paymentStatus: 'refund_pending' } },
+      sessionOptions
+    );
+  });
+
+  // Balances are restored once the cancel is committed, each once per order
+  if (order.tenders?.length) {
+    await restoreCancelledTenders((await Order.findById(order._id)) as IOrder);
+    await Order.updateOne(
+      { _id: order._id, paymentStatus: 'refund_pending', $expr: { $gte: ['$refundedTotal', '$total'] } },
+      { $set: { paymentStatus: 'refunded' } }
+    );
+  }
+
+  const cancelled = (await Order.findById(order._id)) as IOrder;
+
+  // Money that was only authorized is released straight away instead of refunded later
+  // (a failed void is only logged: the cancel itself is done, and authorizations lapse on their own)
+  if (cancelled.paymentStatus === 'authorized') {
+    try {
+      return await voidOrderPayment(cancelled);
+    } catch (error) {
+      console.error(`Failed to void payment for cancelled order ${cancelled.orderNumber}:`, error);
+      return (await Order.findById(order._id)) as IOrder;
+    }
+  }
+  return cancelled;
+};
@@ -0,0 +1,177 @@
+import { Order, IOrder } from '../../models/Order';
+import { StockReservation } from '../../models/StockReservation';
+import { createAppError } from '../../middleware/errorHandler';
+import { getPaymentAmount } from '../tenders';
+import { MockPaymentProvider } from './mockProvider';
+import { PaymentEvent, PaymentEventType, PaymentProvider } from './types';
+
+export * from './types';
+export { signWebhookPayload, verifyWebhookSignature } from './webhookSignature';
+
+const providers = new Map<string, PaymentProvider>();
+
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+registerPaymentProvider(new MockPaymentProvider());
+
+// Returns the named provider, or the one configured with PAYMENT_PROVIDER for new payments
+export const getPaymentProvider = (name: string = process.env.PAYMENT_PROVIDER || 'mock'): PaymentProvider => {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw createAppError(`Unknown payment provider ${name}`, 404);
+  }
+  return provider;
+};
+
+// Payment status each event moves an order to, and the statuses it may come from
+// (refunds are recorded in the order's refund ledger instead, see recordRefund)
+const PAYMENT_EVENT_TRANSITIONS: Record<
+  Exclude<PaymentEventType, 'payment.refunded'>,
+  { to: IOrder['paymentStatus']; from: IOrder['paymentStatus'][] }
+> = {
+  'payment.authorized': { to: 'authorized', from: ['pending', 'failed'] },
+  'payment.captured': { to: 'paid', from: ['pending', 'authorized', 'failed'] },
+  'payment.failed': { to: 'failed', from: ['pending', 'authorized'] },
+  'payment.voided': { to: 'voided', from: ['authorized'] },
+};
+
+/**
+ * Updates the order a payment event belongs to, and confirms pending orders once paid.
+ * Events that don't fit the order's current payment status (duplicates, or events
+ * arriving out of order) leave the order unchanged.
+ * Returns null when no order uses the event's payment intent.
+ */
+export const applyPaymentEvent = async (event: PaymentEvent): Promise<IOrder | null> => {
+  const order = await Order.findOne({ paymentProvider: event.provider, paymentIntentId: event.intentId });
+  if (!order) {
+    return null;
+  }
+
+  // Refunds we issued ourselves are already in the ledger; others (e.g. made in the
+  // provider's dashboard) are recorded as amount-only refunds of the payment tender
+  if (event.type === 'payment.refunded') {
+    const hasPaymentTender = order.tenders.some(tender => tender.type === 'payment');
+    try {
+      return (await order.recordRefund({
+        amount: event.amount,
+        method: 'original_payment',
+        items: [],
+        ...(hasPaymentTender && { tenders: [{ type: 'payment', amount: event.amount }] }),
+        reason: 'Refunded at the payment provider',
+        restock: false,
+        providerRefundId: event.refundId ?? event.id,
+      })) ?? order;
+    } catch (error) {
+      console.error(`Could not record refund ${event.refundId ?? event.id} for order ${order.orderNumber}:`, error);
+      return order;
+    }
+  }
+
+  // Make the stock reservation permanent once the money is taken
+  if (event.type === 'payment.captured' && order.reservationId) {
+    const reservation = await StockReservation.findById(order.reservationId);
+    try {
+      await reservation?.commit();
+    } catch (error) {
+      console.error(`Captured payment for order ${order.orderNumber} but could not commit its stock:`, error);
+    }
+  }
+
+  const transition = PAYMENT_EVENT_TRANSITIONS[event.type];
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, paymentStatus: { $in: transition.from } },
+    { $set: { paymentStatus: transition.to } },
+    { new: true }
+  );
+
+  // A paid order no longer needs manual confirmation
+  if (updated?.paymentStatus === 'paid' && updated.status === 'pending') {
+    try {
+      return await updated.updateStatus('confirmed', { note: 'Payment captured' });
+    } catch (error) {
+      // Changed by someone else in the meantime (e.g. cancelled); the payment update still stands
+      console.error(`Could not confirm paid order ${updated.orderNumber}:`, error);
+      return (await Order.findById(order._id)) as IOrder;
+    }
+  }
+
+  return updated ?? order;
+};
+
+// Marks an order paid when there is nothing left to charge, e.g. when gift cards paid for all of it,
+// and confirms it like a captured payment would
+export const settleOrderWithoutPayment = async (order: IOrder): Promise<IOrder> => {
+  if (order.reservationId) {
+    const reservation = await StockReservation.findById(order.reservationId);
+    await reservation?.commit();
+  }
+
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, paymentStatus: 'pending' },
+    { $set: { paymentStatus: 'paid' } },
+    { new: true }
+  );
+  if (updated?.status === 'pending') {
+    return updated.updateStatus('confirmed', { note: 'Paid with gift cards or store credit' });
+  }
+  return updated ?? order;
+};
+
+// Creates the provider payment intent for an order unless it already has one
+export const ensurePaymentIntent = async (order: IOrder): Promise<IOrder> => {
+  if (order.paymentIntentId) {
+    return order;
+  }
+
+  const provider = getPaymentProvider();
+  const intent = await provider.createIntent({
+    amount: getPaymentAmount(order),
+    currency: order.currency,
+    reference: order.orderNumber,
+  });
+
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, paymentIntentId: { $exists: false } },
+    { $set: { paymentProvider: provider.name, paymentIntentId: intent.id } },
+    { new: true }
+  );
+
+  // Another request created an intent first; use that one
+  return updated ?? (await Order.findById(order._id)) as IOrder;
+};
+
+const requirePaymentStatus = (order: IOrder, allowed: IOrder['paymentStatus'][], action: string): void => {
+  if (!allowed.includes(order.paymentStatus)) {
+    throw createAppError(`Cannot ${action} a payment that is ${order.paymentStatus}`, 409);
+  }
+};
+
+export const authorizeOrderPayment = async (order: IOrder, paymentToken: string): Promise<IOrder> => {
+  requirePaymentStatus(order, ['pending', 'failed'], 'authorize');
+
+  const withIntent = await ensurePaymentIntent(order);
+  const event = await getPaymentProvider(withIntent.paymentProvider).authorize(withIntent.paymentIntentId as string, paymentToken);
+  return (await applyPaymentEvent(event)) ?? withIntent;
+};
+
+export const captureOrderPayment = async (order: IOrder): Promise<IOrder> => {
+  requirePaymentStatus(order, ['authorized'], 'capture');
+
+  // Fails with 409 if the reservation expired and the stock is gone, before any money moves
+  if (order.reservationId) {
+    const reservation = await StockReservation.findById(order.reservationId);
+    await reservation?.commit();
+  }
+
+  const event = await getPaymentProvider(order.paymentProvider).capture(order.paymentIntentId as string);
+  return (await applyPaymentEvent(event)) ?? order;
+};
+
+export const voidOrderPayment = async (order: IOrder): Promise<IOrder> => {
+  requirePaymentStatus(order, ['authorized'], 'void');
+
+  const event = await getPaymentProvider(order.paymentProvider).void(order.paymentIntentId as string);
+  return (await applyPaymentEvent(event)) ?? order;
+};
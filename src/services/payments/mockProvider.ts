@@ -0,0 +1,167 @@
+import { createAppError } from '../../middleware/errorHandler';
+import {
+  CreateIntentInput,
+  PAYMENT_EVENT_TYPES,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentIntent,
+  PaymentProvider,
+  WebhookHeaders,
+} from './types';
+import { verifyWebhookSignature } from './webhookSignature';
+
+type MockIntentStatus = 'requires_authorization' | 'authorized' | 'captured' | 'voided' | 'failed';
+
+interface MockIntent extends PaymentIntent {
+  status: MockIntentStatus;
+  refunded: number;
+}
+
+// Tokens that make the mock decline an authorization, with the reason reported
+export const MOCK_DECLINE_TOKENS: Record<string, string> = {
+  tok_declined: 'card_declined',
+  tok_insufficient_funds: 'insufficient_funds',
+};
+
+/**
+ * In-process gateway for tests and local development. No network, no randomness:
+ * ids are sequential, every token authorizes except those in MOCK_DECLINE_TOKENS,
+ * and state lives in memory for the lifetime of the process.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+
+  private intents = new Map<string, MockIntent>();
+  private sequence = 0;
+
+  // Falls back to PAYMENT_WEBHOOK_SECRET, read when a webhook arrives
+  private readonly webhookSecret: string | undefined;
+
+  constructor(webhookSecret?: string) {
+    this.webhookSecret = webhookSecret;
+  }
+
+  private getWebhookSecret(): string {
+    const secret = this.webhookSecret || process.env.PAYMENT_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new Error('PAYMENT_WEBHOOK_SECRET is not configured');
+    }
+    return secret;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_${this.sequence.toString().padStart(6, '0')}`;
+  }
+
+  private getIntent(intentId: string): MockIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw createAppError(`Unknown payment intent ${intentId}`, 404);
+    }
+    return intent;
+  }
+
+  private event(type: PaymentEventType, intent: MockIntent, details: Partial<PaymentEvent> = {}): PaymentEvent {
+    return {
+      id: this.nextId('mock_evt'),
+      provider: this.name,
+      type,
+      intentId: intent.id,
+      amount: intent.amount,
+      occurredAt: new Date(),
+      ...details,
+    };
+  }
+
+  private requireStatus(intent: MockIntent, allowed: MockIntentStatus[], action: string): void {
+    if (!allowed.includes(intent.status)) {
+      throw createAppError(`Cannot ${action} a payment that is ${intent.status}`, 409);
+    }
+  }
+
+  // The operations settle in memory but stay async, so failures reject as PaymentProvider requires
+  /* eslint-disable @typescript-eslint/require-await */
+  async createIntent(input: CreateIntentInput): Promise<PaymentIntent> {
+    const intent: MockIntent = {
+      id: this.nextId('mock_pi'),
+      provider: this.name,
+      amount: input.amount,
+      currency: input.currency,
+      status: 'requires_authorization',
+      refunded: 0,
+    };
+    this.intents.set(intent.id, intent);
+    return { id: intent.id, provider: intent.provider, amount: intent.amount, currency: intent.currency };
+  }
+
+  async authorize(intentId: string, paymentToken: string): Promise<PaymentEvent> {
+    const intent = this.getIntent(intentId);
+    this.requireStatus(intent, ['requires_authorization', 'failed'], 'authorize');
+
+    const failureReason = MOCK_DECLINE_TOKENS[paymentToken];
+    if (failureReason) {
+      intent.status = 'failed';
+      return this.event('payment.failed', intent, { failureReason });
+    }
+
+    intent.status = 'authorized';
+    return this.event('payment.authorized', intent);
+  }
+
+  async capture(intentId: string): Promise<PaymentEvent> {
+    const intent = this.getIntent(intentId);
+    this.requireStatus(intent, ['authorized'], 'capture');
+
+    intent.status = 'captured';
+    return this.event('payment.captured', intent);
+  }
+
+  async void(intentId: string): Promise<PaymentEvent> {
+    const intent = this.getIntent(intentId);
+    this.requireStatus(intent, ['authorized'], 'void');
+
+    intent.status = 'voided';
+    return this.event('payment.voided', intent);
+  }
+
+  async refund(intentId: string, amount: number): Promise<PaymentEvent> {
+    const intent = this.getIntent(intentId);
+    this.requireStatus(intent, ['captured'], 'refund');
+
+    if (amount <= 0 || amount > intent.amount - intent.refunded) {
+      throw createAppError('Refund amount exceeds the captured amount still available', 400);
+    }
+
+    intent.refunded += amount;
+    return this.event('payment.refunded', intent, { amount, refundId: this.nextId('mock_re') });
+  }
+  /* eslint-enable @typescript-eslint/require-await */
+
+  // Mock webhooks carry the event as plain JSON, signed as described in webhookSignature.ts
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): PaymentEvent {
+    verifyWebhookSignature(rawBody, headers, this.getWebhookSecret());
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw createAppError('Malformed webhook payload', 400);
+    }
+
+    if (!payload?.id || !PAYMENT_EVENT_TYPES.includes(payload.type) || !payload.intentId) {
+      throw createAppError('Malformed webhook payload', 400);
+    }
+
+    return {
+      id: String(payload.id),
+      provider: this.name,
+      type: payload.type,
+      intentId: String(payload.intentId),
+      amount: Number(payload.amount ?? 0),
+      ...(payload.refundId && { refundId: String(payload.refundId) }),
+      ...(payload.failureReason && { failureReason: String(payload.failureReason) }),
+      occurredAt: payload.occurredAt ? new Date(payload.occurredAt) : new Date(),
+    };
+  }
+}
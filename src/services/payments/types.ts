@@ -0,0 +1,63 @@
+export type PaymentEventType =
+  | 'payment.authorized'
+  | 'payment.captured'
+  | 'payment.failed'
+  | 'payment.voided'
+  | 'payment.refunded';
+
+export const PAYMENT_EVENT_TYPES: PaymentEventType[] = [
+  'payment.authorized',
+  'payment.captured',
+  'payment.failed',
+  'payment.voided',
+  'payment.refunded',
+];
+
+// Something that happened to a payment, either returned by a provider call or received by webhook
+export interface PaymentEvent {
+  // Unique per provider; used to ignore events delivered twice
+  id: string;
+  provider: string;
+  type: PaymentEventType;
+  intentId: string;
+  amount: number;
+  refundId?: string;
+  failureReason?: string;
+  occurredAt: Date;
+}
+
+export interface PaymentIntent {
+  id: string;
+  provider: string;
+  amount: number;
+  currency: string;
+}
+
+export interface CreateIntentInput {
+  amount: number;
+  currency: string;
+  // Our own reference for the payment, e.g. the order number
+  reference: string;
+}
+
+export interface WebhookHeaders {
+  [name: string]: string | string[] | undefined;
+}
+
+/**
+ * A payment gateway. Every operation that changes the state of a payment resolves with the
+ * resulting event, so that calls and webhooks update orders through the same code path.
+ * Operations reject only when the provider could not be reached or refused the request;
+ * a declined payment is a `payment.failed` event.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  createIntent(input: CreateIntentInput): Promise<PaymentIntent>;
+  authorize(intentId: string, paymentToken: string): Promise<PaymentEvent>;
+  capture(intentId: string): Promise<PaymentEvent>;
+  void(intentId: string): Promise<PaymentEvent>;
+  refund(intentId: string, amount: number): Promise<PaymentEvent>;
+  // Turns a webhook request into an event; throws if the request is not a valid event
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): PaymentEvent;
+}
@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import { createAppError } from '../../middleware/errorHandler';
+import { WebhookHeaders } from './types';
+
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+const getHeader = (headers: WebhookHeaders, name: string): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const getToleranceSeconds = (): number => parseInt(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS || '300');
+
+// Hex HMAC-SHA256 of "<timestamp>.<raw body>"; binding the timestamp stops old requests being resent
+export const signWebhookPayload = (rawBody: Buffer | string, secret: string, timestamp: number): string =>
+  crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+
+/**
+ * Checks that a webhook request was signed with `secret` and is recent.
+ * The signature must be computed over the exact bytes received, so this needs the raw body.
+ */
+export const verifyWebhookSignature = (rawBody: Buffer, headers: WebhookHeaders, secret: string): void => {
+  const timestampHeader = getHeader(headers, WEBHOOK_TIMESTAMP_HEADER);
+  const signature = getHeader(headers, WEBHOOK_SIGNATURE_HEADER);
+
+  if (!timestampHeader || !signature) {
+    throw createAppError('Missing webhook signature headers', 400);
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    throw createAppError('Invalid webhook timestamp', 400);
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > getToleranceSeconds()) {
+    throw createAppError('Webhook timestamp is outside the allowed tolerance', 400);
+  }
+
+  const expected = Buffer.from(signWebhookPayload(rawBody, secret, timestamp), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    throw createAppError('Invalid webhook signature', 401);
+  }
+};
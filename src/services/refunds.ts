@@ -0,0 +1,171 @@
+import mongoose from 'mongoose';
+import { Order, IOrder, IRefund, IRefundItem } from '../models/Order';
+import { Product } from '../models/Product';
+import { StoreCredit } from '../models/StoreCredit';
+import { AuthUser } from '../middleware/auth';
+import { createAppError } from '../middleware/errorHandler';
+import { allocateProportionally, multiplyMoney, roundMoney, sumMoney, toMinorUnits } from '../utils/money';
+import { getPaymentProvider } from './payments';
+import { restoreTenderBalances, splitRefund } from './tenders';
+
+export interface RefundRequest {
+  items?: { itemId: string; quantity: number }[];
+  // Defaults to the value of the refunded items
+  amount?: number;
+  reason?: string;
+  restock?: boolean;
+  refundedBy?: AuthUser;
+  // Defaults to the original payment; store credit goes to the customer's store credit balance
+  method?: IRefund['method'];
+  // Required for store credit: identifies the operation so the credit is issued only once.
+  // Also used for original payment refunds that only go back to gift cards or store credit.
+  reference?: string;
+}
+
+const REFUNDABLE_PAYMENT_STATUSES: IOrder['paymentStatus'][] = ['paid', 'refund_pending', 'partially_refunded'];
+
+// What each line actually cost the customer: its price less its discount (orders placed before
+// promotions: its share of the order discount), plus its tax when it was charged on top of the price
+export const getLineNetTotals = (order: IOrder): number[] => {
+  const lineTotals = order.items.map(item => multiplyMoney(item.price, item.quantity, order.currency));
+  const discountShares = order.items.every(item => item.discount !== undefined)
+    ? order.items.map(item => item.discount ?? 0)
+    : allocateProportionally(order.discount, lineTotals, order.currency);
+  return lineTotals.map((lineTotal, index) => {
+    const addedTax = order.pricesIncludeTax ? 0 : order.items[index]?.tax?.amount ?? 0;
+    return sumMoney([lineTotal, -(discountShares[index] ?? 0), addedTax], order.currency);
+  });
+};
+
+const buildRefundItems = (order: IOrder, requested: NonNullable<RefundRequest['items']>): IRefundItem[] => {
+  const lineNetTotals = getLineNetTotals(order);
+
+  return requested.map(({ itemId, quantity }) => {
+    const index = order.items.findIndex(item => String(item._id) === itemId);
+    const item = order.items[index];
+    if (!item) {
+      throw createAppError(`Order item ${itemId} not found`, 400);
+    }
+
+    const refundedQuantity = item.refundedQuantity ?? 0;
+    if (quantity > item.quantity - refundedQuantity) {
+      throw createAppError(`Only ${item.quantity - refundedQuantity} of ${item.productName} can still be refunded`, 400);
+    }
+
+    // The last units refunded take whatever is left of the line, so rounding never adds up to more
+    const lineNet = lineNetTotals[index] ?? 0;
+    const amount = refundedQuantity + quantity === item.quantity
+      ? sumMoney([lineNet, -(item.refundedAmount ?? 0)], order.currency)
+      : roundMoney((lineNet * quantity) / item.quantity, order.currency);
+
+    return { itemId: item._id as mongoose.Types.ObjectId, quantity, amount };
+  });
+};
+
+/**
+ * Refunds items or an amount of a paid order, either through the order's payment provider
+ * or as store credit, records the refund in the order's ledger and optionally puts the
+ * items back in stock. Original payment refunds of orders paid with gift cards or store credit
+ * go back to the payment method first and then to those balances.
+ */
+export const refundOrder = async (order: IOrder, request: RefundRequest): Promise<IOrder> => {
+  const method = request.method ?? 'original_payment';
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    throw createAppError(`Cannot refund a payment that is ${order.paymentStatus}`, 409);
+  }
+  if (method === 'store_credit' && !request.reference) {
+    throw createAppError('Store credit refunds need a reference', 400);
+  }
+  // Cancelling the order already put all of its items back in stock
+  if (request.restock && order.restockedAt) {
+    throw createAppError('Items of this order were already restocked when it was cancelled', 409);
+  }
+
+  const items = buildRefundItems(order, request.items ?? []);
+  const amount = request.amount !== undefined
+    ? roundMoney(request.amount, order.currency)
+    : sumMoney(items.map(item => item.amount), order.currency);
+  const refundable = sumMoney([order.total, -(order.refundedTotal ?? 0)], order.currency);
+
+  if (amount <= 0) {
+    throw createAppError('Refund amount must be greater than zero', 400);
+  }
+  if (toMinorUnits(amount, order.currency) > toMinorUnits(refundable, order.currency)) {
+    throw createAppError(`Refund amount exceeds the ${refundable} still refundable`, 400);
+  }
+
+  const tenders = method === 'original_payment' && order.tenders?.length ? splitRefund(order, amount) : undefined;
+  const providerAmount = tenders
+    ? sumMoney(tenders.filter(tender => tender.type === 'payment').map(tender => tender.amount), order.currency)
+    : amount;
+  if (method === 'original_payment' && providerAmount > 0 && !order.paymentIntentId) {
+    throw createAppError('Order has no provider payment to refund', 409);
+  }
+
+  let refundId: string;
+  if (method === 'store_credit') {
+    refundId = `store_credit:${request.reference}`;
+    await StoreCredit.issue(order.customerInfo.email, amount, {
+      reference: refundId,
+      currency: order.currency,
+      orderId: order._id as mongoose.Types.ObjectId,
+      ...(order.userId && { userId: order.userId }),
+      ...(request.reason && { note: request.reason }),
+    });
+  } else if (providerAmount > 0) {
+    const event = await getPaymentProvider(order.paymentProvider).refund(order.paymentIntentId as string, providerAmount);
+    refundId = event.refundId ?? event.id;
+  } else {
+    refundId = `tenders:${request.reference ?? new mongoose.Types.ObjectId()}`;
+  }
+
+  let recorded: IOrder | null;
+  try {
+    recorded = await order.recordRefund({
+      amount,
+      method,
+      items,
+      ...(tenders && { tenders }),
+      ...(request.reason && { reason: request.reason }),
+      restock: Boolean(request.restock),
+      providerRefundId: refundId,
+      ...(request.refundedBy && {
+        createdBy: {
+          userId: new mongoose.Types.ObjectId(request.refundedBy.id),
+          email: request.refundedBy.email,
+          role: request.refundedBy.role,
+        },
+      }),
+    });
+  } catch (error) {
+    if (method === 'store_credit') {
+      const revoked = await StoreCredit.revoke(order.customerInfo.email, refundId);
+      if (!revoked) {
+        console.error(`Store credit ${refundId} for order ${order.orderNumber} was spent before it could be taken back:`, error);
+      }
+    } else {
+      console.error(`Refund ${refundId} for order ${order.orderNumber} was issued but not recorded:`, error);
+    }
+    throw error;
+  }
+
+  // Balances get back what the ledger says, also when the refund was recorded before
+  if (tenders) {
+    const current = recorded ?? await Order.findById(order._id);
+    const entry = current?.refunds.find(refund => refund.providerRefundId === refundId);
+    await restoreTenderBalances(order, entry?.tenders ?? [], refundId);
+  }
+
+  // Skipped when the refund was recorded before (a retried store credit refund)
+  if (request.restock && recorded) {
+    for (const refundItem of items) {
+      const item = order.items.find(orderItem => String(orderItem._id) === String(refundItem.itemId));
+      if (item) {
+        await Product.incrementVariantStock(item.productId.toString(), item.variantId, refundItem.quantity);
+      }
+    }
+  }
+
+  return recorded ?? (await Order.findById(order._id)) as IOrder;
+};
@@ -0,0 +1,211 @@
+import mongoose from 'mongoose';
+import { Order, IOrder } from '../models/Order';
+import {
+  ReturnRequest,
+  IReturnRequest,
+  IReturnItem,
+  IReturnTransitionOptions,
+  ReturnReason,
+  ReturnStatus,
+} from '../models/ReturnRequest';
+import { AuthUser } from '../middleware/auth';
+import { createAppError } from '../middleware/errorHandler';
+import { refundOrder } from './refunds';
+
+export interface CreateReturnInput {
+  items: { itemId: string; quantity: number; reason: ReturnReason; note?: string | undefined }[];
+  resolution?: IReturnRequest['resolution'];
+  note?: string;
+  requestedBy?: AuthUser;
+}
+
+export interface InspectReturnInput {
+  accepted: boolean;
+  // Defaults to true: accepted goods go back on the shelf
+  restock?: boolean;
+  // Overrides the resolution the customer asked for
+  resolution?: IReturnRequest['resolution'];
+  note?: string;
+  inspectedBy?: AuthUser;
+}
+
+const getReturnWindowDays = (): number => parseInt(process.env.RETURN_WINDOW_DAYS || '30');
+
+// When the order was delivered, from its status history
+const getDeliveredAt = (order: IOrder): Date => {
+  const delivered = order.statusHistory.find(change => change.to === 'delivered');
+  return delivered?.changedAt ?? order.updatedAt;
+};
+
+export const getReturnDeadline = (order: IOrder): Date =>
+  new Date(getDeliveredAt(order).getTime() + getReturnWindowDays() * 24 * 60 * 60 * 1000);
+
+// Units of each order item that can still be returned: not refunded and not claimed by an open return
+const getReturnableQuantities = (order: IOrder): Map<string, number> => new Map(order.items.map(item => [
+  String(item._id),
+  item.quantity - (item.refundedQuantity ?? 0) - (item.returnQuantity ?? 0),
+]));
+
+// Fails with 400 when an item isn't part of the order or more units are asked for than can be returned
+const checkReturnable = (order: IOrder, items: CreateReturnInput['items']): void => {
+  const returnable = getReturnableQuantities(order);
+  for (const { itemId, quantity } of items) {
+    const item = order.items.find(orderItem => String(orderItem._id) === itemId);
+    if (!item) {
+      throw createAppError(`Order item ${itemId} not found`, 400);
+    }
+
+    const available = returnable.get(itemId) ?? 0;
+    if (quantity > available) {
+      throw createAppError(`Only ${Math.max(available, 0)} of ${item.productName} can still be returned`, 400);
+    }
+    returnable.set(itemId, available - quantity);
+  }
+};
+
+/**
+ * Opens a return for items of a delivered order. Each item can only be returned up to the
+ * quantity that was neither refunded nor claimed by another open return.
+ *
+ * The quantities are claimed on the order with a conditional update before the return is
+ * stored, so two concurrent returns can't both claim the last units.
+ */
+export const createReturn = async (order: IOrder, input: CreateReturnInput): Promise<IReturnRequest> => {
+  if (order.status !== 'delivered') {
+    throw createAppError('Only delivered orders can be returned', 409);
+  }
+  if (Date.now() > getReturnDeadline(order).getTime()) {
+    throw createAppError('The return window for this order has closed', 400);
+  }
+
+  checkReturnable(order, input.items);
+  const items: IReturnItem[] = input.items.map(({ itemId, quantity, reason, note }) => ({
+    itemId: new mongoose.Types.ObjectId(itemId),
+    quantity,
+    reason,
+    ...(note && { note }),
+  }));
+
+  const reserved = await order.reserveReturn(items);
+  if (!reserved) {
+    // Claimed by another return meanwhile: explain with what is left now
+    const current = await Order.findById(order._id);
+    checkReturnable(current ?? order, input.items);
+    throw createAppError('The items were claimed by another return meanwhile', 409);
+  }
+
+  const returnRequest = new ReturnRequest({
+    orderId: order._id,
+    ...(order.userId && { userId: order.userId }),
+    customerEmail: order.customerInfo.email,
+    items,
+    resolution: input.resolution ?? 'refund',
+    statusHistory: [{
+      to: 'requested',
+      changedAt: new Date(),
+      ...(input.requestedBy && {
+        changedBy: {
+          userId: new mongoose.Types.ObjectId(input.requestedBy.id),
+          email: input.requestedBy.email,
+          role: input.requestedBy.role,
+        },
+      }),
+      ...(input.note && { note: input.note }),
+    }],
+  });
+
+  try {
+    const created = await returnRequest.save();
+    return created;
+  } catch (error) {
+    await order.releaseReturn(items);
+    throw error;
+  }
+};
+
+/**
+ * Moves a return along without settling it: approve, receive or reject. Rejecting it frees its
+ * quantities for a new return.
+ */
+export const updateReturnStatus = async (
+  returnRequest: IReturnRequest,
+  order: IOrder,
+  status: ReturnStatus,
+  options: IReturnTransitionOptions = {}
+): Promise<IReturnRequest> => {
+  const updated = await returnRequest.transition(status, options);
+  if (status === 'rejected') {
+    await order.releaseReturn(updated.items);
+  }
+  return updated;
+};
+
+/**
+ * Finishes the inspection of received goods. Accepting the return refunds the returned items,
+ * to the original payment or as store credit, and puts them back in stock unless told otherwise;
+ * rejecting it closes the return without a refund.
+ *
+ * The return is marked accepted before the refund is issued, so two concurrent inspections can't
+ * both refund. If the refund fails the return goes back to received and can be inspected again.
+ */
+export const inspectReturn = async (
+  returnRequest: IReturnRequest,
+  order: IOrder,
+  input: InspectReturnInput
+): Promise<IReturnRequest> => {
+  if (returnRequest.status !== 'received') {
+    throw createAppError('Only received returns can be inspected', 409);
+  }
+
+  const actor = input.inspectedBy ? { changedBy: input.inspectedBy } : {};
+
+  if (!input.accepted) {
+    return updateReturnStatus(returnRequest, order, 'rejected', { ...actor, ...(input.note && { note: input.note }) });
+  }
+
+  const resolution = input.resolution ?? returnRequest.resolution;
+  const restock = input.restock ?? true;
+  const accepted = await returnRequest.transition('accepted', {
+    ...actor,
+    ...(input.note && { note: input.note }),
+    set: { resolution, restock },
+  });
+
+  const reason = `Return ${accepted.rmaNumber}`;
+  try {
+    const refunded = await refundOrder(order, {
+      items: accepted.items.map(item => ({ itemId: String(item.itemId), quantity: item.quantity })),
+      reason,
+      restock,
+      method: resolution === 'store_credit' ? 'store_credit' : 'original_payment',
+      reference: `return:${String(accepted._id)}`,
+      ...(input.inspectedBy && { refundedBy: input.inspectedBy }),
+    });
+
+    // Refunded now, so no longer claimed by the return
+    await order.releaseReturn(accepted.items);
+
+    const refund = refunded.refunds.find(entry => entry.reason === reason);
+    return (await ReturnRequest.findByIdAndUpdate(
+      accepted._id,
+      { $set: { ...(refund && { refundAmount: refund.amount, refundId: refund._id }) } },
+      { new: true }
+    )) as IReturnRequest;
+  } catch (error) {
+    await ReturnRequest.updateOne(
+      { _id: accepted._id, status: 'accepted' },
+      {
+        $set: { status: 'received' },
+        $push: {
+          statusHistory: {
+            from: 'accepted',
+            to: 'received',
+            changedAt: new Date(),
+            note: `Refund failed: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        },
+      }
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,143 @@
+import mongoose from 'mongoose';
+import { IAddress } from '../models/Order';
+import { Product } from '../models/Product';
+import { ShippingZone, IShippingMethod, IShippingRateTier, ShippingMethodType } from '../models/ShippingZone';
+import { ExchangeRate } from '../models/ExchangeRate';
+import { createAppError } from '../middleware/errorHandler';
+import { getBaseCurrency } from '../utils/currency';
+import { multiplyMoney, roundMoney, sumMoney } from '../utils/money';
+
+export interface ShippableLine {
+  productId: mongoose.Types.ObjectId | string;
+  variantId: string;
+  price: number;
+  quantity: number;
+}
+
+export type ShippingAddress = Pick<IAddress, 'country' | 'state'>;
+
+export interface ShippingOption {
+  code: string;
+  name: string;
+  type: ShippingMethodType;
+  cost: number;
+  // Set when the order ships free with this method, by its threshold or a promotion
+  freeShipping: boolean;
+  estimatedDays?: { min: number; max: number };
+}
+
+// Total weight in kg of the lines; variants without a weight count as weightless
+const getTotalWeight = async (lines: ShippableLine[]): Promise<number> => {
+  const products = await Product.find({ _id: { $in: lines.map(line => line.productId) } }, 'variants');
+
+  let weight = 0;
+  for (const line of lines) {
+    const product = products.find(candidate => String(candidate._id) === String(line.productId));
+    const variant = (product?.variants as any)?.id(line.variantId);
+    weight += (variant?.weight ?? 0) * line.quantity;
+  }
+  return weight;
+};
+
+// The tier with the highest lower bound the value reaches, if any
+const findTier = (tiers: IShippingRateTier[], value: number): IShippingRateTier | undefined =>
+  [...tiers].sort((a, b) => b.min - a.min).find(tier => value >= tier.min);
+
+// Price of a method, or null when it doesn't cover the order (e.g. too heavy for any tier)
+const getMethodCost = (method: IShippingMethod, weight: number, subtotal: number): number | null => {
+  switch (method.rateType) {
+    case 'flat':
+      return method.flatRate ?? 0;
+    case 'weight':
+      return findTier(method.tiers, weight)?.price ?? null;
+    case 'subtotal':
+      return findTier(method.tiers, subtotal)?.price ?? null;
+  }
+};
+
+// Options of the zone the address is in, or null when it is outside every zone. Zone rates
+// and thresholds are in the base currency; costs are converted to the cart currency.
+const quoteShipping = async (
+  lines: ShippableLine[],
+  discount: number,
+  address: ShippingAddress,
+  currency: string,
+  freeShipping: boolean
+): Promise<ShippingOption[] | null> => {
+  const zone = await ShippingZone.findForAddress(address);
+  if (!zone) {
+    return null;
+  }
+
+  const exchangeRate = await ExchangeRate.getRate(currency);
+  const cartSubtotal = sumMoney([...lines.map(line => multiplyMoney(line.price, line.quantity, currency)), -discount], currency);
+  const subtotal = roundMoney(cartSubtotal / exchangeRate);
+  const weight = await getTotalWeight(lines);
+
+  const options: ShippingOption[] = [];
+  for (const method of zone.methods) {
+    if (!method.isActive) continue;
+
+    const cost = getMethodCost(method, weight, subtotal);
+    if (cost === null) continue;
+
+    const shipsFree = freeShipping ||
+      (method.freeShippingThreshold !== undefined && subtotal >= method.freeShippingThreshold);
+    options.push({
+      code: method.code,
+      name: method.name,
+      type: method.type,
+      cost: shipsFree ? 0 : roundMoney(cost * exchangeRate, currency),
+      freeShipping: shipsFree,
+      ...(method.estimatedDays?.min !== undefined && method.estimatedDays?.max !== undefined && {
+        estimatedDays: { min: method.estimatedDays.min, max: method.estimatedDays.max },
+      }),
+    });
+  }
+
+  return options.sort((a, b) => a.cost - b.cost);
+};
+
+/**
+ * Shipping methods available for the lines to an address, cheapest first. Rates are based on
+ * the order subtotal after discount; with `freeShipping` (from a promotion) every method is free.
+ * Addresses outside every shipping zone get no options.
+ */
+export const getShippingOptions = async (
+  lines: ShippableLine[],
+  discount: number,
+  address: ShippingAddress,
+  currency: string = getBaseCurrency(),
+  freeShipping = false
+): Promise<ShippingOption[]> => (await quoteShipping(lines, discount, address, currency, freeShipping)) ?? [];
+
+/**
+ * The shipping option for an order. Without a method code the cheapest option is used.
+ * Returns null when the address is outside every shipping zone: shipping is then not charged.
+ */
+export const selectShippingOption = async (
+  lines: ShippableLine[],
+  discount: number,
+  address: ShippingAddress,
+  methodCode?: string,
+  currency: string = getBaseCurrency(),
+  freeShipping = false
+): Promise<ShippingOption | null> => {
+  const options = await quoteShipping(lines, discount, address, currency, freeShipping);
+  if (!options) {
+    return null;
+  }
+  if (options.length === 0) {
+    throw createAppError('No shipping method is available for this order', 400);
+  }
+
+  if (!methodCode) {
+    return options[0] ?? null;
+  }
+
+  const selected = options.find(option => option.code === methodCode.toLowerCase());
+  if (!selected) {
+    throw createAppError(`Shipping method ${methodCode} is not available for this order`, 400);
+  }
+  return selected;
+};
@@ -0,0 +1,103 @@
+import mongoose from 'mongoose';
+import { IAddress, IOrderItemTax } from '../models/Order';
+import { Product } from '../models/Product';
+import { TaxClass, DEFAULT_TAX_CLASS } from '../models/TaxClass';
+import { TaxRate } from '../models/TaxRate';
+import { getBaseCurrency } from '../utils/currency';
+import { allocateProportionally, multiplyMoney, roundMoney, sumMoney } from '../utils/money';
+
+export interface TaxableLine {
+  productId: mongoose.Types.ObjectId | string;
+  price: number;
+  quantity: number;
+  // The line's discount from promotions; without it lines share the order discount by their totals
+  discount?: number;
+}
+
+export type TaxAddress = Pick<IAddress, 'country' | 'state' | 'zipCode'>;
+
+export interface OrderTotals {
+  subtotal: number;
+  discount: number;
+  shippingTotal: number;
+  taxTotal: number;
+  total: number;
+  pricesIncludeTax: boolean;
+  // One entry per line, in the order of the lines passed in
+  lineTaxes: IOrderItemTax[];
+}
+
+// Catalog prices are net of tax unless TAX_PRICING_MODE=inclusive
+export const pricesIncludeTax = (): boolean => process.env.TAX_PRICING_MODE === 'inclusive';
+
+// Tax on an amount at a percentage rate; for tax-inclusive amounts, the tax contained in it
+const taxOn = (amount: number, rate: number, inclusive: boolean, currency: string): number =>
+  roundMoney(inclusive ? (amount * rate) / (100 + rate) : (amount * rate) / 100, currency);
+
+/**
+ * Works out the tax of each line for a shipping address. Each line is taxed on what the
+ * customer pays for it, i.e. after its discount or share of the order discount, at the most specific
+ * rate of its product category's tax class. Lines with no matching rate are taxed at 0.
+ * Tax is rounded per line to the minor unit of the order currency.
+ */
+export const calculateLineTaxes = async (
+  lines: TaxableLine[],
+  discount: number,
+  address: TaxAddress,
+  currency: string = getBaseCurrency()
+): Promise<IOrderItemTax[]> => {
+  const inclusive = pricesIncludeTax();
+
+  const products = await Product.find({ _id: { $in: lines.map(line => line.productId) } }, 'category');
+  const categoryByProduct = new Map(products.map(product => [String(product._id), product.category]));
+  const classByCategory = await TaxClass.resolveForCategories([...new Set(categoryByProduct.values())]);
+
+  const rateByClass = new Map<string, number>();
+  const lineTotals = lines.map(line => multiplyMoney(line.price, line.quantity, currency));
+  const discountShares = lines.every(line => line.discount !== undefined)
+    ? lines.map(line => line.discount ?? 0)
+    : allocateProportionally(discount, lineTotals, currency);
+
+  const lineTaxes: IOrderItemTax[] = [];
+  for (const [index, line] of lines.entries()) {
+    const category = categoryByProduct.get(String(line.productId));
+    const taxClass = (category && classByCategory.get(category)) || DEFAULT_TAX_CLASS;
+
+    if (!rateByClass.has(taxClass)) {
+      const taxRate = await TaxRate.findRate(address, taxClass);
+      rateByClass.set(taxClass, taxRate?.rate ?? 0);
+    }
+    const rate = rateByClass.get(taxClass) ?? 0;
+
+    const net = sumMoney([lineTotals[index] ?? 0, -(discountShares[index] ?? 0)], currency);
+    lineTaxes.push({ taxClass, rate, amount: taxOn(net, rate, inclusive, currency) });
+  }
+  return lineTaxes;
+};
+
+/**
+ * Totals for an order: subtotal less discount, plus shipping, plus tax when prices are
+ * tax-exclusive. Shipping is not taxed. Without an address the tax is unknown and left at 0.
+ */
+export const calculateOrderTotals = async (
+  lines: TaxableLine[],
+  discount: number,
+  address?: TaxAddress,
+  shippingTotal = 0,
+  currency: string = getBaseCurrency()
+): Promise<OrderTotals> => {
+  const inclusive = pricesIncludeTax();
+  const subtotal = sumMoney(lines.map(line => multiplyMoney(line.price, line.quantity, currency)), currency);
+  const lineTaxes = address ? await calculateLineTaxes(lines, discount, address, currency) : [];
+  const taxTotal = sumMoney(lineTaxes.map(lineTax => lineTax.amount), currency);
+
+  return {
+    subtotal,
+    discount: roundMoney(discount, currency),
+    shippingTotal: roundMoney(shippingTotal, currency),
+    taxTotal,
+    total: sumMoney([subtotal, -discount, shippingTotal, inclusive ? 0 : taxTotal], currency),
+    pricesIncludeTax: inclusive,
+    lineTaxes,
+  };
+};
@@ -0,0 +1,218 @@
+import mongoose from 'mongoose';
+import { GiftCard } from '../models/GiftCard';
+import { IOrder, IRefundTender, ITender, Order, PaymentMethod } from '../models/Order';
+import { StoreCredit } from '../models/StoreCredit';
+import { createAppError } from '../middleware/errorHandler';
+import { TransactionContext } from './transaction';
+import { sumMoney, toDecimal128 } from '../utils/money';
+
+export interface TenderSources {
+  // Gift card codes, used in this order
+  giftCardCodes?: string[];
+  // Account whose store credit pays, when useStoreCredit is set
+  email?: string;
+  useStoreCredit?: boolean;
+  paymentMethod?: PaymentMethod;
+}
+
+export interface TenderPlan {
+  tenders: ITender[];
+  // What is left for the payment method to pay
+  amountDue: number;
+}
+
+const remaining = (tender: ITender, currency: string): number =>
+  sumMoney([tender.amount, -(tender.refundedAmount ?? 0)], currency);
+
+/**
+ * Splits a total between the customer's tenders: gift cards first, each paying as much as
+ * its balance allows, then store credit, then the payment method for whatever is left.
+ * Fails with 400 when a gift card can no longer pay in the currency.
+ */
+export const planTenders = async (total: number, currency: string, sources: TenderSources): Promise<TenderPlan> => {
+  const tenders: ITender[] = [];
+  let due = total;
+
+  for (const code of sources.giftCardCodes ?? []) {
+    if (due <= 0) {
+      break;
+    }
+    const giftCard = await GiftCard.findUsable(code, currency);
+    if (!giftCard) {
+      throw createAppError(`Gift card ${code} can no longer be used`, 400);
+    }
+    const amount = Math.min(giftCard.balance, due);
+    tenders.push({ type: 'gift_card', giftCardCode: giftCard.code, amount, refundedAmount: 0 });
+    due = sumMoney([due, -amount], currency);
+  }
+
+  if (sources.useStoreCredit && sources.email && due > 0) {
+    const account = await StoreCredit.findOne({ email: sources.email.toLowerCase().trim(), currency: currency.toUpperCase() });
+    const amount = Math.min(account?.balance ?? 0, due);
+    if (amount > 0) {
+      tenders.push({ type: 'store_credit', amount, refundedAmount: 0 });
+      due = sumMoney([due, -amount], currency);
+    }
+  }
+
+  if (due > 0) {
+    tenders.push({
+      type: 'payment',
+      ...(sources.paymentMethod && { paymentMethod: sources.paymentMethod }),
+      amount: due,
+      refundedAmount: 0,
+    });
+  }
+
+  return { tenders, amountDue: due };
+};
+
+// What the payment provider charges for an order; orders placed before split tender were paid in full
+export const getPaymentAmount = (order: IOrder): number => {
+  if (!order.tenders?.length) {
+    return order.total;
+  }
+  return order.tenders.find(tender => tender.type === 'payment')?.amount ?? 0;
+};
+
+/**
+ * Takes the gift card and store credit tenders of a new order off their balances.
+ * Fails with 409 when a balance was spent elsewhere since the tenders were planned.
+ */
+export const redeemTenders = async (order: IOrder, { session, onRollback }: TransactionContext): Promise<void> => {
+  const orderId = String(order._id);
+  const reference = `order:${orderId}`;
+
+  for (const tender of order.tenders) {
+    if (tender.type === 'gift_card' && tender.giftCardCode) {
+      const code = tender.giftCardCode;
+      const redeemed = await GiftCard.redeem(code, tender.amount, { reference, orderId, ...(session && { session }) });
+      if (!redeemed) {
+        throw createAppError(`Gift card ${code} no longer has enough balance`, 409);
+      }
+      onRollback(() => GiftCard.restore(code, tender.amount, { reference: `rollback:${reference}`, orderId }));
+    } else if (tender.type === 'store_credit') {
+      const email = order.customerInfo.email;
+      const redeemed = await StoreCredit.redeem(email, tender.amount, {
+        reference,
+        currency: order.currency,
+        orderId,
+        ...(session && { session }),
+      });
+      if (!redeemed) {
+        throw createAppError('Not enough store credit', 409);
+      }
+      onRollback(() => StoreCredit.issue(email, tender.amount, {
+        reference: `rollback:${reference}`,
+        currency: order.currency,
+        orderId: order._id as mongoose.Types.ObjectId,
+      }));
+    }
+  }
+};
+
+// Puts the amounts of refund tenders back on the gift cards and store credit they came from.
+// Each restore is applied once per reference, so repeating it only finishes what is left undone.
+export const restoreTenderBalances = async (order: IOrder, tenders: IRefundTender[], reference: string): Promise<void> => {
+  for (const [index, tender] of tenders.entries()) {
+    const tenderReference = `${reference}:tender:${index}`;
+    if (tender.type === 'gift_card' && tender.giftCardCode) {
+      await GiftCard.restore(tender.giftCardCode, tender.amount, { reference: tenderReference, orderId: String(order._id) });
+    } else if (tender.type === 'store_credit') {
+      await StoreCredit.issue(order.customerInfo.email, tender.amount, {
+        reference: tenderReference,
+        currency: order.currency,
+        orderId: order._id as mongoose.Types.ObjectId,
+        ...(order.userId && { userId: order.userId }),
+      });
+    }
+  }
+};
+
+/**
+ * Splits a refund of an order paid with several tenders: the payment method gets back what it
+ * paid first, then the gift cards and store credit in the order they were used.
+ */
+export const splitRefund = (order: IOrder, amount: number): IRefundTender[] => {
+  const ordered = [
+    ...order.tenders.filter(tender => tender.type === 'payment'),
+    ...order.tenders.filter(tender => tender.type !== 'payment'),
+  ];
+
+  const split: IRefundTender[] = [];
+  let left = amount;
+  for (const tender of ordered) {
+    const share = Math.min(remaining(tender, order.currency), left);
+    if (share <= 0) {
+      continue;
+    }
+    split.push({ type: tender.type, ...(tender.giftCardCode && { giftCardCode: tender.giftCardCode }), amount: share });
+    left = sumMoney([left, -share], order.currency);
+  }
+  return split;
+};
+
+/**
+ * Gives the gift card and store credit tenders of a cancelled order back. The restoration is
+ * recorded as a refund in the order's ledger first, once per order, and the balances are restored
+ * after; a repeated cancel restores whatever an interrupted one left undone.
+ * The payment tender is left to the payment flow (void or refund).
+ */
+export const restoreCancelledTenders = async (order: IOrder): Promise<void> => {
+  const reference = `cancel:${order._id}`;
+  const tenders = order.tenders
+    .filter(tender => tender.type !== 'payment')
+    .map(tender => ({
+      type: tender.type,
+      ...(tender.giftCardCode && { giftCardCode: tender.giftCardCode }),
+      amount: remaining(tender, order.currency),
+    }))
+    .filter(tender => tender.amount > 0);
+
+  const alreadyRecorded = order.refunds.find(refund => refund.providerRefundId === reference);
+  if (alreadyRecorded) {
+    await restoreTenderBalances(order, alreadyRecorded.tenders ?? [], reference);
+    return;
+  }
+  if (tenders.length === 0) {
+    return;
+  }
+
+  const amount = sumMoney(tenders.map(tender => tender.amount), order.currency);
+  const increments: Record<string, number> = { refundedTotal: amount };
+  for (const tender of tenders) {
+    const index = order.tenders.findIndex(candidate =>
+      candidate.type === tender.type && candidate.giftCardCode === tender.giftCardCode
+    );
+    increments[`tenders.${index}.refundedAmount`] = tender.amount;
+  }
+
+  const claimed = await Order.updateOne(
+    {
+      _id: order._id,
+      'refunds.providerRefundId': { $ne: reference },
+      $expr: { $lte: [{ $add: [{ $ifNull: ['$refundedTotal', 0] }, toDecimal128(amount)] }, '$total'] },
+    },
+    {
+      $push: {
+        refunds: {
+          amount,
+          method: 'original_payment',
+          items: [],
+          tenders,
+          reason: 'Order cancelled',
+          restock: false,
+          providerRefundId: reference,
+          createdAt: new Date(),
+        },
+      },
+      $inc: increments,
+    }
+  );
+
+  // Lost to a concurrent cancel or refund: restore what ended up recorded, if anything
+  const recorded = claimed.modifiedCount > 0
+    ? tenders
+    : (await Order.findById(order._id, 'refunds'))?.refunds.find(refund => refund.providerRefundId === reference)?.tenders;
+  await restoreTenderBalances(order, recorded ?? [], reference);
+};
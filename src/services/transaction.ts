@@ -0,0 +1,75 @@
+import mongoose, { ClientSession } from 'mongoose';
+
+export type Compensation = () => Promise<unknown>;
+
+export interface TransactionContext {
+  // Set when the deployment supports multi-document transactions; pass it to every write
+  session?: ClientSession;
+  // Registers an undo step, only run on failure when no transaction is available
+  onRollback(compensation: Compensation): void;
+}
+
+let transactionSupport: Promise<boolean> | null = null;
+
+// Transactions need a replica set or sharded cluster. MONGODB_TRANSACTIONS=on|off overrides detection.
+export const supportsTransactions = (): Promise<boolean> => {
+  const mode = process.env.MONGODB_TRANSACTIONS || 'auto';
+  if (mode === 'on' || mode === 'off') {
+    return Promise.resolve(mode === 'on');
+  }
+
+  const db = mongoose.connection.db;
+  if (!db) {
+    return Promise.resolve(false);
+  }
+
+  if (!transactionSupport) {
+    transactionSupport = db.admin().command({ hello: 1 })
+      .then(result => Boolean(result.setName) || result.msg === 'isdbgrid')
+      .catch(() => false);
+  }
+  return transactionSupport;
+};
+
+const runCompensations = async (compensations: Compensation[]): Promise<void> => {
+  // Undo in reverse order; keep going so one failing step doesn't block the rest
+  for (const compensation of [...compensations].reverse()) {
+    try {
+      await compensation();
+    } catch (error) {
+      console.error('Compensation step failed during rollback:', error);
+    }
+  }
+};
+
+/**
+ * Runs `work` atomically.
+ *
+ * On a replica set the work runs inside a multi-document transaction and is retried on
+ * transient errors. On a standalone server there is no transaction: every write commits
+ * immediately, and the compensations registered through `onRollback` are replayed in
+ * reverse order if the work throws.
+ */
+export const runInTransaction = async <T>(work: (context: TransactionContext) => Promise<T>): Promise<T> => {
+  if (!(await supportsTransactions())) {
+    const compensations: Compensation[] = [];
+
+    try {
+      return await work({ onRollback: compensation => compensations.push(compensation) });
+    } catch (error) {
+      await runCompensations(compensations);
+      throw error;
+    }
+  }
+
+  const session = await mongoose.startSession();
+  try {
+    let result: T | undefined;
+    await session.withTransaction(async () => {
+      result = await work({ session, onRollback: () => undefined });
+    });
+    return result as T;
+  } finally {
+    await session.endSession();
+  }
+};
@@ -1,6 +1,27 @@
 /**
  * @swagger
  * components:
+ *   securitySchemes:
+ *     bearerAuth:
+ *       type: http
+ *       scheme: bearer
+ *       bearerFormat: JWT
+ *   parameters:
+ *     IdempotencyKey:
+ *       in: header
+ *       name: Idempotency-Key
+ *       required: false
+ *       schema:
+ *         type: string
+ *         maxLength: 255
+ *       description: Unique key for this operation. Retries with the same key and payload replay the original response instead of running the operation again.
+ *     IfMatch:
+ *       in: header
+ *       name: If-Match
+ *       required: false
+ *       schema:
+ *         type: string
+ *       description: ETag of the cart version the change is based on, as returned by the cart routes. When the cart changed since, the request fails with 412 and nothing is changed.
  *   schemas:
  *     Product:
  *       type: object
@@ -36,6 +57,11 @@
  *           items:
  *             type: string
  *           description: Product tags
+ *         customizations:
+ *           type: array
+ *           description: Options customers can set on a cart line, such as engraving or gift wrap
+ *           items:
+ *             $ref: '#/components/schemas/ProductCustomization'
  *         stock:
  *           type: integer
  *           description: Available stock quantity
@@ -70,6 +96,134 @@
  *         - stock
  *         - sku
  *     
+ *     ProductVariantInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - sku
+ *         - price
+ *         - stock
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Variant name
+ *         sku:
+ *           type: string
+ *           description: Unique stock keeping unit
+ *         price:
+ *           type: number
+ *           description: Variant price in the base currency
+ *         prices:
+ *           type: array
+ *           description: Fixed prices in other currencies; currencies not listed are converted from the base price
+ *           items:
+ *             $ref: '#/components/schemas/VariantPrice'
+ *         stock:
+ *           type: integer
+ *           description: Available stock quantity
+ *         attributes:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *           description: Variant attributes (color, size, ...)
+ *         weight:
+ *           type: number
+ *           description: Shipping weight in kg, used for weight-based shipping rates
+ *         dimensions:
+ *           type: object
+ *           description: Package dimensions in cm
+ *           properties:
+ *             length:
+ *               type: number
+ *             width:
+ *               type: number
+ *             height:
+ *               type: number
+ *     
+ *     ProductInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - description
+ *         - category
+ *         - brand
+ *         - variants
+ *       properties:
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         category:
+ *           type: string
+ *         brand:
+ *           type: string
+ *         images:
+ *           type: array
+ *           items:
+ *             type: string
+ *         variants:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ProductVariantInput'
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         customizations:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ProductCustomization'
+ *         isActive:
+ *           type: boolean
+ *     
+ *     ProductCustomization:
+ *       type: object
+ *       required:
+ *         - key
+ *         - name
+ *         - type
+ *       properties:
+ *         key:
+ *           type: string
+ *           example: engraving
+ *           description: Identifies the option in cart requests; lowercase letters, digits and underscores
+ *         name:
+ *           type: string
+ *           example: Engraving
+ *         type:
+ *           type: string
+ *           enum: [text, boolean, select]
+ *         required:
+ *           type: boolean
+ *           default: false
+ *         maxLength:
+ *           type: integer
+ *           description: text options, longest value accepted
+ *         choices:
+ *           type: array
+ *           description: select options, the values to choose from
+ *           items:
+ *             type: string
+ *         surcharge:
+ *           type: number
+ *           default: 0
+ *           description: Added to the unit price when the option is set, in the base currency; converted like variant prices
+ *     
+ *     LineCustomization:
+ *       type: object
+ *       description: A customization set on a cart or order line
+ *       properties:
+ *         key:
+ *           type: string
+ *         name:
+ *           type: string
+ *         value:
+ *           type: string
+ *           description: The text or choice, "true" for boolean options
+ *         surcharge:
+ *           type: number
+ *           description: Per unit, in the currency of the cart or order; included in the line price
+ *     
  *     Pagination:
  *       type: object
  *       properties:
@@ -92,6 +246,42 @@
  *           type: boolean
  *           description: Whether there is a previous page
  *     
+ *     VariantPrice:
+ *       type: object
+ *       required:
+ *         - currency
+ *         - amount
+ *       properties:
+ *         currency:
+ *           type: string
+ *           example: EUR
+ *         amount:
+ *           type: number
+ *     
+ *     ExchangeRate:
+ *       type: object
+ *       properties:
+ *         currency:
+ *           type: string
+ *           example: EUR
+ *         rate:
+ *           type: number
+ *           description: Units of the currency per one unit of the base currency
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     ExchangeRatesInput:
+ *       type: object
+ *       required:
+ *         - rates
+ *       properties:
+ *         rates:
+ *           type: object
+ *           additionalProperties:
+ *             type: number
+ *           example: { "EUR": 0.92, "GBP": 0.79, "JPY": 151.2 }
+ *     
  *     Cart:
  *       type: object
  *       properties:
@@ -101,33 +291,69 @@
  *         token:
  *           type: string
  *           description: Cart token
+ *         __v:
+ *           type: integer
+ *           description: Version of the cart, incremented by every change and sent as the ETag header
+ *         currency:
+ *           type: string
+ *           example: USD
+ *           description: Currency the cart is priced in
  *         items:
  *           type: array
  *           items:
  *             type: object
  *             properties:
+ *               _id:
+ *                 type: string
+ *                 description: Line ID
  *               productId:
  *                 type: string
  *               name:
  *                 type: string
+ *               customizations:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/LineCustomization'
  *               price:
  *                 type: number
+ *                 description: Unit price, including customization surcharges
  *               quantity:
  *                 type: integer
  *               subtotal:
  *                 type: number
+ *               discount:
+ *                 type: number
+ *                 description: Discount of the line from promotions and the promo code
+ *               discounts:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/LineDiscount'
+ *               unavailable:
+ *                 type: string
+ *                 enum: [product_inactive, variant_deleted, out_of_stock]
+ *                 description: Set when the line can't be bought; it doesn't count towards the totals
  *         subtotal:
  *           type: number
  *           description: Cart subtotal
  *         discount:
  *           type: number
- *           description: Applied discount amount
+ *           description: Applied discount amount, the sum of the line discounts
  *         total:
  *           type: number
  *           description: Cart total after discount
  *         promoCode:
  *           type: string
  *           description: Applied promo code
+ *         promotions:
+ *           type: array
+ *           description: Promotions and promo code discounting the cart, in the order they were applied
+ *           items:
+ *             $ref: '#/components/schemas/AppliedPromotion'
+ *         giftCards:
+ *           type: array
+ *           description: Codes of the gift cards paying for the cart at checkout, in the order they are used
+ *           items:
+ *             type: string
  *         expiresAt:
  *           type: string
  *           format: date-time
@@ -139,6 +365,86 @@
  *           type: string
  *           format: date-time
  *     
+ *     CartOperation:
+ *       type: object
+ *       required:
+ *         - op
+ *       description: "add takes productId, variantId, quantity and customizations like adding an item. set (quantity, 0 removes) and remove take a lineId, or a productId and variantId: set then updates the first line of the variant and remove removes all of them."
+ *       properties:
+ *         op:
+ *           type: string
+ *           enum: [add, set, remove]
+ *         lineId:
+ *           type: string
+ *         productId:
+ *           type: string
+ *         variantId:
+ *           type: string
+ *         quantity:
+ *           type: integer
+ *           minimum: 0
+ *         customizations:
+ *           type: object
+ *           additionalProperties:
+ *             oneOf:
+ *               - type: string
+ *               - type: boolean
+ *     
+ *     CartOperationResult:
+ *       type: object
+ *       properties:
+ *         index:
+ *           type: integer
+ *           description: Position of the operation in the request
+ *         op:
+ *           type: string
+ *           enum: [add, set, remove]
+ *         success:
+ *           type: boolean
+ *         lineId:
+ *           type: string
+ *           description: The line added to or updated
+ *         quantity:
+ *           type: integer
+ *           description: The line's quantity after the operation
+ *         error:
+ *           type: string
+ *           description: Why the operation failed, e.g. Product not found, Item not found in cart or Insufficient stock
+ *     
+ *     CartChange:
+ *       type: object
+ *       description: A difference between the cart and the current products
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [price_changed, quantity_reduced, unavailable, available_again]
+ *         lineId:
+ *           type: string
+ *         productId:
+ *           type: string
+ *         variantId:
+ *           type: string
+ *         productName:
+ *           type: string
+ *         variantName:
+ *           type: string
+ *         previousPrice:
+ *           type: number
+ *           description: price_changed
+ *         price:
+ *           type: number
+ *           description: price_changed
+ *         previousQuantity:
+ *           type: integer
+ *           description: quantity_reduced
+ *         quantity:
+ *           type: integer
+ *           description: quantity_reduced, the stock left
+ *         reason:
+ *           type: string
+ *           enum: [product_inactive, variant_deleted, out_of_stock]
+ *           description: unavailable
+ *     
  *     CartItem:
  *       type: object
  *       properties:
@@ -169,12 +475,30 @@
  *         minOrderAmount:
  *           type: number
  *           description: Minimum order amount required
+ *         currency:
+ *           type: string
+ *           description: Currency of fixed values, maxDiscount and minOrderAmount; codes with such amounts only apply to carts in this currency
  *         maxUses:
  *           type: integer
  *           description: Maximum number of uses
  *         usedCount:
  *           type: integer
  *           description: Number of times used
+ *         maxUsesPerCustomer:
+ *           type: integer
+ *           description: Maximum number of uses per customer, by account or email
+ *         firstOrderOnly:
+ *           type: boolean
+ *           description: Only valid on a customer's first order
+ *         newCustomersOnly:
+ *           type: boolean
+ *           description: Only valid for customers who hadn't ordered before validFrom
+ *         appliesTo:
+ *           $ref: '#/components/schemas/ItemFilter'
+ *           description: Items the code discounts; without criteria it discounts every item
+ *         excludes:
+ *           $ref: '#/components/schemas/ItemFilter'
+ *           description: Items the code never discounts, even when appliesTo lists them
  *         isActive:
  *           type: boolean
  *           description: Whether the promo code is active
@@ -189,6 +513,22 @@
  *           type: string
  *           format: date-time
  *     
+ *     PromoCodeEligibility:
+ *       type: object
+ *       description: Whether a promo code discounts a cart item
+ *       properties:
+ *         productId:
+ *           type: string
+ *         variantId:
+ *           type: string
+ *         sku:
+ *           type: string
+ *         eligible:
+ *           type: boolean
+ *         reason:
+ *           type: string
+ *           description: 'e.g. "Qualifies: category Shoes" or "Excluded: SKU TSHIRT-RED-M"'
+ *     
  *     Order:
  *       type: object
  *       properties:
@@ -225,22 +565,62 @@
  *           items:
  *             type: object
  *             properties:
+ *               _id:
+ *                 type: string
+ *                 description: Line ID
  *               productId:
  *                 type: string
  *               name:
  *                 type: string
+ *               customizations:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/LineCustomization'
  *               price:
  *                 type: number
+ *                 description: Unit price, including customization surcharges
  *               quantity:
  *                 type: integer
  *               subtotal:
  *                 type: number
+ *               discount:
+ *                 type: number
+ *                 description: Discount of the line from promotions and the promo code
+ *               discounts:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/LineDiscount'
+ *               tax:
+ *                 $ref: '#/components/schemas/OrderItemTax'
+ *         currency:
+ *           type: string
+ *           description: Currency of all order amounts
  *         subtotal:
  *           type: number
  *           description: Order subtotal
  *         discount:
  *           type: number
  *           description: Applied discount
+ *         shippingMethod:
+ *           type: object
+ *           description: Selected shipping method, absent when the address is outside every shipping zone
+ *           properties:
+ *             code:
+ *               type: string
+ *             name:
+ *               type: string
+ *             type:
+ *               type: string
+ *               enum: [standard, express, pickup]
+ *         shippingTotal:
+ *           type: number
+ *           description: Shipping cost, included in total
+ *         taxTotal:
+ *           type: number
+ *           description: Sum of the item taxes
+ *         pricesIncludeTax:
+ *           type: boolean
+ *           description: Whether item prices contain the tax; if not, taxTotal is included in total on top of them
  *         total:
  *           type: number
  *           description: Order total
@@ -248,13 +628,46 @@
  *           type: string
  *           enum: [pending, confirmed, shipped, delivered, cancelled]
  *           description: Order status
+ *         paymentMethod:
+ *           type: string
+ *           enum: [credit_card, paypal, stripe, gift_card, store_credit]
+ *           description: Method of the payment tender; gift_card or store_credit when those paid for the whole order
+ *         tenders:
+ *           type: array
+ *           description: How the order is paid; the amounts add up to total. Absent on orders placed before split tender.
+ *           items:
+ *             $ref: '#/components/schemas/Tender'
+ *         refunds:
+ *           type: array
+ *           description: Refund ledger, oldest first
+ *           items:
+ *             $ref: '#/components/schemas/Refund'
+ *         refundedTotal:
+ *           type: number
+ *           description: Sum of all refunds
+ *         paymentProvider:
+ *           type: string
+ *           description: Payment provider handling the payment
+ *         paymentIntentId:
+ *           type: string
+ *           description: The provider's payment intent ID
+ *         statusHistory:
+ *           type: array
+ *           description: Append-only timeline of status changes, oldest first
+ *           items:
+ *             $ref: '#/components/schemas/OrderStatusChange'
  *         paymentStatus:
  *           type: string
- *           enum: [pending, paid, failed, refunded]
+ *           enum: [pending, authorized, paid, failed, voided, refund_pending, partially_refunded, refunded]
  *           description: Payment status
  *         promoCode:
  *           type: string
  *           description: Applied promo code
+ *         promotions:
+ *           type: array
+ *           description: Promotions and promo code that discounted the order
+ *           items:
+ *             $ref: '#/components/schemas/AppliedPromotion'
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -262,45 +675,669 @@
  *           type: string
  *           format: date-time
  *     
- *     OrderUpdateInput:
+ *     OrderItemTax:
  *       type: object
  *       properties:
- *         status:
+ *         taxClass:
  *           type: string
- *           enum: [pending, confirmed, shipped, delivered, cancelled]
- *           description: Order status
- *         paymentStatus:
+ *           description: Tax class of the product's category
+ *         rate:
+ *           type: number
+ *           description: Percentage applied; 0 when no rate matched the shipping address
+ *         amount:
+ *           type: number
+ *           description: Tax on the item after its discount
+ *     
+ *     LineDiscount:
+ *       type: object
+ *       properties:
+ *         promotionId:
  *           type: string
- *           enum: [pending, paid, failed, refunded]
- *           description: Payment status
- *         trackingNumber:
+ *           description: Set for discounts from an automatic promotion
+ *         promoCode:
  *           type: string
- *           description: Shipping tracking number
- *         notes:
+ *           description: Set for the promo code's discount
+ *         name:
  *           type: string
- *           description: Order notes
+ *         amount:
+ *           type: number
  *     
- *     CheckoutInput:
+ *     AppliedPromotion:
+ *       type: object
+ *       properties:
+ *         promotionId:
+ *           type: string
+ *         promoCode:
+ *           type: string
+ *         name:
+ *           type: string
+ *         amount:
+ *           type: number
+ *           description: Discount across all lines
+ *         freeShipping:
+ *           type: boolean
+ *           description: The promotion makes every shipping method free
+ *     
+ *     ItemFilter:
+ *       type: object
+ *       description: Cart lines of a promotion or promo code, matching any of the criteria; without criteria every line matches
+ *       properties:
+ *         productIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *         skus:
+ *           type: array
+ *           items:
+ *             type: string
+ *         categories:
+ *           type: array
+ *           items:
+ *             type: string
+ *         brands:
+ *           type: array
+ *           items:
+ *             type: string
+ *     
+ *     PromotionCondition:
  *       type: object
  *       required:
- *         - customerInfo
- *         - items
+ *         - type
  *       properties:
- *         token:
+ *         type:
  *           type: string
- *           description: Cart token
- *         customerInfo:
- *           type: object
- *           required:
- *             - name
- *             - email
- *           properties:
- *             name:
- *               type: string
- *               description: Customer name
- *             email:
- *               type: string
- *               format: email
+ *           enum: [subtotal, items, quantity, customer_segment]
+ *         minAmount:
+ *           type: number
+ *           description: "subtotal: minimum cart subtotal before discounts"
+ *         items:
+ *           $ref: '#/components/schemas/ItemFilter'
+ *         minQuantity:
+ *           type: integer
+ *           description: "quantity: minimum number of units of the matching lines"
+ *         segments:
+ *           type: array
+ *           description: "customer_segment: the customer is in one of these"
+ *           items:
+ *             type: string
+ *             enum: [guest, registered, new_customer, returning_customer]
+ *     
+ *     PromotionAction:
+ *       type: object
+ *       required:
+ *         - type
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [percentage, fixed, buy_x_get_y, free_shipping]
+ *         target:
+ *           type: string
+ *           enum: [order, items]
+ *           default: order
+ *           description: "percentage and fixed: discount the order, or each line matching items"
+ *         value:
+ *           type: number
+ *           description: Percent for percentage actions; amount for fixed ones, off each unit when targeting items
+ *         tiers:
+ *           type: array
+ *           description: Tiered discount; the value of the highest tier reached replaces value
+ *           items:
+ *             type: object
+ *             properties:
+ *               min:
+ *                 type: number
+ *               value:
+ *                 type: number
+ *         tierBasis:
+ *           type: string
+ *           enum: [subtotal, quantity]
+ *           default: subtotal
+ *         items:
+ *           $ref: '#/components/schemas/ItemFilter'
+ *         buyQuantity:
+ *           type: integer
+ *         getQuantity:
+ *           type: integer
+ *         getPercent:
+ *           type: number
+ *           default: 100
+ *           description: Discount on the cheapest getQuantity of every buyQuantity + getQuantity matching units
+ *     
+ *     Promotion:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         conditions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PromotionCondition'
+ *         actions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PromotionAction'
+ *         priority:
+ *           type: integer
+ *           description: Higher priorities are applied first
+ *         exclusive:
+ *           type: boolean
+ *           description: Never combined with other promotions or a promo code
+ *         currency:
+ *           type: string
+ *           description: Currency of the amounts; promotions with amounts only apply to carts in it
+ *         validFrom:
+ *           type: string
+ *           format: date-time
+ *         validTo:
+ *           type: string
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     PromotionInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - actions
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Buy 2 get 1 free on accessories
+ *         description:
+ *           type: string
+ *         conditions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PromotionCondition'
+ *         actions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PromotionAction'
+ *           example: [{ "type": "buy_x_get_y", "buyQuantity": 2, "getQuantity": 1, "items": { "categories": ["Accessories"] } }]
+ *         priority:
+ *           type: integer
+ *           default: 0
+ *         exclusive:
+ *           type: boolean
+ *           default: false
+ *         currency:
+ *           type: string
+ *         validFrom:
+ *           type: string
+ *           format: date-time
+ *           description: Defaults to now
+ *         validTo:
+ *           type: string
+ *           format: date-time
+ *           description: Runs indefinitely when omitted
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *     
+ *     Campaign:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         prefix:
+ *           type: string
+ *         codeLength:
+ *           type: integer
+ *           description: Random characters after the prefix
+ *         alphabet:
+ *           type: string
+ *         codeCount:
+ *           type: integer
+ *           description: Codes generated
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     CampaignInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - count
+ *         - rules
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Spring newsletter
+ *         description:
+ *           type: string
+ *         count:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10000
+ *         template:
+ *           type: object
+ *           properties:
+ *             prefix:
+ *               type: string
+ *               example: SPRING-
+ *               description: Letters, digits, - and _
+ *             length:
+ *               type: integer
+ *               default: 8
+ *               minimum: 4
+ *               maximum: 32
+ *             alphabet:
+ *               type: string
+ *               default: ABCDEFGHJKLMNPQRSTUVWXYZ23456789
+ *               description: Letters and digits; codes are uppercase
+ *         rules:
+ *           type: object
+ *           description: Promo code fields shared by every code, as for POST /api/promos without code; maxUses defaults to 1
+ *           example: { "type": "percentage", "value": 15, "validFrom": "2024-03-01T00:00:00.000Z", "validTo": "2024-05-31T23:59:59.999Z" }
+ *     
+ *     CampaignStats:
+ *       type: object
+ *       properties:
+ *         totalCodes:
+ *           type: integer
+ *         activeCodes:
+ *           type: integer
+ *         usedCodes:
+ *           type: integer
+ *           description: Codes used at least once
+ *         totalUsage:
+ *           type: integer
+ *         uniqueRedeemers:
+ *           type: integer
+ *         byCurrency:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               currency:
+ *                 type: string
+ *               redemptions:
+ *                 type: integer
+ *               discount:
+ *                 type: number
+ *               revenue:
+ *                 type: number
+ *                 description: Total of the orders that used the codes
+ *     
+ *     GiftCard:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         code:
+ *           type: string
+ *           example: K7QW-2MXP-9HDT-4RCN
+ *         initialBalance:
+ *           type: number
+ *         balance:
+ *           type: number
+ *         currency:
+ *           type: string
+ *           description: The card only pays for carts and orders in this currency
+ *         recipientEmail:
+ *           type: string
+ *         note:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *         transactions:
+ *           type: array
+ *           description: Issue, redemptions and restorations, oldest first
+ *           items:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [issue, redeem, restore]
+ *               amount:
+ *                 type: number
+ *               reference:
+ *                 type: string
+ *               orderId:
+ *                 type: string
+ *               createdAt:
+ *                 type: string
+ *                 format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     GiftCardInput:
+ *       type: object
+ *       required:
+ *         - amount
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: Letters, digits, - and _; generated when omitted
+ *         amount:
+ *           type: number
+ *           example: 50
+ *         currency:
+ *           type: string
+ *           description: Defaults to the base currency
+ *         recipientEmail:
+ *           type: string
+ *           format: email
+ *         note:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     Tender:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [gift_card, store_credit, payment]
+ *         giftCardCode:
+ *           type: string
+ *           description: Code of the gift card (gift_card tenders)
+ *         paymentMethod:
+ *           type: string
+ *           enum: [credit_card, paypal, stripe]
+ *           description: Method charged through the payment provider (payment tenders)
+ *         amount:
+ *           type: number
+ *         refundedAmount:
+ *           type: number
+ *           description: Given back to the tender by refunds and cancellation
+ *     
+ *     ShippingOption:
+ *       type: object
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: Method code to send as shippingMethod at checkout
+ *         name:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [standard, express, pickup]
+ *         cost:
+ *           type: number
+ *         freeShipping:
+ *           type: boolean
+ *           description: The order reached the method's free-shipping threshold
+ *         estimatedDays:
+ *           type: object
+ *           properties:
+ *             min:
+ *               type: integer
+ *             max:
+ *               type: integer
+ *     
+ *     ShippingMethod:
+ *       type: object
+ *       required:
+ *         - code
+ *         - name
+ *         - type
+ *       properties:
+ *         code:
+ *           type: string
+ *           example: express
+ *         name:
+ *           type: string
+ *           example: Express (1-2 days)
+ *         type:
+ *           type: string
+ *           enum: [standard, express, pickup]
+ *         rateType:
+ *           type: string
+ *           enum: [flat, weight, subtotal]
+ *           default: flat
+ *           description: flat charges flatRate; weight and subtotal charge the tier with the highest min the parcel weight (kg) or order subtotal reaches
+ *         flatRate:
+ *           type: number
+ *         tiers:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               min:
+ *                 type: number
+ *               price:
+ *                 type: number
+ *         freeShippingThreshold:
+ *           type: number
+ *           description: Orders with at least this subtotal after discount ship free
+ *         estimatedDays:
+ *           type: object
+ *           properties:
+ *             min:
+ *               type: integer
+ *             max:
+ *               type: integer
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *     
+ *     ShippingZone:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         regions:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               country:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *         methods:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ShippingMethod'
+ *         isActive:
+ *           type: boolean
+ *     
+ *     ShippingZoneInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - regions
+ *         - methods
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: US mainland
+ *         regions:
+ *           type: array
+ *           description: Countries, or states of a country, the zone covers
+ *           items:
+ *             type: object
+ *             required:
+ *               - country
+ *             properties:
+ *               country:
+ *                 type: string
+ *                 example: USA
+ *               state:
+ *                 type: string
+ *         methods:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ShippingMethod'
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *     
+ *     TaxRate:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         country:
+ *           type: string
+ *         state:
+ *           type: string
+ *         zipCode:
+ *           type: string
+ *           description: ZIP code prefix
+ *         taxClass:
+ *           type: string
+ *         rate:
+ *           type: number
+ *           description: Percentage
+ *         isActive:
+ *           type: boolean
+ *     
+ *     TaxRateInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - country
+ *         - rate
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: New York City
+ *         country:
+ *           type: string
+ *           example: USA
+ *         state:
+ *           type: string
+ *           description: Omit for a rate that applies to the whole country
+ *           example: NY
+ *         zipCode:
+ *           type: string
+ *           description: ZIP code prefix; omit for a rate that applies to the whole state
+ *           example: "100"
+ *         taxClass:
+ *           type: string
+ *           default: standard
+ *         rate:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 100
+ *           example: 8.875
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *     
+ *     TaxClass:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         categories:
+ *           type: array
+ *           items:
+ *             type: string
+ *     
+ *     TaxClassInput:
+ *       type: object
+ *       properties:
+ *         description:
+ *           type: string
+ *         categories:
+ *           type: array
+ *           description: Product categories taxed in this class
+ *           items:
+ *             type: string
+ *     
+ *     OrderStatusChange:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: string
+ *           enum: [pending, confirmed, shipped, delivered, cancelled]
+ *           description: Previous status, absent for the entry recorded at creation
+ *         to:
+ *           type: string
+ *           enum: [pending, confirmed, shipped, delivered, cancelled]
+ *         changedAt:
+ *           type: string
+ *           format: date-time
+ *         changedBy:
+ *           type: object
+ *           description: User who made the change, absent for system changes
+ *           properties:
+ *             userId:
+ *               type: string
+ *             email:
+ *               type: string
+ *             role:
+ *               type: string
+ *         note:
+ *           type: string
+ *     
+ *     OrderUpdateInput:
+ *       type: object
+ *       properties:
+ *         status:
+ *           type: string
+ *           enum: [pending, confirmed, shipped, delivered, cancelled]
+ *           description: Order status
+ *         paymentStatus:
+ *           type: string
+ *           enum: [pending, authorized, paid, failed, voided, refund_pending, partially_refunded, refunded]
+ *           description: Payment status
+ *         trackingNumber:
+ *           type: string
+ *           description: Shipping tracking number
+ *         notes:
+ *           type: string
+ *           description: Note recorded with the status change in statusHistory
+ *     
+ *     CheckoutInput:
+ *       type: object
+ *       required:
+ *         - customerInfo
+ *         - items
+ *       properties:
+ *         token:
+ *           type: string
+ *           description: Cart token
+ *         customerInfo:
+ *           type: object
+ *           required:
+ *             - name
+ *             - email
+ *           properties:
+ *             name:
+ *               type: string
+ *               description: Customer name
+ *             email:
+ *               type: string
+ *               format: email
  *               description: Customer email
  *             phone:
  *               type: string
@@ -347,6 +1384,363 @@
  *         promoCode:
  *           type: string
  *           description: Promo code to apply
+ *         shippingMethod:
+ *           type: string
+ *           description: Code of a method from POST /api/checkout/shipping-options; the cheapest available method when omitted
+ *         paymentMethod:
+ *           type: string
+ *           enum: [credit_card, paypal, stripe]
+ *           description: Required unless the cart's gift cards and store credit pay for the whole order
+ *         useStoreCredit:
+ *           type: boolean
+ *           description: Pay with the store credit of the customer's email, after the cart's gift cards
+ *         paymentToken:
+ *           type: string
+ *           description: Card token from the payment provider; when given, the payment is authorized at checkout
+ *     
+ *     PaymentWebhookEvent:
+ *       type: object
+ *       required:
+ *         - id
+ *         - type
+ *         - intentId
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: Provider event ID, used to ignore redeliveries
+ *         type:
+ *           type: string
+ *           enum: [payment.authorized, payment.captured, payment.failed, payment.voided, payment.refunded]
+ *         intentId:
+ *           type: string
+ *           description: Payment intent the event belongs to
+ *         amount:
+ *           type: number
+ *         refundId:
+ *           type: string
+ *         failureReason:
+ *           type: string
+ *         occurredAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     Refund:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         amount:
+ *           type: number
+ *         method:
+ *           type: string
+ *           enum: [original_payment, store_credit]
+ *           description: Where the money went
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               itemId:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ *               amount:
+ *                 type: number
+ *         tenders:
+ *           type: array
+ *           description: For orders paid with several tenders, what each tender got back
+ *           items:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [gift_card, store_credit, payment]
+ *               giftCardCode:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *         reason:
+ *           type: string
+ *         restock:
+ *           type: boolean
+ *         providerRefundId:
+ *           type: string
+ *         createdBy:
+ *           type: object
+ *           properties:
+ *             userId:
+ *               type: string
+ *             email:
+ *               type: string
+ *             role:
+ *               type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     RefundInput:
+ *       type: object
+ *       description: Give items, an amount, or both (the amount then overrides the items' value)
+ *       properties:
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required:
+ *               - itemId
+ *               - quantity
+ *             properties:
+ *               itemId:
+ *                 type: string
+ *                 description: Order item ID
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *         amount:
+ *           type: number
+ *         reason:
+ *           type: string
+ *         restock:
+ *           type: boolean
+ *           default: false
+ *           description: Put the refunded item quantities back in stock
+ *     
+ *     ReturnRequest:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         rmaNumber:
+ *           type: string
+ *           description: Return merchandise authorization number
+ *         orderId:
+ *           type: string
+ *         customerEmail:
+ *           type: string
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               itemId:
+ *                 type: string
+ *                 description: Order item ID
+ *               quantity:
+ *                 type: integer
+ *               reason:
+ *                 type: string
+ *                 enum: [damaged, defective, wrong_item, not_as_described, no_longer_needed, other]
+ *               note:
+ *                 type: string
+ *         resolution:
+ *           type: string
+ *           enum: [refund, store_credit]
+ *         restock:
+ *           type: boolean
+ *         status:
+ *           type: string
+ *           enum: [requested, approved, rejected, received, accepted]
+ *         statusHistory:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               from:
+ *                 type: string
+ *               to:
+ *                 type: string
+ *               changedAt:
+ *                 type: string
+ *                 format: date-time
+ *               changedBy:
+ *                 type: object
+ *                 properties:
+ *                   userId:
+ *                     type: string
+ *                   email:
+ *                     type: string
+ *                   role:
+ *                     type: string
+ *               note:
+ *                 type: string
+ *         refundAmount:
+ *           type: number
+ *           description: Amount refunded when the return was accepted
+ *         refundId:
+ *           type: string
+ *           description: ID of the entry in the order's refund ledger
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     ReturnRequestInput:
+ *       type: object
+ *       required:
+ *         - items
+ *       properties:
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required:
+ *               - itemId
+ *               - quantity
+ *               - reason
+ *             properties:
+ *               itemId:
+ *                 type: string
+ *                 description: Order item ID
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *               reason:
+ *                 type: string
+ *                 enum: [damaged, defective, wrong_item, not_as_described, no_longer_needed, other]
+ *               note:
+ *                 type: string
+ *         resolution:
+ *           type: string
+ *           enum: [refund, store_credit]
+ *           default: refund
+ *         note:
+ *           type: string
+ *     
+ *     ReturnInspectInput:
+ *       type: object
+ *       required:
+ *         - accepted
+ *       properties:
+ *         accepted:
+ *           type: boolean
+ *           description: Whether the goods passed inspection; rejected returns are closed without a refund
+ *         restock:
+ *           type: boolean
+ *           default: true
+ *           description: Put the accepted quantities back in stock
+ *         resolution:
+ *           type: string
+ *           enum: [refund, store_credit]
+ *           description: Overrides the resolution the customer asked for
+ *         note:
+ *           type: string
+ *     
+ *     PaymentActionInput:
+ *       type: object
+ *       required:
+ *         - action
+ *       properties:
+ *         action:
+ *           type: string
+ *           enum: [authorize, capture, void]
+ *         paymentToken:
+ *           type: string
+ *           description: Required for authorize
+ *     
+ *     User:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: User ID
+ *         email:
+ *           type: string
+ *           format: email
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [admin, support, customer]
+ *         isActive:
+ *           type: boolean
+ *         lastLoginAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     LoginInput:
+ *       type: object
+ *       required:
+ *         - email
+ *         - password
+ *       properties:
+ *         email:
+ *           type: string
+ *           format: email
+ *         password:
+ *           type: string
+ *         cartToken:
+ *           type: string
+ *           description: Guest cart token to attach to the account
+ *     
+ *     RegisterInput:
+ *       type: object
+ *       required:
+ *         - email
+ *         - password
+ *         - firstName
+ *         - lastName
+ *       properties:
+ *         email:
+ *           type: string
+ *           format: email
+ *         password:
+ *           type: string
+ *           minLength: 8
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         cartToken:
+ *           type: string
+ *           description: Guest cart token to attach to the account
+ *     
+ *     CreateUserInput:
+ *       type: object
+ *       required:
+ *         - email
+ *         - password
+ *         - firstName
+ *         - lastName
+ *         - role
+ *       properties:
+ *         email:
+ *           type: string
+ *           format: email
+ *         password:
+ *           type: string
+ *           minLength: 8
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [admin, support, customer]
+ *     
+ *     AuthResult:
+ *       type: object
+ *       properties:
+ *         user:
+ *           $ref: '#/components/schemas/User'
+ *         tokens:
+ *           type: object
+ *           properties:
+ *             accessToken:
+ *               type: string
+ *             refreshToken:
+ *               type: string
+ *             expiresIn:
+ *               type: string
+ *               description: Access token lifetime (JWT_EXPIRES_IN)
+ *         cart:
+ *           $ref: '#/components/schemas/Cart'
  *     
  *     Error:
  *       type: object
@@ -0,0 +1,33 @@
+// Currencies are ISO 4217 codes. Catalog prices and configured amounts (shipping rates, promo
+// amounts) are in the base currency unless stated otherwise.
+
+export const getBaseCurrency = (): string => (process.env.BASE_CURRENCY || 'USD').toUpperCase();
+
+// Currencies carts can be priced in; the base currency is always supported
+export const getSupportedCurrencies = (): string[] => {
+  const configured = (process.env.SUPPORTED_CURRENCIES || '')
+    .split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(Boolean);
+  return [...new Set([getBaseCurrency(), ...configured])];
+};
+
+export const isSupportedCurrency = (currency: string): boolean =>
+  getSupportedCurrencies().includes(currency.toUpperCase());
+
+const decimalsCache = new Map<string, number>();
+
+// Number of minor unit digits, e.g. 2 for USD, 0 for JPY, 3 for KWD
+export const getCurrencyDecimals = (currency: string): number => {
+  const code = currency.toUpperCase();
+  let decimals = decimalsCache.get(code);
+  if (decimals === undefined) {
+    try {
+      decimals = new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      decimals = 2;
+    }
+    decimalsCache.set(code, decimals);
+  }
+  return decimals;
+};
@@ -0,0 +1,51 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Cart lines a promotion or promo code is about. A line matches when it is listed under any of
+// the criteria; a filter without criteria matches every line.
+export interface IItemFilter {
+  productIds: mongoose.Types.ObjectId[];
+  skus: string[];
+  categories: string[];
+  brands: string[];
+}
+
+// What a filter looks at on a cart line; category and brand come from the line's product
+export interface FilterableLine {
+  productId: mongoose.Types.ObjectId | string;
+  sku: string;
+  category: string;
+  brand: string;
+}
+
+export const itemFilterSchema = new Schema<IItemFilter>({
+  productIds: [{ type: Schema.Types.ObjectId, ref: 'Product' }],
+  skus: [{ type: String, trim: true }],
+  categories: [{ type: String, trim: true }],
+  brands: [{ type: String, trim: true }],
+}, { _id: false });
+
+export const isEmptyItemFilter = (filter?: IItemFilter): boolean =>
+  !filter || [filter.productIds, filter.skus, filter.categories, filter.brands].every(list => list.length === 0);
+
+// The criterion listing the line, e.g. "category Shoes", or null when none does
+export const findItemFilterMatch = (filter: IItemFilter | undefined, line: FilterableLine): string | null => {
+  if (!filter) {
+    return null;
+  }
+  if (filter.productIds.some(productId => String(productId) === String(line.productId))) {
+    return `product ${line.productId}`;
+  }
+  if (filter.skus.includes(line.sku)) {
+    return `SKU ${line.sku}`;
+  }
+  if (filter.categories.includes(line.category)) {
+    return `category ${line.category}`;
+  }
+  if (filter.brands.includes(line.brand)) {
+    return `brand ${line.brand}`;
+  }
+  return null;
+};
+
+export const matchesItemFilter = (filter: IItemFilter | undefined, line: FilterableLine): boolean =>
+  isEmptyItemFilter(filter) || findItemFilterMatch(filter, line) !== null;
@@ -0,0 +1,120 @@
+import mongoose, { Schema, SchemaTypeOptions } from 'mongoose';
+import { getBaseCurrency, getCurrencyDecimals } from './currency';
+
+// Money amounts are plain numbers in code and in API responses, e.g. 299.99, always rounded to
+// their currency's minor unit. Arithmetic goes through integer minor units (cents for USD, yen for
+// JPY) so sums and splits don't pick up floating point drift, and amounts are stored as Decimal128
+// so the database keeps and aggregates exact decimal values.
+
+const { Decimal128 } = mongoose.Types;
+
+// Half away from zero; toPrecision drops binary noise like 1.005 * 100 = 100.49999999999999
+const roundHalfAwayFromZero = (value: number): number =>
+  Math.sign(value) * Math.round(Number(Math.abs(value).toPrecision(15)));
+
+export const toMinorUnits = (amount: number, currency: string = getBaseCurrency()): number =>
+  roundHalfAwayFromZero(amount * 10 ** getCurrencyDecimals(currency));
+
+export const fromMinorUnits = (units: number, currency: string = getBaseCurrency()): number =>
+  units / 10 ** getCurrencyDecimals(currency);
+
+export const roundMoney = (amount: number, currency: string = getBaseCurrency()): number =>
+  fromMinorUnits(toMinorUnits(amount, currency), currency);
+
+// Adds up amounts exactly
+export const sumMoney = (amounts: number[], currency: string = getBaseCurrency()): number =>
+  fromMinorUnits(amounts.reduce((sum, amount) => sum + toMinorUnits(amount, currency), 0), currency);
+
+// Price times quantity, exactly
+export const multiplyMoney = (amount: number, quantity: number, currency: string = getBaseCurrency()): number =>
+  fromMinorUnits(toMinorUnits(amount, currency) * quantity, currency);
+
+/**
+ * A percentage of an amount, e.g. a percentage discount. Rounding rule: the exact result is
+ * rounded to the nearest minor unit, halves away from zero (10% of 0.05 is 0.01).
+ */
+export const percentageOf = (amount: number, percent: number, currency: string = getBaseCurrency()): number =>
+  fromMinorUnits(roundHalfAwayFromZero((toMinorUnits(amount, currency) * percent) / 100), currency);
+
+/**
+ * Splits `amount` across `weights` proportionally. The parts always add up to `amount`
+ * exactly: minor units lost to rounding go to the parts with the largest remainders.
+ */
+export const allocateProportionally = (
+  amount: number,
+  weights: number[],
+  currency: string = getBaseCurrency()
+): number[] => {
+  const totalUnits = toMinorUnits(amount, currency);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map(weight => (totalUnits * weight) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let leftover = totalUnits - parts.reduce((sum, part) => sum + part, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[index] = (parts[index] ?? 0) + 1;
+    leftover -= 1;
+  }
+
+  return parts.map(part => fromMinorUnits(part, currency));
+};
+
+// Decimal128 for a stored amount; also usable in update pipelines and $expr, which Mongoose doesn't cast
+export const toDecimal128 = (amount: number): mongoose.Types.Decimal128 =>
+  Decimal128.fromString(String(Number(amount.toPrecision(15))));
+
+// Number for a stored amount. Documents written before amounts were Decimal128 hold plain numbers.
+export const decimalToNumber = (value: unknown): number => {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  return typeof value === 'number' ? value : Number(String(value));
+};
+
+/**
+ * Schema type for money fields: stored as Decimal128, read and written as numbers. Schemas with
+ * money fields need `moneySchemaOptions` so API responses contain numbers, not Decimal128 objects.
+ */
+export const moneyField = (options: { required?: boolean; default?: number } = {}): SchemaTypeOptions<any> => ({
+  type: Schema.Types.Decimal128,
+  ...options,
+  set: (value: unknown) => (typeof value === 'number' ? toDecimal128(value) : value),
+  get: (value: unknown) => (value === null || value === undefined ? value : decimalToNumber(value)),
+  validate: {
+    validator: (value: unknown) => value === null || value === undefined || decimalToNumber(value) >= 0,
+    message: 'Amount must not be negative',
+  },
+});
+
+// Applies the money getters when documents are serialized. Sub-schemas of the same model need
+// them too: they'd otherwise pick up the getters from their parent and add an `id` virtual.
+export const moneySchemaOptions = {
+  toJSON: { getters: true, virtuals: false },
+  toObject: { getters: true, virtuals: false },
+};
+
+// Converts the Decimal128 amounts in aggregation results (which skip schema getters) to numbers
+export const decimalsToNumbers = <T>(value: T): T => {
+  if (value instanceof mongoose.Types.Decimal128) {
+    return decimalToNumber(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(decimalsToNumbers) as T;
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, decimalsToNumbers(entry)])
+    ) as T;
+  }
+  return value;
+};
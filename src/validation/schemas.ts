@@ -5,8 +5,32 @@ export const productVariantSchema = z.object({
   name: z.string().min(1, 'Variant name is required'),
   sku: z.string().min(1, 'SKU is required'),
   price: z.number().positive('Price must be positive'),
+  prices: z.array(z.object({
+    currency: z.string().length(3, 'Currency must be a 3-letter ISO code'),
+    amount: z.number().positive('Price must be positive'),
+  })).optional(),
   stock: z.number().int().min(0, 'Stock must be non-negative'),
   attributes: z.record(z.string()).optional(),
+  weight: z.number().min(0, 'Weight must be non-negative').optional(),
+  dimensions: z.object({
+    length: z.number().min(0),
+    width: z.number().min(0),
+    height: z.number().min(0),
+  }).optional(),
+});
+
+// Product Customization Schema, an option customers set on a cart line such as engraving or gift wrap
+export const productCustomizationSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Key must be lowercase letters, digits and underscores'),
+  name: z.string().min(1, 'Customization name is required'),
+  type: z.enum(['text', 'boolean', 'select']),
+  required: z.boolean().default(false),
+  maxLength: z.number().int().positive().optional(),
+  choices: z.array(z.string().min(1)).optional(),
+  surcharge: z.number().min(0, 'Surcharge must be non-negative').default(0),
+}).refine(option => option.type !== 'select' || (option.choices?.length ?? 0) > 0, {
+  message: 'Select customizations need choices',
+  path: ['choices'],
 });
 
 // Product Schema
@@ -18,6 +42,9 @@ export const productSchema = z.object({
   images: z.array(z.string().url('Invalid image URL')).optional(),
   variants: z.array(productVariantSchema).min(1, 'At least one variant is required'),
   tags: z.array(z.string()).optional(),
+  customizations: z.array(productCustomizationSchema)
+    .refine(options => new Set(options.map(option => option.key)).size === options.length, 'Customization keys must be unique')
+    .optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -26,6 +53,33 @@ export const cartItemSchema = z.object({
   productId: z.string().min(1, 'Product ID is required'),
   variantId: z.string().min(1, 'Variant ID is required'),
   quantity: z.number().int().positive('Quantity must be a positive integer'),
+  // Values by customization key; checked against the product's customizations
+  customizations: z.record(z.union([z.string().max(500), z.boolean()])).optional(),
+});
+
+// Batch cart operations; set and remove target a line by lineId or a variant by productId and variantId
+const cartLineTargetFields = {
+  lineId: z.string().optional(),
+  productId: z.string().optional(),
+  variantId: z.string().optional(),
+};
+
+export const cartOperationsSchema = z.object({
+  operations: z.array(z.discriminatedUnion('op', [
+    cartItemSchema.extend({ op: z.literal('add') }),
+    z.object({ op: z.literal('set'), quantity: z.number().int().min(0, 'Quantity must be non-negative'), ...cartLineTargetFields }),
+    z.object({ op: z.literal('remove'), ...cartLineTargetFields }),
+  ])).min(1, 'At least one operation is required').max(100, 'At most 100 operations per request'),
+}).superRefine((batch, ctx) => {
+  batch.operations.forEach((operation, index) => {
+    if (operation.op !== 'add' && !operation.lineId && !(operation.productId && operation.variantId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'lineId or productId and variantId are required',
+        path: ['operations', index],
+      });
+    }
+  });
 });
 
 // Cart Schema
@@ -34,6 +88,14 @@ export const cartSchema = z.object({
   promoCode: z.string().optional(),
 });
 
+// Products, SKUs, categories and brands a promotion or promo code is about
+const itemFilterSchema = z.object({
+  productIds: z.array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid product ID')).default([]),
+  skus: z.array(z.string().min(1)).default([]),
+  categories: z.array(z.string().min(1)).default([]),
+  brands: z.array(z.string().min(1)).default([]),
+});
+
 // Promo Code Schema
 export const promoCodeSchema = z.object({
   code: z.string().min(1, 'Promo code is required').toUpperCase(),
@@ -43,10 +105,120 @@ export const promoCodeSchema = z.object({
   value: z.number().positive('Value must be positive'),
   maxDiscount: z.number().positive('Max discount must be positive').optional(),
   minOrderAmount: z.number().positive('Min order amount must be positive').optional(),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').toUpperCase().optional(),
   validFrom: z.date(),
   validTo: z.date(),
   maxUses: z.number().int().positive('Max uses must be a positive integer').optional(),
   usedCount: z.number().int().min(0, 'Used count must be non-negative').default(0),
+  maxUsesPerCustomer: z.number().int().positive('Max uses per customer must be a positive integer').optional(),
+  firstOrderOnly: z.boolean().default(false),
+  newCustomersOnly: z.boolean().default(false),
+  appliesTo: itemFilterSchema.optional(),
+  excludes: itemFilterSchema.optional(),
+  isActive: z.boolean().default(true),
+});
+
+// Campaign Schema: promo codes generated in bulk from a template, sharing the same rules
+export const DEFAULT_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const campaignSchema = z.object({
+  name: z.string().min(1, 'Campaign name is required'),
+  description: z.string().optional(),
+  count: z.number().int().min(1, 'Count must be at least 1').max(10000, 'At most 10000 codes can be generated at once'),
+  template: z.object({
+    prefix: z.string().max(20).regex(/^[A-Za-z0-9_-]*$/, 'Prefix may only contain letters, digits, - and _').toUpperCase().default(''),
+    length: z.number().int().min(4, 'Length must be at least 4').max(32, 'Length must be at most 32').default(8),
+    alphabet: z.string()
+      .regex(/^[A-Za-z0-9]+$/, 'Alphabet may only contain letters and digits')
+      .toUpperCase()
+      .refine(alphabet => new Set(alphabet).size === alphabet.length, 'Alphabet characters must be unique (case-insensitively)')
+      .refine(alphabet => alphabet.length >= 2, 'Alphabet needs at least 2 characters')
+      .default(DEFAULT_CODE_ALPHABET),
+  }).default({}),
+  rules: promoCodeSchema.omit({ code: true, usedCount: true }).extend({
+    validFrom: z.coerce.date(),
+    validTo: z.coerce.date(),
+    // Campaign codes are single-use unless said otherwise
+    maxUses: z.number().int().positive('Max uses must be a positive integer').default(1),
+  }),
+}).refine(
+  // Leaves room for collisions with codes already taken
+  campaign => campaign.template.alphabet.length ** campaign.template.length >= campaign.count * 100,
+  { message: 'The template allows too few distinct codes; use a longer length or a larger alphabet', path: ['template'] }
+);
+
+// Gift Card Schemas
+export const giftCardIssueSchema = z.object({
+  // Generated when omitted
+  code: z.string().min(4).max(32).regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, digits, - and _').optional(),
+  amount: z.number().positive('Amount must be greater than zero'),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').toUpperCase().optional(),
+  recipientEmail: z.string().email('Invalid email address').optional(),
+  note: z.string().max(500).optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+export const giftCardUpdateSchema = z.object({
+  isActive: z.boolean().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  note: z.string().max(500).optional(),
+});
+
+// Promotion Schemas
+export const promotionConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('subtotal'), minAmount: z.number().positive('Minimum amount must be positive') }),
+  z.object({ type: z.literal('items'), items: itemFilterSchema }),
+  z.object({
+    type: z.literal('quantity'),
+    minQuantity: z.number().int().positive('Minimum quantity must be a positive integer'),
+    items: itemFilterSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('customer_segment'),
+    segments: z.array(z.enum(['guest', 'registered', 'new_customer', 'returning_customer'])).min(1, 'At least one segment is required'),
+  }),
+]);
+
+const promotionDiscountFields = {
+  target: z.enum(['order', 'items']).default('order'),
+  tiers: z.array(z.object({
+    min: z.number().min(0),
+    value: z.number().positive('Tier value must be positive'),
+  })).default([]),
+  tierBasis: z.enum(['subtotal', 'quantity']).default('subtotal'),
+  items: itemFilterSchema.optional(),
+};
+
+export const promotionActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('percentage'), value: z.number().positive().max(100, 'Value is a percentage').optional(), ...promotionDiscountFields }),
+  z.object({ type: z.literal('fixed'), value: z.number().positive('Value must be positive').optional(), ...promotionDiscountFields }),
+  z.object({
+    type: z.literal('buy_x_get_y'),
+    buyQuantity: z.number().int().positive('Buy quantity must be a positive integer'),
+    getQuantity: z.number().int().positive('Get quantity must be a positive integer'),
+    getPercent: z.number().positive().max(100, 'Get percent is a percentage').default(100),
+    items: itemFilterSchema.optional(),
+  }),
+  z.object({ type: z.literal('free_shipping') }),
+]);
+
+export const promotionSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  conditions: z.array(promotionConditionSchema).default([]),
+  actions: z.array(promotionActionSchema)
+    .min(1, 'At least one action is required')
+    .refine(actions => actions.every(action =>
+      (action.type !== 'percentage' && action.type !== 'fixed') || action.value !== undefined || action.tiers.length > 0
+    ), { message: 'Percentage and fixed actions need a value or tiers' })
+    .refine(actions => actions.every(action =>
+      action.type !== 'percentage' || action.tiers.every(tier => tier.value <= 100)
+    ), { message: 'Percentage tier values are percentages' }),
+  priority: z.number().int().default(0),
+  exclusive: z.boolean().default(false),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').toUpperCase().optional(),
+  validFrom: z.coerce.date().optional(),
+  validTo: z.coerce.date().optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -73,10 +245,35 @@ export const checkoutSchema = z.object({
     zipCode: z.string().min(1, 'ZIP code is required'),
     country: z.string().min(1, 'Country is required'),
   }).optional(),
+  // Only optional when the cart's gift cards and store credit pay for the whole order
   paymentMethod: z.enum(['credit_card', 'paypal', 'stripe'], {
     errorMap: () => ({ message: 'Invalid payment method' }),
-  }),
+  }).optional(),
   promoCode: z.string().optional(),
+  // Code of a method from POST /api/checkout/shipping-options; the cheapest one when omitted
+  shippingMethod: z.string().min(1).optional(),
+  // Card token from the payment provider's client library; authorizes the payment at checkout
+  paymentToken: z.string().min(1).optional(),
+  // Pays with the store credit of the customer's email, after the cart's gift cards
+  useStoreCredit: z.boolean().optional(),
+});
+
+// Checkout Calculate Schema; tax is only calculated when the shipping address is known
+export const checkoutCalculateSchema = z.object({
+  cartId: z.string().min(1, 'Cart ID is required'),
+  promoCode: z.string().optional(),
+  shippingAddress: checkoutSchema.shape.shippingAddress.optional(),
+  shippingMethod: z.string().min(1).optional(),
+  // Store credit is only included when the customer's email is known
+  email: z.string().email('Invalid email address').optional(),
+  useStoreCredit: z.boolean().optional(),
+});
+
+// Shipping Options Schema
+export const shippingOptionsSchema = z.object({
+  cartId: z.string().min(1, 'Cart ID is required'),
+  promoCode: z.string().optional(),
+  shippingAddress: checkoutSchema.shape.shippingAddress,
 });
 
 // Order Update Schema
@@ -88,6 +285,142 @@ export const orderUpdateSchema = z.object({
   notes: z.string().optional(),
 });
 
+// Payment Action Schema
+export const paymentActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('authorize'), paymentToken: z.string().min(1, 'Payment token is required') }),
+  z.object({ action: z.literal('capture') }),
+  z.object({ action: z.literal('void') }),
+]);
+
+// Refund Schema
+export const refundSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.string().min(1, 'Item ID is required'),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+  })).optional(),
+  amount: z.number().positive('Amount must be positive').optional(),
+  reason: z.string().max(500, 'Reason too long').optional(),
+  restock: z.boolean().default(false),
+}).refine(data => (data.items && data.items.length > 0) || data.amount !== undefined, {
+  message: 'Provide items or an amount to refund',
+});
+
+// Order Cancel Schema
+export const orderCancelSchema = z.object({
+  reason: z.string().max(500, 'Reason too long').optional(),
+});
+
+// Return Schemas
+export const returnCreateSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.string().min(1, 'Item ID is required'),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+    reason: z.enum(['damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other']),
+    note: z.string().max(500, 'Note too long').optional(),
+  })).min(1, 'At least one item is required'),
+  resolution: z.enum(['refund', 'store_credit']).default('refund'),
+  note: z.string().max(500, 'Note too long').optional(),
+});
+
+export const returnStatusNoteSchema = z.object({
+  note: z.string().max(500, 'Note too long').optional(),
+});
+
+export const returnInspectSchema = z.object({
+  accepted: z.boolean(),
+  restock: z.boolean().default(true),
+  resolution: z.enum(['refund', 'store_credit']).optional(),
+  note: z.string().max(500, 'Note too long').optional(),
+});
+
+// Tax Schemas
+export const taxRateSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  country: z.string().min(1, 'Country is required'),
+  state: z.string().min(1).optional(),
+  zipCode: z.string().min(1).optional(),
+  taxClass: z.string().min(1).default('standard'),
+  rate: z.number().min(0, 'Rate cannot be negative').max(100, 'Rate is a percentage'),
+  isActive: z.boolean().default(true),
+});
+
+export const taxClassSchema = z.object({
+  description: z.string().optional(),
+  categories: z.array(z.string().min(1)).default([]),
+});
+
+// Shipping Zone Schemas
+export const shippingMethodSchema = z.object({
+  code: z.string().min(1, 'Method code is required'),
+  name: z.string().min(1, 'Method name is required'),
+  type: z.enum(['standard', 'express', 'pickup']),
+  rateType: z.enum(['flat', 'weight', 'subtotal']).default('flat'),
+  flatRate: z.number().min(0).optional(),
+  tiers: z.array(z.object({
+    min: z.number().min(0),
+    price: z.number().min(0),
+  })).default([]),
+  freeShippingThreshold: z.number().min(0).optional(),
+  estimatedDays: z.object({
+    min: z.number().int().min(0),
+    max: z.number().int().min(0),
+  }).optional(),
+  isActive: z.boolean().default(true),
+}).refine(method => method.rateType === 'flat' ? method.flatRate !== undefined : method.tiers.length > 0, {
+  message: 'Flat rate methods need a flatRate, weight and subtotal methods need tiers',
+});
+
+export const shippingZoneSchema = z.object({
+  name: z.string().min(1, 'Zone name is required'),
+  regions: z.array(z.object({
+    country: z.string().min(1, 'Country is required'),
+    state: z.string().min(1).optional(),
+  })).min(1, 'At least one region is required'),
+  methods: z.array(shippingMethodSchema)
+    .refine(methods => new Set(methods.map(method => method.code.toLowerCase())).size === methods.length, {
+      message: 'Method codes must be unique within a zone',
+    }),
+  isActive: z.boolean().default(true),
+});
+
+// Currency Schemas
+export const exchangeRatesSchema = z.object({
+  // Units of each currency per one unit of the base currency, e.g. { "EUR": 0.92 }
+  rates: z.record(
+    z.string().regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter ISO code'),
+    z.number().positive('Rate must be positive')
+  ),
+});
+
+// Auth Schemas
+export const loginSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required'),
+  cartToken: z.string().optional(),
+});
+
+export const registerSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: z.string().min(1, 'Last name is required'),
+  cartToken: z.string().optional(),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export const createUserSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: z.string().min(1, 'Last name is required'),
+  role: z.enum(['admin', 'support', 'customer'], {
+    errorMap: () => ({ message: 'Invalid role' }),
+  }),
+});
+
 // Query Parameters Schemas
 export const paginationSchema = z.object({
   page: z.string().transform(val => parseInt(val, 10)).pipe(z.number().int().min(1)).default('1'),
@@ -115,8 +448,27 @@ export type ProductInput = z.infer<typeof productSchema>;
 export type ProductVariantInput = z.infer<typeof productVariantSchema>;
 export type CartItemInput = z.infer<typeof cartItemSchema>;
 export type CartInput = z.infer<typeof cartSchema>;
+export type CartOperationsInput = z.infer<typeof cartOperationsSchema>;
 export type PromoCodeInput = z.infer<typeof promoCodeSchema>;
+export type PromotionInput = z.infer<typeof promotionSchema>;
+export type CampaignInput = z.infer<typeof campaignSchema>;
+export type GiftCardIssueInput = z.infer<typeof giftCardIssueSchema>;
+export type GiftCardUpdateInput = z.infer<typeof giftCardUpdateSchema>;
 export type CheckoutInput = z.infer<typeof checkoutSchema>;
+export type CheckoutCalculateInput = z.infer<typeof checkoutCalculateSchema>;
+export type ShippingOptionsInput = z.infer<typeof shippingOptionsSchema>;
 export type OrderUpdateInput = z.infer<typeof orderUpdateSchema>;
+export type OrderCancelInput = z.infer<typeof orderCancelSchema>;
+export type PaymentActionInput = z.infer<typeof paymentActionSchema>;
+export type RefundInput = z.infer<typeof refundSchema>;
+export type ReturnCreateInput = z.infer<typeof returnCreateSchema>;
+export type ReturnInspectInput = z.infer<typeof returnInspectSchema>;
+export type TaxRateInput = z.infer<typeof taxRateSchema>;
+export type TaxClassInput = z.infer<typeof taxClassSchema>;
+export type ShippingZoneInput = z.infer<typeof shippingZoneSchema>;
+export type ExchangeRatesInput = z.infer<typeof exchangeRatesSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type ProductQuery = z.infer<typeof productQuerySchema>;
 export type OrderQuery = z.infer<typeof orderQuerySchema>;